@@ -117,8 +117,8 @@ describe('Message API – Mocked Tests (Jest Mocks)', () => {
       // Mocked behavior: messageModel.findById throws database error
       // Input: messageId in URL
       // Expected status code: 500
-      // Expected behavior: error handled gracefully
-      // Expected output: error message "Failed to delete message"
+      // Expected behavior: the authorization layer fails the request before the controller runs
+      // Expected output: error message "Failed to authorize request"
       jest.spyOn(messageModel, 'findById').mockRejectedValue(new Error('Database error'));
 
       const messageId = new mongoose.Types.ObjectId();
@@ -127,7 +127,7 @@ describe('Message API – Mocked Tests (Jest Mocks)', () => {
         .set('Authorization', `Bearer ${testData.testUserToken}`);
 
       expect(res.status).toBe(500);
-      expect(res.body.error).toBe('Failed to delete message');
+      expect(res.body.error).toBe('Failed to authorize request');
     });
 
     test('500 – returns 500 when messageModel.findByIdAndDelete throws error', async () => {
@@ -157,8 +157,8 @@ describe('Message API – Mocked Tests (Jest Mocks)', () => {
       // Mocked behavior: workspaceModel.findById throws database error
       // Input: messageId in URL
       // Expected status code: 500
-      // Expected behavior: error handled gracefully
-      // Expected output: error message "Failed to delete message"
+      // Expected behavior: the authorization layer fails the request before the controller runs
+      // Expected output: error message "Failed to authorize request"
       // Create a message first
       const message = await messageModel.create({
         workspaceId: new mongoose.Types.ObjectId(testData.testWorkspaceId),
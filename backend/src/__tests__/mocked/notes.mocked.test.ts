@@ -7,7 +7,10 @@ import type { Request, Response, NextFunction } from 'express';
 
 import { NoteType } from '../../notes/notes.types';
 import { noteService } from '../../notes/notes.service';
+import { OpenAIEmbeddingProvider } from '../../embeddings/openai.provider';
 import { noteModel } from '../../notes/note.model';
+import { embeddingJobModel } from '../../embeddings/embeddingJob.model';
+import { processEmbeddingJobs } from '../../embeddings/embedding.worker';
 import { workspaceModel } from '../../workspaces/workspace.model';
 import * as authMiddleware from '../../authentication/auth.middleware';
 import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
@@ -48,8 +51,8 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
     testData = await setupTestDatabase(app);
     
     // Mock OpenAI client for beforeEach note creation (used in setup for other tests)
-    // Reset client cache to ensure fresh mock
-    (noteService as any).client = null;
+    // Reset provider cache to ensure fresh mock
+    (noteService as any).embeddingProvider = undefined;
     
     const mockEmbedding = Array(3072).fill(0).map(() => Math.random() * 0.1 - 0.05);
     const mockClient = {
@@ -60,7 +63,7 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
       },
     };
     
-    jest.spyOn(noteService as any, 'getClient').mockReturnValue(mockClient);
+    jest.spyOn(noteService as any, 'getEmbeddingProvider').mockReturnValue(new OpenAIEmbeddingProvider(mockClient as unknown as OpenAI));
   });
 
   describe('POST /api/notes - Create Note, with mocks', () => {
@@ -112,12 +115,12 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
       // Mocked behavior: OpenAI API call succeeds and returns embeddings
       // Input: noteData with fields that trigger OpenAI embeddings
       // Expected status code: 201
-      // Expected behavior: note created with vector embeddings
-      // Expected output: note created successfully
+      // Expected behavior: note saved as pending, the embedding worker stores the vector
+      // Expected output: note created successfully, ready with the vector after the worker ran
       const mockEmbedding = [0.1, 0.2, 0.3, 0.4, 0.5];
       
-      // Reset the client cache and mock getClient to return a fake client
-      (noteService as any).client = null;
+      // Reset the provider cache and mock getEmbeddingProvider to wrap a fake client
+      (noteService as any).embeddingProvider = undefined;
       
       const mockClient = {
         embeddings: {
@@ -127,7 +130,7 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
         },
       };
       
-      jest.spyOn(noteService as any, 'getClient').mockReturnValue(mockClient);
+      jest.spyOn(noteService as any, 'getEmbeddingProvider').mockReturnValue(new OpenAIEmbeddingProvider(mockClient as unknown as OpenAI));
 
       const res = await request(app)
         .post('/api/notes')
@@ -144,17 +147,24 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
 
       expect(res.status).toBe(201);
       expect(res.body.data.note).toBeDefined();
-      expect(res.body.data.note.vectorData).toBeDefined();
+      expect(res.body.data.note.embeddingStatus).toBe('pending');
+      expect(res.body.data.note.vectorData).toEqual([]);
+
+      expect(await processEmbeddingJobs()).toEqual({ embedded: 1, failed: 0 });
+      const stored = await noteModel.findById(res.body.data.note._id);
+      expect(stored?.embeddingStatus).toBe('ready');
+      expect(stored?.vectorData).toEqual(mockEmbedding);
+      expect(await embeddingJobModel.countDocuments()).toBe(0);
     });
 
-    test('500 – OpenAI failure causes note creation to fail', async () => {
+    test('201 – OpenAI failure no longer fails note creation', async () => {
       // Mocked behavior: OpenAI API call fails
       // Input: noteData with fields that would trigger OpenAI
-      // Expected status code: 500
-      // Expected behavior: error propagates and note creation fails
-      // Expected output: error message
-      // Reset the client cache and mock getClient to return a client that throws
-      (noteService as any).client = null;
+      // Expected status code: 201
+      // Expected behavior: the note is saved, the failed attempt is retried later with backoff
+      // Expected output: note pending with the error recorded
+      // Reset the provider cache and mock getEmbeddingProvider to wrap a client that throws
+      (noteService as any).embeddingProvider = undefined;
       
       const mockClient = {
         embeddings: {
@@ -162,7 +172,7 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
         },
       };
       
-      jest.spyOn(noteService as any, 'getClient').mockReturnValue(mockClient);
+      jest.spyOn(noteService as any, 'getEmbeddingProvider').mockReturnValue(new OpenAIEmbeddingProvider(mockClient as unknown as OpenAI));
 
       const res = await request(app)
         .post('/api/notes')
@@ -177,18 +187,31 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
           ],
         });
 
-      expect(res.status).toBe(500);
-      expect(res.body.error).toBeDefined();
+      expect(res.status).toBe(201);
+
+      const now = new Date();
+      expect(await processEmbeddingJobs(now)).toEqual({ embedded: 0, failed: 1 });
+      const stored = await noteModel.findById(res.body.data.note._id);
+      expect(stored?.embeddingStatus).toBe('pending');
+      expect(stored?.embeddingError).toBe('OpenAI API error');
+
+      const job = await embeddingJobModel.findOne({ noteId: res.body.data.note._id });
+      expect(job?.status).toBe('queued');
+      expect(job?.attempts).toBe(1);
+      expect(job?.runAt.getTime()).toBeGreaterThan(now.getTime());
+
+      // Not due yet, nothing is retried right away
+      expect(await processEmbeddingJobs(now)).toEqual({ embedded: 0, failed: 0 });
     });
 
-    test('500 – OpenAI embeddings error propagates and fails note creation', async () => {
-      // Mocked behavior: OpenAI embeddings.create throws error
+    test('OpenAI embeddings keep failing until retries run out', async () => {
+      // Mocked behavior: OpenAI embeddings.create throws error on every call
       // Input: noteData with fields that trigger OpenAI embeddings
-      // Expected status code: 500
-      // Expected behavior: error propagates and note creation fails
-      // Expected output: error message
-      // Reset the client cache and mock getClient to return a client that throws
-      (noteService as any).client = null;
+      // Expected status code: 201
+      // Expected behavior: each retry waits twice as long, after the last attempt the note is marked failed
+      // Expected output: failed note and job, five embedding calls
+      // Reset the provider cache and mock getEmbeddingProvider to wrap a client that throws
+      (noteService as any).embeddingProvider = undefined;
       
       const mockClient = {
         embeddings: {
@@ -196,7 +219,7 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
         },
       };
       
-      jest.spyOn(noteService as any, 'getClient').mockReturnValue(mockClient);
+      jest.spyOn(noteService as any, 'getEmbeddingProvider').mockReturnValue(new OpenAIEmbeddingProvider(mockClient as unknown as OpenAI));
 
       const res = await request(app)
         .post('/api/notes')
@@ -211,8 +234,71 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
           ],
         });
 
-      expect(res.status).toBe(500);
-      expect(res.body.error).toBeDefined();
+      expect(res.status).toBe(201);
+
+      const delays: number[] = [];
+      let now = new Date();
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        await processEmbeddingJobs(now);
+        const job = await embeddingJobModel.findOne({ noteId: res.body.data.note._id }).orFail();
+        delays.push(job.runAt.getTime() - now.getTime());
+        now = job.runAt;
+      }
+
+      expect(delays.slice(1, 4)).toEqual([delays[0] * 2, delays[0] * 4, delays[0] * 8]);
+      expect(mockClient.embeddings.create).toHaveBeenCalledTimes(5);
+      expect((await embeddingJobModel.findOne({ noteId: res.body.data.note._id }))?.status).toBe('failed');
+      const stored = await noteModel.findById(res.body.data.note._id);
+      expect(stored?.embeddingStatus).toBe('failed');
+      expect(stored?.embeddingError).toBe('OpenAI API error');
+
+      // A failed job is only picked up again once queued anew
+      expect(await processEmbeddingJobs(new Date(now.getTime() + 24 * 60 * 60 * 1000))).toEqual({ embedded: 0, failed: 0 });
+    });
+  });
+
+  describe('POST /api/notes - Field text extraction for embeddings, with mocks', () => {
+    test('201 – embedding input includes the values of every field type', async () => {
+      // Mocked behavior: OpenAI client records the embedding input
+      // Input: noteData with checkbox, number, select, url, signature and image fields
+      // Expected status code: 201
+      // Expected behavior: each field contributes a text representation of its value
+      // Expected output: embedding input containing those representations
+      const mockClient = {
+        embeddings: {
+          create: jest.fn().mockResolvedValue({
+            data: [{ embedding: [0.1, 0.2, 0.3] }],
+          }),
+        },
+      };
+      jest.spyOn(noteService as any, 'getEmbeddingProvider').mockReturnValue(new OpenAIEmbeddingProvider(mockClient as unknown as OpenAI));
+
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [
+            { fieldType: 'checkbox', label: 'Milk bought', content: true, _id: '1' },
+            { fieldType: 'number', label: 'Weight', content: 3, unit: 'kg', _id: '2' },
+            { fieldType: 'select', label: 'Status', options: ['open', 'closed'], content: ['open'], _id: '3' },
+            { fieldType: 'url', label: 'Ticket', content: 'https://tracker.example.com/T-42', _id: '4' },
+            { fieldType: 'signature', label: 'Approval', userName: 'Alex', _id: '5' },
+            { fieldType: 'image', label: 'Receipt', caption: 'grocery receipt', _id: '6' },
+          ],
+        });
+
+      expect(res.status).toBe(201);
+      await processEmbeddingJobs();
+      const input = mockClient.embeddings.create.mock.calls[0][0].input as string;
+      expect(input).toContain('field label: Milk bought field content: checked');
+      expect(input).toContain('field content: 3 kg');
+      expect(input).toContain('field content: open');
+      expect(input).toContain('field content: https://tracker.example.com/T-42');
+      expect(input).toContain('field content: signed by Alex');
+      expect(input).toContain('field content: grocery receipt');
     });
   });
 
@@ -442,9 +528,9 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
         },
       };
       
-      // Mock getClient BEFORE resetting client to ensure mock is in place
-      const getClientSpy1 = jest.spyOn(noteService as any, 'getClient').mockReturnValue(mockClient1);
-      (noteService as any).client = null;
+      // Mock getEmbeddingProvider BEFORE resetting the provider to ensure mock is in place
+      const providerSpy1 = jest.spyOn(noteService as any, 'getEmbeddingProvider').mockReturnValue(new OpenAIEmbeddingProvider(mockClient1 as unknown as OpenAI));
+      (noteService as any).embeddingProvider = undefined;
 
       const res1 = await request(app)
         .get('/api/notes')
@@ -467,7 +553,7 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
       });
 
       // Restore the spy before next test
-      getClientSpy1.mockRestore();
+      providerSpy1.mockRestore();
 
       // Test 2: Empty query embedding (covers len === 0 check in cosineSimilarity)
       // Create a note with vectorData to test the empty query embedding scenario
@@ -488,9 +574,9 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
         },
       };
       
-      // Mock getClient BEFORE resetting client
-      const getClientSpy2 = jest.spyOn(noteService as any, 'getClient').mockReturnValue(mockClient2);
-      (noteService as any).client = null;
+      // Mock getEmbeddingProvider BEFORE resetting the provider
+      const providerSpy2 = jest.spyOn(noteService as any, 'getEmbeddingProvider').mockReturnValue(new OpenAIEmbeddingProvider(mockClient2 as unknown as OpenAI));
+      (noteService as any).embeddingProvider = undefined;
 
       const res2 = await request(app)
         .get('/api/notes')
@@ -511,7 +597,7 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
       });
       
       // Restore the spy
-      getClientSpy2.mockRestore();
+      providerSpy2.mockRestore();
     });
 
     test('500 – find notes handles non-Error thrown value', async () => {
@@ -531,10 +617,10 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
       expect(res.body.error).toBe('Failed to retrieve notes');
     });
 
-    test('500 – workspace findById returns null during getNotes (workspace not found)', async () => {
-      // Mocked behavior: workspaceModel.findById returns null during getNotes
+    test('404 – workspace findById returns null during getNotes (workspace not found)', async () => {
+      // Mocked behavior: workspaceModel.findById returns null when the request is authorized
       // Input: workspaceId and noteType in query params
-      // Expected status code: 500
+      // Expected status code: 404
       // Expected behavior: error message returned
       // Expected output: "Workspace not found"
       const findByIdSpy = jest.spyOn(workspaceModel, 'findById').mockResolvedValueOnce(null as any);
@@ -544,7 +630,7 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
         .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT })
         .set('Authorization', `Bearer ${testData.testUserToken}`);
 
-      expect(res.status).toBe(500);
+      expect(res.status).toBe(404);
       expect(res.body.error).toBe('Workspace not found');
       expect(findByIdSpy).toHaveBeenCalled();
       
@@ -579,13 +665,13 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
       mockEmbedding[10] = 0.2;
       mockEmbedding[60] = 0.4;
       
-      jest.spyOn(noteService as any, 'getClient').mockReturnValue({
+      jest.spyOn(noteService as any, 'getEmbeddingProvider').mockReturnValue(new OpenAIEmbeddingProvider({
         embeddings: {
           create: jest.fn().mockResolvedValue({
             data: [{ embedding: mockEmbedding }],
           }),
         },
-      });
+      } as unknown as OpenAI));
 
       const res = await request(app)
         .get('/api/notes')
@@ -618,13 +704,13 @@ describe('Notes API – Mocked Tests (Jest Mocks)', () => {
 
       const mockEmbeddingWithUndefined = [undefined, 0.2, undefined, 0.4, 0.6];
 
-      jest.spyOn(noteService as any, 'getClient').mockReturnValue({
+      jest.spyOn(noteService as any, 'getEmbeddingProvider').mockReturnValue(new OpenAIEmbeddingProvider({
         embeddings: {
           create: jest.fn().mockResolvedValue({
             data: [{ embedding: mockEmbeddingWithUndefined }],
           }),
         },
-      });
+      } as unknown as OpenAI));
 
       const res = await request(app)
         .get('/api/notes')
@@ -4,9 +4,11 @@ import request from 'supertest';
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import * as fs from 'fs';
 import * as path from 'path';
+import OpenAI from 'openai';
 
 import { NoteType } from '../../notes/notes.types';
 import { noteService } from '../../notes/notes.service';
+import { OpenAIEmbeddingProvider } from '../../embeddings/openai.provider';
 import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
 
 jest.setTimeout(60000);
@@ -130,8 +132,8 @@ describe('Notes API – Search Latency Test (Non-Functional Requirement)', () =>
       },
     };
     
-    // Mock getClient to return our mock client
-    jest.spyOn(noteService as any, 'getClient').mockReturnValue(mockClient);
+    // Mock getEmbeddingProvider to wrap our mock client
+    jest.spyOn(noteService as any, 'getEmbeddingProvider').mockReturnValue(new OpenAIEmbeddingProvider(mockClient as unknown as OpenAI));
     
     // Setup: Create 400 notes in the database
     // Use direct service calls instead of HTTP to avoid memory leaks from 400 supertest agents
@@ -9,6 +9,11 @@ if (!process.env.GOOGLE_CLIENT_ID) {
   process.env.GOOGLE_CLIENT_ID = 'test-google-client-id';
 }
 
+// Embed with the deterministic offline provider unless a test overrides it
+if (!process.env.EMBEDDING_PROVIDER) {
+  process.env.EMBEDDING_PROVIDER = 'local';
+}
+
 // Set FIREBASE_JSON environment variable for all tests
 // NOTE: These are FAKE test values only
 process.env.FIREBASE_JSON = JSON.stringify({
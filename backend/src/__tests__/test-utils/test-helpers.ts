@@ -17,6 +17,9 @@ import '../../workspaces/workspace.routes';
 import '../../users/user.routes';
 import '../../authentication/auth.routes';
 import '../../messages/message.routes';
+import '../../templates/template.routes';
+import '../../savedSearches/savedSearch.routes';
+import '../../admin/admin.routes';
 
 // ---------------------------
 // Express test app bootstrap
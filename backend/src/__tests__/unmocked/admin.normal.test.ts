@@ -0,0 +1,165 @@
+/// <reference types="jest" />
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+import { NoteType } from '../../notes/notes.types';
+import { noteModel } from '../../notes/note.model';
+import { embeddingJobModel } from '../../embeddings/embeddingJob.model';
+import { processEmbeddingJobs } from '../../embeddings/embedding.worker';
+import { embeddingCache } from '../../embeddings/embedding.cache';
+import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
+
+// ---------------------------
+// Test suite
+// ---------------------------
+describe('Admin API – Normal Tests (No Mocking)', () => {
+  let mongo: MongoMemoryServer;
+  let testData: TestData;
+  let app: ReturnType<typeof createTestApp>;
+
+  // Ensure OPENAI_API_KEY is loaded
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is required for tests');
+  }
+
+  // Spin up in-memory Mongo
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    const uri = mongo.getUri();
+    await mongoose.connect(uri);
+    console.log('✅ Connected to in-memory MongoDB');
+
+    // Create app after DB connection
+    app = createTestApp();
+  });
+
+  // Tear down DB
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo.stop({ doCleanup: true, force: true });
+  });
+
+  // Fresh DB state before each test
+  beforeEach(async () => {
+    testData = await setupTestDatabase(app);
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_EMAILS;
+  });
+
+  const createNote = async (title: string) => {
+    const res = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${testData.testUserToken}`)
+      .send({
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        tags: [],
+        fields: [{ fieldType: 'title', content: title, _id: '1' }],
+      });
+    return res.body.data.note._id as string;
+  };
+
+  const reembed = (token: string, body: Record<string, unknown> = {}) =>
+    request(app)
+      .post('/api/admin/reembed')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+  describe('POST /api/admin/reembed - Backfill note vectors', () => {
+    test('202 – queues only notes with missing or outdated vectors', async () => {
+      // Input: one embedded note, one with an OpenAI vector while the local provider is configured
+      // Expected status code: 202
+      // Expected behavior: only the outdated note is queued, the worker gives it a local vector
+      await createNote('Up to date');
+      const outdatedId = await createNote('Outdated');
+      await processEmbeddingJobs();
+      await noteModel.findByIdAndUpdate(outdatedId, {
+        vectorData: Array(512).fill(1),
+        embedding: { provider: 'openai', model: 'text-embedding-3-small', dimension: 512 },
+      });
+
+      const res = await reembed(testData.testUserToken);
+
+      expect(res.status).toBe(202);
+      expect(res.body.data.queued).toBe(1);
+      expect((await noteModel.findById(outdatedId))?.embeddingStatus).toBe('pending');
+      expect(await embeddingJobModel.countDocuments({ noteId: outdatedId })).toBe(1);
+
+      await processEmbeddingJobs();
+      const stored = await noteModel.findById(outdatedId);
+      expect(stored?.embeddingStatus).toBe('ready');
+      expect(stored?.embedding?.provider).toBe('local');
+    });
+
+    test('202 – force queues every note of the workspace', async () => {
+      // Input: workspaceId with force=true, all notes already embedded
+      // Expected status code: 202
+      // Expected output: every note queued
+      await createNote('First');
+      await createNote('Second');
+      await processEmbeddingJobs();
+
+      const res = await reembed(testData.testUserToken, { workspaceId: testData.testWorkspaceId, force: true });
+
+      expect(res.status).toBe(202);
+      expect(res.body.data.queued).toBe(2);
+    });
+
+    test('403 – only the workspace owner can re-embed its notes', async () => {
+      // Input: workspaceId owned by user 1, token of user 2
+      // Expected status code: 403
+      const res = await reembed(testData.testUser2Token, { workspaceId: testData.testWorkspaceId });
+
+      expect(res.status).toBe(403);
+    });
+
+    test('400 – rejects unknown body fields', async () => {
+      // Input: body with an unexpected field
+      // Expected status code: 400
+      const res = await reembed(testData.testUserToken, { everything: true });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/admin/embedding-cache - Embedding cache statistics', () => {
+    test('200 – re-embedding unchanged content is served from the cache', async () => {
+      // Input: a note embedded, then forced through the queue again
+      // Expected status code: 200
+      // Expected output: one more hit after the second round, no extra entry
+      process.env.ADMIN_EMAILS = 'testuser1@example.com';
+      await createNote('Cached content');
+      await processEmbeddingJobs();
+      const before = embeddingCache.getStats();
+
+      await reembed(testData.testUserToken, { force: true });
+      await processEmbeddingJobs();
+
+      const res = await request(app)
+        .get('/api/admin/embedding-cache')
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.cache.hits).toBe(before.hits + 1);
+      expect(res.body.data.cache.size).toBe(before.size);
+      expect(res.body.data.cache.maxEntries).toBeGreaterThan(0);
+    });
+
+    test('403 – users who are not operators cannot read the statistics', async () => {
+      // Input: token of a user whose email ADMIN_EMAILS does not list
+      // Expected status code: 403
+      process.env.ADMIN_EMAILS = 'testuser1@example.com';
+
+      const res = await request(app)
+        .get('/api/admin/embedding-cache')
+        .set('Authorization', `Bearer ${testData.testUser2Token}`);
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Access denied: Only operators can do this');
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/// <reference types="jest" />
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+import { NoteType } from '../../notes/notes.types';
+import { messageModel } from '../../messages/message.model';
+import { workspaceModel } from '../../workspaces/workspace.model';
+import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
+
+type Role = 'outsider' | 'banned' | 'viewer' | 'commenter' | 'editor' | 'admin' | 'owner';
+
+const ROLES: Role[] = ['outsider', 'banned', 'viewer', 'commenter', 'editor', 'admin', 'owner'];
+
+interface Fixture {
+  workspaceId: string;
+  noteId: string;
+  messageId: string;
+  outsiderId: string;
+}
+
+interface RouteCase {
+  name: string;
+  allowed: Role[];
+  denied: string; // Why members whose role is not allowed are turned away
+  send: (agent: request.Agent, fixture: Fixture) => request.Test;
+}
+
+const VIEW: Role[] = ['viewer', 'commenter', 'editor', 'admin', 'owner'];
+const COMMENT: Role[] = ['commenter', 'editor', 'admin', 'owner'];
+const EDIT: Role[] = ['editor', 'admin', 'owner'];
+const MODERATE: Role[] = ['admin', 'owner'];
+const MANAGE: Role[] = ['owner'];
+
+const OWNER_ONLY = 'Access denied: Only workspace owner can do this';
+
+const title = (content: string) => [{ fieldType: 'title', content, _id: '1' }];
+
+// Every route names the workspace differently: by id, through a note, a message, the query or the body
+const routes: RouteCase[] = [
+  { name: 'GET /notes/:id', allowed: VIEW, denied: '', send: (agent, f) => agent.get(`/api/notes/${f.noteId}`) },
+  {
+    name: 'PUT /notes/:id',
+    allowed: EDIT,
+    denied: 'Access denied: The commenter role cannot edit notes',
+    send: (agent, f) => agent.put(`/api/notes/${f.noteId}`).send({ tags: [], fields: title('Edited') }),
+  },
+  {
+    name: 'GET /notes/:id/workspaces',
+    allowed: VIEW,
+    denied: '',
+    send: (agent, f) => agent.get(`/api/notes/${f.noteId}/workspaces`),
+  },
+  {
+    name: 'GET /notes/:id/revisions',
+    allowed: VIEW,
+    denied: '',
+    send: (agent, f) => agent.get(`/api/notes/${f.noteId}/revisions`),
+  },
+  {
+    name: 'GET /notes',
+    allowed: VIEW,
+    denied: '',
+    send: (agent, f) => agent.get('/api/notes').query({ workspaceId: f.workspaceId, noteType: NoteType.CONTENT }),
+  },
+  {
+    name: 'POST /notes',
+    allowed: EDIT,
+    denied: 'Access denied: The commenter role cannot edit notes',
+    send: (agent, f) =>
+      agent.post('/api/notes').send({ workspaceId: f.workspaceId, noteType: NoteType.CONTENT, tags: [], fields: title('New') }),
+  },
+  {
+    name: 'POST /notes (template)',
+    allowed: MODERATE,
+    denied: 'Access denied: The editor role cannot manage templates',
+    send: (agent, f) =>
+      agent.post('/api/notes').send({ workspaceId: f.workspaceId, noteType: NoteType.TEMPLATE, tags: [], fields: title('Form') }),
+  },
+  {
+    name: 'GET /messages/workspace/:id',
+    allowed: VIEW,
+    denied: '',
+    send: (agent, f) => agent.get(`/api/messages/workspace/${f.workspaceId}`),
+  },
+  {
+    name: 'POST /messages/workspace/:id',
+    allowed: COMMENT,
+    denied: 'Access denied: The viewer role cannot post messages',
+    send: (agent, f) => agent.post(`/api/messages/workspace/${f.workspaceId}`).send({ content: 'Hello' }),
+  },
+  {
+    name: 'DELETE /messages/:id',
+    allowed: MODERATE,
+    denied: 'Access denied: The editor role cannot delete messages',
+    send: (agent, f) => agent.delete(`/api/messages/${f.messageId}`),
+  },
+  { name: 'GET /workspace/:id', allowed: VIEW, denied: '', send: (agent, f) => agent.get(`/api/workspace/${f.workspaceId}`) },
+  {
+    name: 'GET /workspace/:id/members',
+    allowed: VIEW,
+    denied: '',
+    send: (agent, f) => agent.get(`/api/workspace/${f.workspaceId}/members`),
+  },
+  {
+    name: 'GET /workspace/:id/poll',
+    allowed: VIEW,
+    denied: '',
+    send: (agent, f) => agent.get(`/api/workspace/${f.workspaceId}/poll`),
+  },
+  {
+    name: 'POST /workspace/:id/members',
+    allowed: MODERATE,
+    denied: 'Access denied: The editor role cannot invite members',
+    send: (agent, f) => agent.post(`/api/workspace/${f.workspaceId}/members`).send({ userId: f.outsiderId }),
+  },
+  {
+    name: 'PUT /workspace/:id',
+    allowed: MANAGE,
+    denied: OWNER_ONLY,
+    send: (agent, f) => agent.put(`/api/workspace/${f.workspaceId}`).send({ description: 'Changed' }),
+  },
+];
+
+// The most capable member role a route turns away, the one whose denial the route case spells out
+const deniedRole = (allowed: Role[]): Role | undefined =>
+  [...ROLES].reverse().find(role => role !== 'outsider' && role !== 'banned' && !allowed.includes(role));
+
+// ---------------------------
+// Test suite
+// ---------------------------
+describe('Authorization – Normal Tests (No Mocking)', () => {
+  let mongo: MongoMemoryServer;
+  let testData: TestData;
+  let app: ReturnType<typeof createTestApp>;
+  let fixture: Fixture;
+  let tokens: Record<Role, string>;
+
+  // Ensure OPENAI_API_KEY is loaded
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is required for tests');
+  }
+
+  // Spin up in-memory Mongo
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    const uri = mongo.getUri();
+    await mongoose.connect(uri);
+    console.log('✅ Connected to in-memory MongoDB');
+
+    // Create app after DB connection
+    app = createTestApp();
+  });
+
+  // Tear down DB
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo.stop({ doCleanup: true, force: true });
+  });
+
+  const login = async (email: string) => {
+    const res = await request(app).post('/api/auth/dev-login').send({ email });
+    return { token: res.body.data.token as string, userId: res.body.data.user._id as string };
+  };
+
+  // Fresh DB with one user per role around the first test workspace, holding a note and a message
+  beforeEach(async () => {
+    testData = await setupTestDatabase(app);
+    const banned = await login('banned@example.com');
+    const outsider = await login('outsider@example.com');
+    const viewer = await login('viewer@example.com');
+    const commenter = await login('commenter@example.com');
+    const admin = await login('admin@example.com');
+
+    // The second test user stays an editor, the role members get when none is stored
+    await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+      $push: {
+        members: {
+          $each: [testData.testUser2Id, viewer.userId, commenter.userId, admin.userId].map(
+            id => new mongoose.Types.ObjectId(id)
+          ),
+        },
+        bannedMembers: new mongoose.Types.ObjectId(banned.userId),
+      },
+      $set: {
+        [`roles.${viewer.userId}`]: 'viewer',
+        [`roles.${commenter.userId}`]: 'commenter',
+        [`roles.${admin.userId}`]: 'admin',
+      },
+    });
+
+    const note = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${testData.testUserToken}`)
+      .send({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, tags: [], fields: title('Shared') });
+    const message = await messageModel.create({
+      workspaceId: new mongoose.Types.ObjectId(testData.testWorkspaceId),
+      authorId: new mongoose.Types.ObjectId(testData.testUser2Id),
+      content: 'First',
+    });
+
+    fixture = {
+      workspaceId: testData.testWorkspaceId,
+      noteId: note.body.data.note._id,
+      messageId: message._id.toString(),
+      outsiderId: outsider.userId,
+    };
+    tokens = {
+      outsider: outsider.token,
+      banned: banned.token,
+      viewer: viewer.token,
+      commenter: commenter.token,
+      editor: testData.testUser2Token,
+      admin: admin.token,
+      owner: testData.testUserToken,
+    };
+  });
+
+  describe.each(routes)('$name', ({ allowed, denied, send }) => {
+    test.each<Role>(ROLES)('%s', async role => {
+      // Input: the route called by a user of the given role
+      // Expected status code: 403 for roles the route does not allow, otherwise whatever the route answers
+      // Expected output: the reason of the denial
+      const agent = request.agent(app).set('Authorization', `Bearer ${tokens[role]}`);
+      const res = await send(agent, fixture);
+
+      if (allowed.includes(role)) {
+        expect(res.status).toBeLessThan(400);
+      } else {
+        expect(res.status).toBe(403);
+        if (role === 'banned') {
+          expect(res.body.error).toBe('Access denied: You are banned from this workspace');
+        } else if (role === 'outsider') {
+          expect(res.body.error).toBe('Access denied: You are not a member of this workspace');
+        } else if (role === deniedRole(allowed)) {
+          expect(res.body.error).toBe(denied);
+        } else {
+          expect(res.body.error).toMatch(/^Access denied: /);
+        }
+      }
+    });
+  });
+
+  test('404 – notes, messages and workspaces that do not exist', async () => {
+    // Input: unknown and malformed ids
+    // Expected status code: 404 before any access check
+    const unknownId = new mongoose.Types.ObjectId().toString();
+    const agent = request.agent(app).set('Authorization', `Bearer ${testData.testUserToken}`);
+
+    expect((await agent.get(`/api/notes/${unknownId}`)).body.error).toBe('Note not found');
+    expect((await agent.get('/api/notes/not-an-id')).status).toBe(404);
+    expect((await agent.delete(`/api/messages/${unknownId}`)).body.error).toBe('Message not found');
+    expect((await agent.get(`/api/workspace/${unknownId}/members`)).status).toBe(404);
+  });
+
+  test('403 – notes cannot be created in a workspace of someone else', async () => {
+    // Input: a note sent to a workspace the user does not belong to
+    // Expected status code: 403
+    // Expected behavior: no note is stored there
+    const res = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${testData.testUserToken}`)
+      .send({ workspaceId: testData.testWorkspace2Id, noteType: NoteType.CONTENT, tags: [], fields: title('Intruder') });
+
+    expect(res.status).toBe(403);
+    expect(await mongoose.connection.collection('notes').countDocuments({ workspaceId: testData.testWorkspace2Id })).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+/// <reference types="jest" />
+import mongoose from 'mongoose';
+
+import {
+  WorkspaceAction,
+  assertAllowed,
+  getMembership,
+  getMembershipStatus,
+  getNoteEditActions,
+  isAllowed,
+} from '../../authorization/authorization.policy';
+import { NoteType } from '../../notes/notes.types';
+import { WorkspaceRole, WsMembershipStatus } from '../../workspaces/workspace.types';
+
+const ownerId = new mongoose.Types.ObjectId();
+const memberId = new mongoose.Types.ObjectId();
+const viewerId = new mongoose.Types.ObjectId();
+const bannedId = new mongoose.Types.ObjectId();
+const outsiderId = new mongoose.Types.ObjectId();
+
+// A banned user still listed in members, as a ban racing a join could leave them
+const workspace = {
+  ownerId,
+  members: [ownerId, memberId, viewerId, bannedId],
+  bannedMembers: [bannedId],
+  roles: new Map([
+    [viewerId.toString(), WorkspaceRole.VIEWER],
+    [bannedId.toString(), WorkspaceRole.ADMIN],
+  ]),
+};
+
+describe('Authorization policy – Workspace roles', () => {
+  test('resolves the membership status of every kind of user', () => {
+    // Input: owner, member, banned member and outsider, as ObjectIds and as strings
+    // Expected output: the status of each, a ban outweighing the members entry
+    expect(getMembershipStatus(workspace, ownerId)).toBe(WsMembershipStatus.OWNER);
+    expect(getMembershipStatus(workspace, memberId.toString())).toBe(WsMembershipStatus.MEMBER);
+    expect(getMembershipStatus(workspace, bannedId)).toBe(WsMembershipStatus.BANNED);
+    expect(getMembershipStatus(workspace, outsiderId)).toBe(WsMembershipStatus.NOT_MEMBER);
+  });
+
+  test('reports the role along with the status', () => {
+    // Input: the same users, one member with a stored role and one without
+    // Expected output: members without a stored role are editors, banned users and outsiders have none
+    expect(getMembership(workspace, ownerId)).toEqual({ status: WsMembershipStatus.OWNER, role: WorkspaceRole.OWNER });
+    expect(getMembership(workspace, memberId)).toEqual({ status: WsMembershipStatus.MEMBER, role: WorkspaceRole.EDITOR });
+    expect(getMembership(workspace, viewerId)).toEqual({ status: WsMembershipStatus.MEMBER, role: WorkspaceRole.VIEWER });
+    expect(getMembership(workspace, bannedId)).toEqual({ status: WsMembershipStatus.BANNED, role: null });
+    expect(getMembership(workspace, outsiderId)).toEqual({ status: WsMembershipStatus.NOT_MEMBER, role: null });
+  });
+
+  test.each<[WorkspaceRole | null, WorkspaceAction, boolean]>([
+    [WorkspaceRole.OWNER, 'manage', true],
+    [WorkspaceRole.OWNER, 'deleteMessages', true],
+    [WorkspaceRole.ADMIN, 'manage', false],
+    [WorkspaceRole.ADMIN, 'invite', true],
+    [WorkspaceRole.ADMIN, 'deleteMessages', true],
+    [WorkspaceRole.ADMIN, 'manageTemplates', true],
+    [WorkspaceRole.EDITOR, 'invite', false],
+    [WorkspaceRole.EDITOR, 'manageTemplates', false],
+    [WorkspaceRole.EDITOR, 'editOthers', true],
+    [WorkspaceRole.EDITOR, 'edit', true],
+    [WorkspaceRole.COMMENTER, 'edit', false],
+    [WorkspaceRole.COMMENTER, 'comment', true],
+    [WorkspaceRole.VIEWER, 'comment', false],
+    [WorkspaceRole.VIEWER, 'view', true],
+    [null, 'view', false],
+  ])('%s may %s: %s', (role, action, allowed) => {
+    expect(isAllowed(role, action)).toBe(allowed);
+  });
+
+  test('editing templates and notes of others asks for more than editing', () => {
+    // Input: notes of the user and of someone else, plain and templates
+    // Expected output: the actions the role must allow
+    expect(getNoteEditActions({ userId: memberId, noteType: NoteType.CONTENT }, memberId)).toEqual(['edit']);
+    expect(getNoteEditActions({ userId: ownerId, noteType: NoteType.TEMPLATE }, memberId)).toEqual([
+      'edit',
+      'manageTemplates',
+      'editOthers',
+    ]);
+  });
+
+  test('denials say why', () => {
+    // Input: users the policy turns away
+    // Expected output: an 'Access denied' error naming the reason
+    expect(() => assertAllowed(workspace, memberId, 'manage')).toThrow('Access denied: Only workspace owner can do this');
+    expect(() => assertAllowed(workspace, memberId, 'edit', 'manageTemplates')).toThrow(
+      'Access denied: The editor role cannot manage templates'
+    );
+    expect(() => assertAllowed(workspace, viewerId, 'comment')).toThrow('Access denied: The viewer role cannot post messages');
+    expect(() => assertAllowed(workspace, bannedId, 'view')).toThrow('Access denied: You are banned from this workspace');
+    expect(() => assertAllowed(workspace, outsiderId, 'view')).toThrow(
+      'Access denied: You are not a member of this workspace'
+    );
+    expect(assertAllowed(workspace, ownerId, 'manage')).toEqual({
+      status: WsMembershipStatus.OWNER,
+      role: WorkspaceRole.OWNER,
+    });
+  });
+});
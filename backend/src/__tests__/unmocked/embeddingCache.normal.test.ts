@@ -0,0 +1,108 @@
+/// <reference types="jest" />
+import { CachedEmbeddingProvider, EmbeddingCache, normalizeEmbeddingInput } from '../../embeddings/embedding.cache';
+import { EmbeddingProvider } from '../../embeddings/embedding.types';
+
+// Provider that counts its calls and returns the input length as a one-dimensional vector
+const makeProvider = (model = 'test-model') => {
+  const calls: string[] = [];
+  const provider: EmbeddingProvider = {
+    name: 'local',
+    model,
+    dimension: 1,
+    embed: async (text: string) => {
+      calls.push(text);
+      return [text.length];
+    },
+    embedMany: async (texts: string[]) => {
+      calls.push(...texts);
+      return texts.map(text => [text.length]);
+    },
+  };
+  return { provider, calls };
+};
+
+describe('EmbeddingCache – Cached embedding lookups', () => {
+  test('normalizes Unicode composition and whitespace', () => {
+    // Input: the same text with a decomposed accent and extra whitespace
+    // Expected output: identical normalized inputs and cache keys
+    expect(normalizeEmbeddingInput('  cafe\u0301\n\n menu ')).toBe('caf\u00e9 menu');
+    expect(EmbeddingCache.getKey({ name: 'local', model: 'm' }, 'caf\u00e9 menu'))
+      .toBe(EmbeddingCache.getKey({ name: 'local', model: 'm' }, ' cafe\u0301   menu'));
+  });
+
+  test('keys include the provider and model', () => {
+    // Input: the same text for two models
+    // Expected output: different keys, so vectors of different models never mix
+    expect(EmbeddingCache.getKey({ name: 'local', model: 'a' }, 'text'))
+      .not.toBe(EmbeddingCache.getKey({ name: 'local', model: 'b' }, 'text'));
+  });
+
+  test('repeated inputs skip the provider and count as hits', async () => {
+    // Input: the same text embedded twice, then another text
+    // Expected behavior: two provider calls, one hit and two misses
+    const { provider, calls } = makeProvider();
+    const cache = new EmbeddingCache();
+    const cached = new CachedEmbeddingProvider(provider, cache);
+
+    expect(await cached.embed('grocery list')).toEqual([12]);
+    expect(await cached.embed('grocery  list ')).toEqual([12]);
+    await cached.embed('invoice');
+
+    expect(calls).toEqual(['grocery list', 'invoice']);
+    expect(cache.getStats()).toMatchObject({ size: 2, hits: 1, misses: 2, evictions: 0 });
+    expect(cache.getStats().hitRate).toBeCloseTo(1 / 3);
+  });
+
+  test('batches send only the misses, in one provider call', async () => {
+    // Input: a batch of three texts, one of them embedded before
+    // Expected behavior: the other two reach the provider together, vectors come back in order
+    const { provider, calls } = makeProvider();
+    const embedMany = jest.spyOn(provider, 'embedMany');
+    const cached = new CachedEmbeddingProvider(provider, new EmbeddingCache());
+    await cached.embed('todo');
+    calls.length = 0;
+
+    expect(await cached.embedMany(['work', 'todo', 'groceries'])).toEqual([[4], [4], [9]]);
+    expect(calls).toEqual(['work', 'groceries']);
+    expect(embedMany).toHaveBeenCalledTimes(1);
+  });
+
+  test('evicts the least recently used entry once full', () => {
+    // Input: a cache of two entries, `a` read before `c` is added
+    // Expected behavior: `b` makes room, `a` stays
+    const cache = new EmbeddingCache(2);
+    cache.set('a', [1]);
+    cache.set('b', [2]);
+    cache.get('a');
+    cache.set('c', [3]);
+
+    expect(cache.get('a')).toEqual([1]);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  test('entries expire after the TTL', () => {
+    // Input: an entry read before and after its TTL
+    // Expected behavior: a hit first, then a miss and an eviction
+    let now = 1000;
+    const cache = new EmbeddingCache(10, 500, () => now);
+    cache.set('a', [1]);
+
+    now = 1499;
+    expect(cache.get('a')).toEqual([1]);
+    now = 1500;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ size: 0, hits: 1, misses: 1, evictions: 1 });
+  });
+
+  test('returned vectors cannot change the cached ones', () => {
+    // Input: a vector modified by the caller after the lookup
+    // Expected output: the cache still returns the stored values
+    const cache = new EmbeddingCache();
+    cache.set('a', [1, 2]);
+    const vector = cache.get('a') as number[];
+    vector[0] = 99;
+
+    expect(cache.get('a')).toEqual([1, 2]);
+  });
+});
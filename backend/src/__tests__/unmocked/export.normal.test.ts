@@ -0,0 +1,177 @@
+/// <reference types="jest" />
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+import { NoteType } from '../../notes/notes.types';
+import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
+
+// ---------------------------
+// Test suite
+// ---------------------------
+describe('Export – Normal Tests (No Mocking)', () => {
+  let mongo: MongoMemoryServer;
+  let testData: TestData;
+  let app: ReturnType<typeof createTestApp>;
+  let noteId: string;
+
+  // Ensure OPENAI_API_KEY is loaded
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is required for tests');
+  }
+
+  // Spin up in-memory Mongo
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    const uri = mongo.getUri();
+    await mongoose.connect(uri);
+    console.log('✅ Connected to in-memory MongoDB');
+
+    // Create app after DB connection
+    app = createTestApp();
+  });
+
+  // Tear down DB
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo.stop({ doCleanup: true, force: true });
+  });
+
+  // Fresh DB state and two notes before each test
+  beforeEach(async () => {
+    testData = await setupTestDatabase(app);
+
+    const create = async (title: string, tags: string[]) => {
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags,
+          fields: [
+            { fieldType: 'title', label: 'Title', content: title, _id: '1' },
+            { fieldType: 'datetime', label: 'Due', content: '2025-02-12T18:00', _id: '2' },
+          ],
+        });
+      return res.body.data.note._id as string;
+    };
+
+    noteId = await create('Weekly sync', ['work']);
+    await create('Groceries', ['home']);
+  });
+
+  describe('GET /api/notes/:id/export - Export Note', () => {
+    test('200 – Markdown download of a note', async () => {
+      // Input: noteId, format=markdown
+      // Expected status code: 200
+      // Expected output: Markdown attachment with the title as heading and the formatted datetime
+      const res = await request(app)
+        .get(`/api/notes/${noteId}/export`)
+        .query({ format: 'markdown' })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toMatch(/^text\/markdown/);
+      expect(res.headers['content-disposition']).toBe(`attachment; filename="note-${noteId}.md"`);
+      expect(res.text).toContain('# Weekly sync');
+      expect(res.text).toContain('**Due:** 2025-02-12 18:00');
+    });
+
+    test('200 – JSON archive by default, without vectors', async () => {
+      // Input: noteId without format
+      // Expected status code: 200
+      // Expected output: archive holding the note, no vectorData
+      const res = await request(app)
+        .get(`/api/notes/${noteId}/export`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.format).toBe('notes-archive');
+      expect(res.body.notes).toHaveLength(1);
+      expect(res.body.notes[0]._id).toBe(noteId);
+      expect(res.body.notes[0].vectorData).toBeUndefined();
+      expect(res.body.workspace).toBeUndefined();
+    });
+
+    test('400 – rejects an unknown format', async () => {
+      // Input: format=pdf
+      // Expected status code: 400
+      const res = await request(app)
+        .get(`/api/notes/${noteId}/export`)
+        .query({ format: 'pdf' })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('format must be markdown, json or csv');
+    });
+
+    test('403 – non-members cannot export a note', async () => {
+      // Input: token of a user outside the workspace
+      // Expected status code: 403
+      const res = await request(app)
+        .get(`/api/notes/${noteId}/export`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/notes/export - Export Filtered Notes', () => {
+    test('200 – CSV of the notes matching the filters', async () => {
+      // Input: workspaceId, noteType, tags=work, format=csv
+      // Expected status code: 200
+      // Expected output: header with the field labels and one row for the matching note
+      const res = await request(app)
+        .get('/api/notes/export')
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, tags: 'work', format: 'csv' })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toMatch(/^text\/csv/);
+      const lines = res.text.trimEnd().split('\r\n');
+      expect(lines[0]).toBe('_id,noteType,tags,templateId,createdAt,updatedAt,Title,Due');
+      expect(lines).toHaveLength(2);
+      expect(lines[1]).toContain('Weekly sync,2025-02-12 18:00');
+    });
+
+    test('400 – the filters are validated like GET /notes', async () => {
+      // Input: no workspaceId
+      // Expected status code: 400
+      const res = await request(app)
+        .get('/api/notes/export')
+        .query({ noteType: NoteType.CONTENT, format: 'csv' })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('workspaceId is required');
+    });
+  });
+
+  describe('GET /api/workspace/:id/export - Export Workspace', () => {
+    test('200 – Markdown of every note in the workspace', async () => {
+      // Input: workspaceId, format=markdown
+      // Expected status code: 200
+      // Expected output: both notes, oldest first
+      const res = await request(app)
+        .get(`/api/workspace/${testData.testWorkspaceId}/export`)
+        .query({ format: 'markdown' })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.text.indexOf('# Weekly sync')).toBeLessThan(res.text.indexOf('# Groceries'));
+      expect(res.text.split('\n---\n')).toHaveLength(2);
+    });
+
+    test('403 – non-members cannot export a workspace', async () => {
+      // Input: token of a user outside the workspace
+      // Expected status code: 403
+      const res = await request(app)
+        .get(`/api/workspace/${testData.testWorkspaceId}/export`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`);
+
+      expect(res.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/// <reference types="jest" />
+import { NoteType } from '../../notes/notes.types';
+import { ExportedNote } from '../../export/export.types';
+import { formatDateTime, renderCsv, renderMarkdown, renderNoteMarkdown } from '../../export/export.render';
+
+const createdAt = new Date('2025-02-01T10:00:00Z');
+
+const makeNote = (overrides: Partial<ExportedNote>): ExportedNote => ({
+  _id: 'note1',
+  userId: 'user1',
+  workspaceId: 'workspace1',
+  noteType: NoteType.CONTENT,
+  tags: [],
+  fields: [],
+  version: 1,
+  revision: 1,
+  createdAt,
+  updatedAt: createdAt,
+  ...overrides,
+});
+
+describe('Export rendering – Markdown and CSV', () => {
+  test('datetimes are formatted, values with an offset in UTC', () => {
+    // Input: zone-less and offset datetimes
+    // Expected output: "YYYY-MM-DD HH:mm", suffixed with UTC when an offset was given
+    expect(formatDateTime('2025-02-12T18:00')).toBe('2025-02-12 18:00');
+    expect(formatDateTime('2025-02-12T18:00:00+02:00')).toBe('2025-02-12 16:00 UTC');
+  });
+
+  test('Markdown renders the title as heading, text boxes as paragraphs and labelled fields', () => {
+    // Input: note with a title, tags, a text box, a datetime and a checkbox
+    // Expected output: metadata comment, heading, tags, paragraph and labelled lines in order
+    const markdown = renderNoteMarkdown(makeNote({
+      tags: ['work'],
+      fields: [
+        { _id: '1', fieldType: 'title', content: 'Weekly sync' },
+        { _id: '2', fieldType: 'textbox', content: 'First paragraph\n\nSecond paragraph' },
+        { _id: '3', fieldType: 'datetime', label: 'Due', content: '2025-02-12T18:00' },
+        { _id: '4', fieldType: 'checkbox', label: 'Done', content: true },
+      ],
+    }));
+
+    const blocks = markdown.trimEnd().split('\n\n');
+    expect(blocks[0]).toMatch(/^<!-- note \{.*"noteType":"CONTENT".*"tags":\["work"\].*\} -->$/);
+    expect(blocks.slice(1)).toEqual([
+      '# Weekly sync',
+      'Tags: `work`',
+      'First paragraph',
+      'Second paragraph',
+      '**Due:** 2025-02-12 18:00',
+      '- [x] Done',
+    ]);
+  });
+
+  test('Markdown separates notes with a rule', () => {
+    // Input: two notes
+    // Expected output: both rendered, separated by ---
+    const markdown = renderMarkdown([
+      makeNote({ fields: [{ _id: '1', fieldType: 'title', content: 'One' }] }),
+      makeNote({ _id: 'note2', fields: [{ _id: '1', fieldType: 'title', content: 'Two' }] }),
+    ]);
+
+    expect(markdown.split('\n---\n')).toHaveLength(2);
+    expect(markdown).toContain('# One');
+    expect(markdown).toContain('# Two');
+  });
+
+  test('CSV has one column per field label and escapes values', () => {
+    // Input: two notes of one template and a third without the "Amount" field
+    // Expected output: shared columns line up, missing values stay empty, quotes and formulas are escaped
+    const template = (title: string, amount: number) => [
+      { _id: '1', fieldType: 'title' as const, label: 'Name', content: title },
+      { _id: '2', fieldType: 'number' as const, label: 'Amount', content: amount, unit: 'kg' },
+    ];
+    const csv = renderCsv([
+      makeNote({ templateId: 't1', tags: ['a', 'b'], fields: template('Apples, red', 3) }),
+      makeNote({ _id: 'note2', templateId: 't1', fields: template('Say "hi"', 4) }),
+      makeNote({ _id: 'note3', fields: [{ _id: '1', fieldType: 'title', label: 'Name', content: '=SUM(A1)' }] }),
+    ]);
+
+    const lines = csv.trimEnd().split('\r\n');
+    expect(lines[0]).toBe('_id,noteType,tags,templateId,createdAt,updatedAt,Name,Amount');
+    expect(lines[1]).toBe(`note1,CONTENT,a; b,t1,${createdAt.toISOString()},${createdAt.toISOString()},"Apples, red",3 kg`);
+    expect(lines[2]).toContain(',"Say ""hi""",4 kg');
+    expect(lines[3]).toMatch(/,'=SUM\(A1\),$/);
+  });
+});
@@ -0,0 +1,83 @@
+/// <reference types="jest" />
+import { HnswIndex } from '../../search/hnsw.index';
+
+// Deterministic pseudo-random vectors so the expectations never flake
+const makeVectors = (count: number, dimension: number): number[][] => {
+  let seed = 7;
+  const next = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+};
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+};
+
+describe('HnswIndex – Approximate nearest neighbour search', () => {
+  const dimension = 32;
+  const vectors = makeVectors(1000, dimension);
+  const index = new HnswIndex(dimension);
+  vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+  test('finds nearly the same neighbours as a full scan', () => {
+    // Input: 20 queries against 1000 indexed vectors, k = 10
+    // Expected behavior: recall against brute force stays above 90%
+    const queries = makeVectors(1020, dimension).slice(1000);
+    let found = 0;
+    for (const query of queries) {
+      const exact = vectors
+        .map((vector, i) => ({ id: `v${i}`, score: cosine(query, vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10)
+        .map(hit => hit.id);
+      const approximate = index.search(query, 10).map(hit => hit.id);
+      found += approximate.filter(id => exact.includes(id)).length;
+    }
+
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  test('returns the exact vector first with its cosine similarity', () => {
+    // Input: an indexed vector used as the query
+    // Expected output: that vector ranks first with a score of ~1
+    const [hit] = index.search(vectors[42], 1);
+
+    expect(hit.id).toBe('v42');
+    expect(hit.score).toBeCloseTo(1, 5);
+  });
+
+  test('skips removed and filtered vectors', () => {
+    // Input: remove one vector, filter out another
+    // Expected behavior: neither appears in the results
+    const local = new HnswIndex(dimension);
+    vectors.slice(0, 100).forEach((vector, i) => local.add(`v${i}`, vector));
+    local.remove('v1');
+
+    const hits = local.search(vectors[1], 100, id => id !== 'v2');
+    const ids = hits.map(hit => hit.id);
+
+    expect(local.has('v1')).toBe(false);
+    expect(ids).not.toContain('v1');
+    expect(ids).not.toContain('v2');
+    expect(ids).toHaveLength(98);
+  });
+
+  test('ignores vectors of the wrong dimension', () => {
+    // Input: a vector one component short
+    // Expected output: add reports false and the index size is unchanged
+    const local = new HnswIndex(dimension);
+
+    expect(local.add('short', vectors[0].slice(1))).toBe(false);
+    expect(local.size).toBe(0);
+  });
+});
@@ -0,0 +1,180 @@
+/// <reference types="jest" />
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+import { NoteType } from '../../notes/notes.types';
+import { noteModel } from '../../notes/note.model';
+import { tagModel } from '../../tags/tag.model';
+import { processEmbeddingJobs } from '../../embeddings/embedding.worker';
+import { MAX_IMPORT_FILE_SIZE } from '../../utils/constants';
+import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
+
+// ---------------------------
+// Test suite
+// ---------------------------
+describe('Import – Normal Tests (No Mocking)', () => {
+  let mongo: MongoMemoryServer;
+  let testData: TestData;
+  let app: ReturnType<typeof createTestApp>;
+
+  // Ensure OPENAI_API_KEY is loaded
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is required for tests');
+  }
+
+  // Spin up in-memory Mongo
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    const uri = mongo.getUri();
+    await mongoose.connect(uri);
+    console.log('✅ Connected to in-memory MongoDB');
+
+    // Create app after DB connection
+    app = createTestApp();
+  });
+
+  // Tear down DB
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo.stop({ doCleanup: true, force: true });
+  });
+
+  // Fresh DB state before each test
+  beforeEach(async () => {
+    testData = await setupTestDatabase(app);
+  });
+
+  describe('POST /api/notes/import - Import Notes', () => {
+    test('200 – CSV rows become notes, invalid rows are reported', async () => {
+      // Input: CSV with a mapping, one row holding an invalid URL
+      // Expected status code: 200
+      // Expected output: per-row report; valid rows created pending their vector, tags counted
+      const res = await request(app)
+        .post('/api/notes/import')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .query({ workspaceId: testData.testWorkspaceId })
+        .field('tags', 'imported')
+        .field('mapping', JSON.stringify({ Name: { fieldType: 'title' }, Link: { fieldType: 'url' }, Labels: 'tags' }))
+        .attach('files', Buffer.from('Name,Link,Labels\nDocs,https://example.com,work\nBroken,not a url,\n'), 'links.csv');
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Imported 1 of 2 notes');
+      expect(res.body.data.created).toBe(1);
+      expect(res.body.data.failed).toBe(1);
+      expect(res.body.data.rows[0]).toEqual({
+        row: 1,
+        source: 'links.csv row 2',
+        status: 'created',
+        noteId: expect.any(String),
+      });
+      expect(res.body.data.rows[1]).toMatchObject({ row: 2, source: 'links.csv row 3', status: 'failed' });
+      expect(res.body.data.rows[1].error).toMatch(/^fields\.1\.content/);
+
+      const note = await noteModel.findById(res.body.data.rows[0].noteId);
+      expect(note?.tags).toEqual(['work', 'imported']);
+      expect(note?.noteType).toBe(NoteType.CONTENT);
+      expect(note?.embeddingStatus).toBe('pending');
+      expect((await tagModel.findOne({ workspaceId: testData.testWorkspaceId, name: 'imported' }))?.noteCount).toBe(1);
+
+      await processEmbeddingJobs();
+      expect((await noteModel.findById(note?._id))?.embeddingStatus).toBe('ready');
+    });
+
+    test('200 – Markdown files and JSON archives in one upload', async () => {
+      // Input: a Markdown file without markers and a JSON archive of two notes, one of an unknown type
+      // Expected status code: 200
+      // Expected output: rows in upload order, the unknown type reported
+      const archive = {
+        format: 'notes-archive',
+        version: 1,
+        notes: [
+          { noteType: NoteType.TEMPLATE, tags: [], fields: [{ _id: '1', fieldType: 'title', content: 'Form' }] },
+          { noteType: 'DIARY', tags: [], fields: [] },
+        ],
+      };
+
+      const res = await request(app)
+        .post('/api/notes/import')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .query({ workspaceId: testData.testWorkspaceId })
+        .attach('files', Buffer.from('# Standup\n\nAll good.\n'), 'standup.md')
+        .attach('files', Buffer.from(JSON.stringify(archive)), 'archive.json');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.rows.map((row: { source: string; status: string }) => [row.source, row.status])).toEqual([
+        ['standup.md', 'created'],
+        ['archive.json note 1', 'created'],
+        ['archive.json note 2', 'failed'],
+      ]);
+
+      const template = await noteModel.findById(res.body.data.rows[1].noteId);
+      expect(template?.noteType).toBe(NoteType.TEMPLATE);
+    });
+
+    test('200 – files of an unknown type are reported, not rejected', async () => {
+      // Input: a .txt file
+      // Expected status code: 200
+      // Expected output: a single failed row naming the problem
+      const res = await request(app)
+        .post('/api/notes/import')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .query({ workspaceId: testData.testWorkspaceId })
+        .attach('files', Buffer.from('hello'), 'hello.txt');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.rows).toEqual([
+        { row: 1, source: 'hello.txt', status: 'failed', error: 'Unknown file type, expected .md, .json or .csv' },
+      ]);
+    });
+
+    test('400 – without files or with an invalid mapping', async () => {
+      // Input: no files; then a mapping that is not JSON
+      // Expected status code: 400
+      const noFiles = await request(app)
+        .post('/api/notes/import')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .query({ workspaceId: testData.testWorkspaceId });
+      expect(noFiles.status).toBe(400);
+      expect(noFiles.body.error).toBe('No files uploaded');
+
+      const badMapping = await request(app)
+        .post('/api/notes/import')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .query({ workspaceId: testData.testWorkspaceId })
+        .field('mapping', '{oops')
+        .attach('files', Buffer.from('a\n1\n'), 'a.csv');
+      expect(badMapping.status).toBe(400);
+      expect(badMapping.body.error).toBe('mapping must be a JSON object');
+    });
+
+    test('403 – cannot import into a workspace the user is not a member of', async () => {
+      // Input: workspaceId of another user's workspace
+      // Expected status code: 403
+      const res = await request(app)
+        .post('/api/notes/import')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .query({ workspaceId: testData.testWorkspace2Id })
+        .attach('files', Buffer.from('# Hi\n'), 'hi.md');
+
+      expect(res.status).toBe(403);
+      expect(await noteModel.countDocuments({ workspaceId: testData.testWorkspace2Id })).toBe(0);
+    });
+
+    test('413 – uploads over the total size are refused', async () => {
+      // Input: two files of 10MB each, together over the 20MB an upload may hold
+      // Expected status code: 413
+      const file = Buffer.alloc(MAX_IMPORT_FILE_SIZE, 'a');
+      const res = await request(app)
+        .post('/api/notes/import')
+        .query({ workspaceId: testData.testWorkspaceId })
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .attach('files', file, 'first.md')
+        .attach('files', file, 'second.md');
+
+      expect(res.status).toBe(413);
+      expect(await noteModel.countDocuments({ workspaceId: testData.testWorkspaceId })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/// <reference types="jest" />
+import { NoteType } from '../../notes/notes.types';
+import { ExportedNote } from '../../export/export.types';
+import { renderCsv, renderMarkdown } from '../../export/export.render';
+import { parseCsv, parseCsvNotes, parseJsonNotes, parseMarkdownNotes } from '../../import/import.parse';
+
+const createdAt = new Date('2025-02-01T10:00:00Z');
+
+const makeNote = (overrides: Partial<ExportedNote>): ExportedNote => ({
+  _id: 'note1',
+  userId: 'user1',
+  workspaceId: 'workspace1',
+  noteType: NoteType.CONTENT,
+  tags: [],
+  fields: [],
+  version: 1,
+  revision: 1,
+  createdAt,
+  updatedAt: createdAt,
+  ...overrides,
+});
+
+describe('Import parsing – Markdown, JSON and CSV', () => {
+  test('CSV cells may be quoted, hold commas, quotes and line breaks', () => {
+    // Input: RFC 4180 document with CRLF line endings and a blank line
+    // Expected output: rows of cells with quoting removed
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\r\n\r\nlast,\r\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+      ['last', ''],
+    ]);
+  });
+
+  test('CSV exports read back into the same fields, tags and types', () => {
+    // Input: CSV export of a note whose title looks like a formula and whose text holds a comma
+    // Expected output: the same fields and tags
+    const csv = renderCsv([makeNote({
+      tags: ['a', 'b'],
+      fields: [
+        { _id: '1', fieldType: 'title', content: '=Totals' },
+        { _id: '2', fieldType: 'text', label: 'Notes', content: 'one, two' },
+      ],
+    })]);
+
+    const [candidate] = parseCsvNotes('notes.csv', csv);
+
+    expect(candidate.error).toBeUndefined();
+    expect(candidate.note).toEqual({
+      noteType: 'CONTENT',
+      tags: ['a', 'b'],
+      fields: [
+        { _id: '1', fieldType: 'title', content: '=Totals' },
+        { _id: '2', fieldType: 'text', label: 'Notes', content: 'one, two' },
+      ],
+    });
+  });
+
+  test('CSV mappings pick the columns and convert their values', () => {
+    // Input: mapping of three columns; one row with a bad number
+    // Expected output: typed fields for the good row, an error naming the column for the bad one
+    const candidates = parseCsvNotes(
+      'tasks.csv',
+      'Task,Due,Hours,Labels,Ignored\nShip,2025-02-12 18:00 UTC,3.5,work;urgent,x\nPlan,,many,,\n',
+      {
+        Task: { fieldType: 'title' },
+        Due: { fieldType: 'datetime', label: 'Due date' },
+        Hours: { fieldType: 'number' },
+        Labels: 'tags',
+      }
+    );
+
+    expect(candidates[0]).toEqual({
+      source: 'tasks.csv row 2',
+      note: {
+        tags: ['work', 'urgent'],
+        fields: [
+          { _id: '1', fieldType: 'title', label: 'Task', content: 'Ship' },
+          { _id: '2', fieldType: 'datetime', label: 'Due date', content: '2025-02-12T18:00Z' },
+          { _id: '3', fieldType: 'number', label: 'Hours', content: 3.5 },
+        ],
+      },
+    });
+    expect(candidates[1]).toEqual({ source: 'tasks.csv row 3', error: 'Column "Hours": "many" is not a number' });
+  });
+
+  test('Markdown exports split back into notes with their type and tags', () => {
+    // Input: Markdown export of two notes
+    // Expected output: two candidates with title, text box, tags and type from the markers
+    const markdown = renderMarkdown([
+      makeNote({
+        tags: ['work'],
+        fields: [
+          { _id: '1', fieldType: 'title', content: 'Weekly sync' },
+          { _id: '2', fieldType: 'textbox', content: 'First\n\nSecond' },
+        ],
+      }),
+      makeNote({ _id: 'note2', noteType: NoteType.TEMPLATE, fields: [{ _id: '1', fieldType: 'title', content: 'Form' }] }),
+    ]);
+
+    const candidates = parseMarkdownNotes('export.md', markdown);
+
+    expect(candidates).toHaveLength(2);
+    expect(candidates[0].note).toEqual({
+      noteType: 'CONTENT',
+      tags: ['work'],
+      fields: [
+        { _id: '1', fieldType: 'title', content: 'Weekly sync' },
+        { _id: '2', fieldType: 'textbox', content: 'First\n\nSecond' },
+      ],
+    });
+    expect(candidates[1].note?.noteType).toBe('TEMPLATE');
+  });
+
+  test('other Markdown files are one note titled by their heading or file name', () => {
+    // Input: a file with front matter tags and no heading
+    // Expected output: one note titled after the file, with the front matter tags
+    const [candidate] = parseMarkdownNotes('folder/Meeting notes.md', '---\ntags: [team, "q1"]\n---\n\nWe met.\n\n- [x] Minutes sent\n');
+
+    expect(candidate.note).toEqual({
+      tags: ['team', 'q1'],
+      fields: [
+        { _id: '0', fieldType: 'title', content: 'Meeting notes' },
+        { _id: '1', fieldType: 'textbox', content: 'We met.' },
+        { _id: '2', fieldType: 'checkbox', label: 'Minutes sent', content: true },
+      ],
+    });
+  });
+
+  test('JSON archives and bare arrays are read, anything else is reported', () => {
+    // Input: an archive, an array and a scalar
+    // Expected output: candidates for the notes, one error for the scalar
+    const note = { _id: 'x', noteType: 'CONTENT', tags: ['a'], fields: [], vectorData: [1] };
+
+    expect(parseJsonNotes('a.json', JSON.stringify({ notes: [note] }))[0].note).toEqual({ noteType: 'CONTENT', tags: ['a'], fields: [] });
+    expect(parseJsonNotes('b.json', JSON.stringify([note, 3]))[1]).toEqual({ source: 'b.json note 2', error: 'Note must be an object' });
+    expect(parseJsonNotes('c.json', '42')).toEqual([
+      { source: 'c.json', error: 'Expected an array of notes or an archive with a notes array' },
+    ]);
+  });
+});
@@ -146,7 +146,7 @@ describe('Message API – Normal Tests (No Mocking)', () => {
       // Input: workspaceId where user is not a member
       // Expected status code: 403
       // Expected behavior: error message returned
-      // Expected output: error message "Not a member of this workspace"
+      // Expected output: error message "Access denied: You are not a member of this workspace"
       // Create a workspace without the test user as member
       const workspace = await workspaceModel.create({
         name: 'Other Workspace',
@@ -160,7 +160,7 @@ describe('Message API – Normal Tests (No Mocking)', () => {
         .set('Authorization', `Bearer ${testData.testUserToken}`);
 
       expect(res.status).toBe(403);
-      expect(res.body.error).toBe('Not a member of this workspace');
+      expect(res.body.error).toBe('Access denied: You are not a member of this workspace');
     });
 
     test('401 – returns 401 when user._id is not set', async () => {
@@ -233,7 +233,7 @@ describe('Message API – Normal Tests (No Mocking)', () => {
       // Input: workspaceId where user is not a member
       // Expected status code: 403
       // Expected behavior: error message returned
-      // Expected output: error message "Not a member of this workspace"
+      // Expected output: error message "Access denied: You are not a member of this workspace"
       const workspace = await workspaceModel.create({
         name: 'Other Workspace',
         profile: { imagePath: '', name: 'Other Workspace', description: '' },
@@ -247,7 +247,7 @@ describe('Message API – Normal Tests (No Mocking)', () => {
         .send({ content: 'Test' });
 
       expect(res.status).toBe(403);
-      expect(res.body.error).toBe('Not a member of this workspace');
+      expect(res.body.error).toBe('Access denied: You are not a member of this workspace');
     });
 
     test('401 – returns 401 when user._id is not set', async () => {
@@ -325,11 +325,11 @@ describe('Message API – Normal Tests (No Mocking)', () => {
       expect(res.body.error).toBe('Workspace not found');
     });
 
-    test('403 – returns 403 when user is not workspace owner', async () => {
-      // Input: messageId in workspace where user is not owner
+    test('403 – returns 403 when the user\'s role cannot delete messages', async () => {
+      // Input: messageId in workspace where user is an editor
       // Expected status code: 403
       // Expected behavior: error message returned
-      // Expected output: error message "Only workspace owner can delete messages"
+      // Expected output: error message "Access denied: The editor role cannot delete messages"
       // Create workspace owned by another user
       const otherUserId = new mongoose.Types.ObjectId();
       const workspace = await workspaceModel.create({
@@ -350,7 +350,7 @@ describe('Message API – Normal Tests (No Mocking)', () => {
         .set('Authorization', `Bearer ${testData.testUserToken}`);
 
       expect(res.status).toBe(403);
-      expect(res.body.error).toBe('Only workspace owner can delete messages');
+      expect(res.body.error).toBe('Access denied: The editor role cannot delete messages');
     });
 
     test('401 – returns 401 when user._id is not set', async () => {
@@ -5,7 +5,12 @@ import request from 'supertest';
 import { MongoMemoryServer } from 'mongodb-memory-server';
 
 import { NoteType } from '../../notes/notes.types';
+import { noteModel } from '../../notes/note.model';
+import { noteRevisionModel } from '../../notes/noteRevision.model';
+import { findNonConformingNotes } from '../../notes/notes.validation';
 import { workspaceModel } from '../../workspaces/workspace.model';
+import { embeddingJobModel } from '../../embeddings/embeddingJob.model';
+import { processEmbeddingJobs } from '../../embeddings/embedding.worker';
 import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
 
 // ---------------------------
@@ -190,6 +195,64 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
       expect(res.body.data.note.fields).toHaveLength(2);
     });
 
+    test('201 – saves the note right away and embeds it in the background', async () => {
+      // Input: noteData embedded with the configured (local) provider
+      // Expected status code: 201
+      // Expected behavior: the note is pending until the embedding worker ran, then the vector is
+      // tagged with what produced it
+      // Expected output: embedding info matching the vector length
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [{ fieldType: 'title', content: 'Offline embedding', _id: '1' }],
+        });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.note.embeddingStatus).toBe('pending');
+
+      await processEmbeddingJobs();
+
+      const stored = await request(app)
+        .get(`/api/notes/${res.body.data.note._id}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(stored.body.data.note.embeddingStatus).toBe('ready');
+      expect(stored.body.data.note.embedding).toEqual({
+        provider: 'local',
+        model: 'hashed-ngram-v1',
+        dimension: (await noteModel.findById(res.body.data.note._id))?.vectorData.length,
+      });
+      expect(await embeddingJobModel.countDocuments()).toBe(0);
+    });
+
+    test('200 – tag-only updates keep the stored vector', async () => {
+      // Input: an embedded note whose tags are updated, fields unchanged
+      // Expected status code: 200
+      // Expected behavior: no embedding job is queued and the note stays ready
+      const create = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [{ fieldType: 'title', content: 'Unchanged content', _id: '1' }],
+        });
+      await processEmbeddingJobs();
+
+      const res = await request(app)
+        .put(`/api/notes/${create.body.data.note._id}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: ['new-tag'], fields: [{ fieldType: 'title', content: 'Unchanged content', _id: '1' }] });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.note.embeddingStatus).toBe('ready');
+      expect(await embeddingJobModel.countDocuments()).toBe(0);
+    });
+
     test('201 – creates note with field content as null/undefined (tests ?? operator branch)', async () => {
       // Input: noteData with field where content property exists but is null/undefined
       // Expected status code: 201
@@ -283,6 +346,201 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
       expect(res.body.message).toBe('Note created successfully');
       expect(res.body.data.note.tags).toEqual([]);
     });
+
+    test('400 – returns validation error when fieldType is unknown', async () => {
+      // Input: noteData with a field whose fieldType is not part of the field schema
+      // Expected status code: 400
+      // Expected behavior: validateBody middleware rejects request (discriminated union)
+      // Expected output: validation error pointing at the offending field
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [{ fieldType: 'spreadsheet', content: 'Nope', _id: '1' }],
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Validation error');
+      const fieldPaths = res.body.details.map((d: any) => d.field);
+      expect(fieldPaths).toContain('fields.0.fieldType');
+    });
+
+    test('400 – returns validation error when datetime content is not a date', async () => {
+      // Input: noteData with a datetime field holding arbitrary text
+      // Expected status code: 400
+      // Expected behavior: validateBody middleware rejects request (ISO datetime validation)
+      // Expected output: validation error pointing at the datetime content
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [{ fieldType: 'datetime', label: 'Due', content: 'next tuesday', _id: '1' }],
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Validation error');
+      const fieldPaths = res.body.details.map((d: any) => d.field);
+      expect(fieldPaths).toContain('fields.0.content');
+    });
+
+    test('201 – creates note with text, datetime and signature fields', async () => {
+      // Input: noteData using the field shapes sent by the Android client
+      // Expected status code: 201
+      // Expected behavior: all field types pass validation and are stored
+      // Expected output: note with the three fields
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [
+            { fieldType: 'text', label: 'Title', required: true, placeholder: null, content: 'Client note', _id: '1' },
+            { fieldType: 'datetime', label: 'Due', required: false, content: '2025-02-12T18:00', _id: '2' },
+            { fieldType: 'signature', label: 'Signed', required: false, userId: null, userName: null, _id: '3' },
+          ],
+        });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.note.fields).toHaveLength(3);
+      expect(res.body.data.note.fields[1].content).toBe('2025-02-12T18:00');
+    });
+
+    test('201 – creates note with checkbox, number, select, url and image fields', async () => {
+      // Input: noteData using each of the richer field types
+      // Expected status code: 201
+      // Expected behavior: values pass validation and are stored as sent
+      // Expected output: note with the five fields
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [
+            { fieldType: 'checkbox', label: 'Done', content: false, _id: '1' },
+            { fieldType: 'number', label: 'Hours', content: 2.5, unit: 'h', min: 0, _id: '2' },
+            { fieldType: 'select', label: 'Labels', options: ['a', 'b', 'c'], multiple: true, content: ['a', 'c'], _id: '3' },
+            { fieldType: 'url', label: 'Link', content: 'https://example.com', _id: '4' },
+            { fieldType: 'image', label: 'Photo', caption: 'No photo yet', _id: '5' },
+          ],
+        });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.note.fields).toHaveLength(5);
+      expect(res.body.data.note.fields[2].content).toEqual(['a', 'c']);
+    });
+
+    test('400 – returns validation error when a select value is not an option', async () => {
+      // Input: noteData with a select field whose value is missing from its options
+      // Expected status code: 400
+      // Expected behavior: validateBody middleware rejects request (select refinement)
+      // Expected output: validation error pointing at the select content
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [{ fieldType: 'select', label: 'Status', options: ['open', 'closed'], content: ['pending'], _id: '1' }],
+        });
+
+      expect(res.status).toBe(400);
+      const fieldPaths = res.body.details.map((d: any) => d.field);
+      expect(fieldPaths).toContain('fields.0.content');
+    });
+
+    test('400 – returns validation error when a text is longer than its maxLength', async () => {
+      // Input: noteData with a text field of 6 characters limited to 5
+      // Expected status code: 400
+      // Expected behavior: validateBody middleware rejects request (maxLength refinement)
+      // Expected output: validation error pointing at the text content
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [{ fieldType: 'text', label: 'Code', content: 'ABCDEF', maxLength: 5, _id: '1' }],
+        });
+
+      expect(res.status).toBe(400);
+      const fieldPaths = res.body.details.map((d: any) => d.field);
+      expect(fieldPaths).toContain('fields.0.content');
+    });
+
+    test('400 – returns validation error when a date is outside its range', async () => {
+      // Input: noteData with one datetime before its minDate and one after its maxDate
+      // Expected status code: 400
+      // Expected behavior: validateBody middleware rejects request (minDate/maxDate refinements)
+      // Expected output: validation errors pointing at both contents
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [
+            { fieldType: 'datetime', label: 'Start', content: '2025-01-31T09:00', minDate: '2025-02-01T00:00', _id: '1' },
+            { fieldType: 'datetime', label: 'End', content: '2025-03-01T09:00', maxDate: '2025-02-28T23:59', _id: '2' },
+          ],
+        });
+
+      expect(res.status).toBe(400);
+      const fieldPaths = res.body.details.map((d: any) => d.field);
+      expect(fieldPaths).toContain('fields.0.content');
+      expect(fieldPaths).toContain('fields.1.content');
+    });
+
+    test('400 – returns validation error when a number is out of range', async () => {
+      // Input: noteData with a number field above its max
+      // Expected status code: 400
+      // Expected behavior: validateBody middleware rejects request (min/max refinement)
+      // Expected output: validation error pointing at the number content
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [{ fieldType: 'number', label: 'Rating', content: 11, min: 1, max: 10, _id: '1' }],
+        });
+
+      expect(res.status).toBe(400);
+      const fieldPaths = res.body.details.map((d: any) => d.field);
+      expect(fieldPaths).toContain('fields.0.content');
+    });
+
+    test('400 – rejects signature field pointing at a file that was not uploaded', async () => {
+      // Input: noteData with a signature field whose imagePath is not a stored upload
+      // Expected status code: 400
+      // Expected behavior: media reference check fails before the note is stored
+      // Expected output: error message starting with "Invalid note fields"
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [{ fieldType: 'signature', label: 'Signed', imagePath: '/etc/passwd', _id: '1' }],
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain('Invalid note fields');
+    });
   });
 
   describe('PUT /api/notes/:id - Update Note', () => {
@@ -371,26 +629,30 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
       expect(res.body.data.note.fields[0].content).toBe('Updated Title');
     });
 
-    test("500 – note doesn't exist", async () => {
+    test("404 – note doesn't exist", async () => {
       // Input: fake noteId that doesn't exist, updated data in body
-      // Expected status code: 500
-      // Expected behavior: database error
-      // Expected output: None
+      // Expected status code: 404
+      // Expected behavior: the authorization layer finds no note to check
+      // Expected output: error message
       const fakeId = new mongoose.Types.ObjectId().toString();
       const res = await request(app)
         .put(`/api/notes/${fakeId}`)
         .set('Authorization', `Bearer ${testData.testUserToken}`)
         .send({ tags: ['new-tag'], fields: [{ fieldType: 'title', content: 'Updated', _id: '1' }] });
 
-      expect(res.status).toBe(500);
-      expect(res.body.error).toBeDefined();
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Note not found');
     });
 
-    test("200 – can update another user's note (notes are shareable)", async () => {
-      // Input: noteId of another user's note, updated data in body, different userId
+    test("200 – members can update another member's note (notes are shareable)", async () => {
+      // Input: noteId of another user's note, updated data in body, userId of a fellow member
       // Expected status code: 200
-      // Expected behavior: note is updated successfully since notes are shareable
+      // Expected behavior: note is updated successfully since notes are shareable within a workspace
       // Expected output: updated note details
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+        $push: { members: new mongoose.Types.ObjectId(testData.testUser2Id) },
+      });
+
       const res = await request(app)
         .put(`/api/notes/${noteId}`)
         .set('Authorization', `Bearer ${testData.testUser2Token}`)
@@ -401,6 +663,80 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
       expect(res.body.data.note.tags).toEqual(['new-tag']);
       expect(res.body.data.note.fields[0].content).toBe('Updated by another user');
     });
+
+    test('200 – accepts an If-Match header naming the current revision', async () => {
+      // Input: If-Match with the ETag returned by GET /api/notes/:id
+      // Expected status code: 200
+      // Expected behavior: the write goes through and the revision moves on
+      // Expected output: updated note and the ETag of its new revision
+      const current = await request(app)
+        .get(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(current.headers.etag).toBe('"1"');
+
+      const res = await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .set('If-Match', current.headers.etag)
+        .send({ tags: [], fields: [{ fieldType: 'title', content: 'Based on 1', _id: '1' }] });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.note.revision).toBe(2);
+      expect(res.headers.etag).toBe('"2"');
+    });
+
+    test('409 – stale If-Match returns the current server copy', async () => {
+      // Input: two writers based on revision 1, the second one arrives late
+      // Expected status code: 409
+      // Expected behavior: the stale write is rejected without touching the note
+      // Expected output: the note as written by the first writer
+      await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .set('If-Match', '"1"')
+        .send({ tags: ['first'], fields: [{ fieldType: 'title', content: 'First writer', _id: '1' }] });
+
+      const res = await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`)
+        .set('If-Match', '"1"')
+        .send({ tags: ['second'], fields: [{ fieldType: 'title', content: 'Second writer', _id: '1' }] });
+
+      expect(res.status).toBe(409);
+      expect(res.body.data.note.revision).toBe(2);
+      expect(res.body.data.note.fields[0].content).toBe('First writer');
+      expect(res.headers.etag).toBe('"2"');
+    });
+
+    test('409 – stale baseRevision in the body', async () => {
+      // Input: baseRevision field instead of a header, one revision behind
+      // Expected status code: 409
+      await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: [], fields: [{ fieldType: 'title', content: 'Newer', _id: '1' }] });
+
+      const res = await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ baseRevision: 1, tags: [], fields: [{ fieldType: 'title', content: 'Older', _id: '1' }] });
+
+      expect(res.status).toBe(409);
+      expect(res.body.data.note.fields[0].content).toBe('Newer');
+    });
+
+    test('400 – malformed If-Match header', async () => {
+      // Input: If-Match that does not name a revision
+      // Expected status code: 400
+      const res = await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .set('If-Match', 'yesterday')
+        .send({ tags: [], fields: [{ fieldType: 'title', content: 'Updated', _id: '1' }] });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Invalid If-Match header');
+    });
   });
 
   describe('DELETE /api/notes/:id - Delete Note', () => {
@@ -443,23 +779,27 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
       expect(res.body.message).toBe('Note successfully deleted');
     });
 
-    test("500 – deleting a non-existent note", async () => {
+    test("404 – deleting a non-existent note", async () => {
       // Input: fake noteId that doesn't exist
-      // Expected status code: 500
-      // Expected behavior: database error
-      // Expected output: None
+      // Expected status code: 404
+      // Expected behavior: the authorization layer finds no note to check
+      // Expected output: error message
       const fakeId = new mongoose.Types.ObjectId().toString();
       const res = await request(app).delete(`/api/notes/${fakeId}`).set('Authorization', `Bearer ${testData.testUserToken}`);
 
-      expect(res.status).toBe(500);
-      expect(res.body.error).toBeDefined();
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Note not found');
     });
 
-    test("500 – cannot delete another user's note (Note not found)", async () => {
-      // Input: noteId of another user's note, different userId
+    test("500 – members cannot delete another member's note (Note not found)", async () => {
+      // Input: noteId of another user's note, userId of a fellow member
       // Expected status code: 500
       // Expected behavior: database error due to ownership check
       // Expected output: None
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+        $push: { members: new mongoose.Types.ObjectId(testData.testUser2Id) },
+      });
+
       const res = await request(app).delete(`/api/notes/${noteId}`).set('Authorization', `Bearer ${testData.testUser2Token}`);
 
       expect(res.status).toBe(500);
@@ -521,11 +861,15 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
       expect(res.body.error).toBe('Note not found');
     });
 
-    test("200 – accessing another user's note (notes are shareable)", async () => {
-      // Input: noteId of another user's note, different userId
+    test("200 – accessing another member's note (notes are shareable)", async () => {
+      // Input: noteId of another user's note, userId of a fellow member
       // Expected status code: 200
-      // Expected behavior: note is accessible since notes are shareable
+      // Expected behavior: note is accessible since notes are shareable within a workspace
       // Expected output: note details
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+        $push: { members: new mongoose.Types.ObjectId(testData.testUser2Id) },
+      });
+
       const res = await request(app).get(`/api/notes/${noteId}`).set('Authorization', `Bearer ${testData.testUser2Token}`);
 
       expect(res.status).toBe(200);
@@ -560,73 +904,169 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
       for (const n of notes) {
         await request(app).post('/api/notes').set('Authorization', `Bearer ${testData.testUserToken}`).send(n);
       }
+      await processEmbeddingJobs();
     });
 
-    test('200 – finds all notes in workspace', async () => {
-      // Input: workspaceId and noteType in query params
+    test('200 – ranks notes by similarity to the query', async () => {
+      // Input: query close to one of the titles
       // Expected status code: 200
-      // Expected behavior: notes retrieved from database
-      // Expected output: array of notes
+      // Expected behavior: the local provider ranks the matching note first
       const res = await request(app)
         .get('/api/notes')
-        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT })
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, query: 'urgent note' })
         .set('Authorization', `Bearer ${testData.testUserToken}`);
 
       expect(res.status).toBe(200);
-      expect(res.body.message).toBe('Notes retrieved successfully');
-      expect(res.body.data.notes.length).toBeGreaterThanOrEqual(3);
+      expect(res.body.data.notes[0].fields[0].content).toBe('Urgent Note');
     });
 
-    test('200 – filters by tag', async () => {
-      // Input: workspaceId, noteType, and tag in query params
+    test('200 – never compares vectors from another provider', async () => {
+      // Input: a note whose vector was produced by a different model, same dimension
       // Expected status code: 200
-      // Expected behavior: notes filtered by tag retrieved from database
-      // Expected output: array of notes with matching tag
+      // Expected behavior: the foreign vector is not scored and sorts after comparable notes
+      const foreign = await noteModel.create({
+        userId: new mongoose.Types.ObjectId(testData.testUserId),
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        tags: [],
+        fields: [{ fieldType: 'title', content: 'Urgent Note', _id: '1' }],
+        vectorData: Array(512).fill(1),
+        embedding: { provider: 'openai', model: 'text-embedding-3-small', dimension: 512 },
+      });
+
       const res = await request(app)
         .get('/api/notes')
-        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, tags: 'urgent' })
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, query: 'urgent note' })
         .set('Authorization', `Bearer ${testData.testUserToken}`);
 
       expect(res.status).toBe(200);
-      const urgentNotes = res.body.data.notes.filter((note: any) => note.tags.includes('urgent'));
-      expect(urgentNotes.length).toBeGreaterThan(0);
+      expect(res.body.data.notes[res.body.data.notes.length - 1]._id).toBe(foreign._id.toString());
     });
 
-    test('200 – filters by multiple tags', async () => {
-      // Input: workspaceId, noteType, and multiple tags in query params
+    test('200 – returns similarity scores and honours limit', async () => {
+      // Input: query with limit=2
       // Expected status code: 200
-      // Expected behavior: notes filtered by tags (tags.length > 0 branch in notes.service.ts line 236)
-      // Expected output: array of notes with matching tags
+      // Expected output: two notes, each with a score, most similar first
       const res = await request(app)
         .get('/api/notes')
-        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, tags: ['important', 'urgent'] })
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, query: 'urgent note', limit: 2 })
         .set('Authorization', `Bearer ${testData.testUserToken}`);
 
       expect(res.status).toBe(200);
-      expect(res.body.data.notes.length).toBeGreaterThan(0);
-      // Verify all returned notes have at least one of the requested tags
-      res.body.data.notes.forEach((note: any) => {
-        const hasMatchingTag = note.tags.some((tag: string) => ['important', 'urgent'].includes(tag));
-        expect(hasMatchingTag).toBe(true);
-      });
+      expect(res.body.data.notes).toHaveLength(2);
+      expect(typeof res.body.data.notes[0].score).toBe('number');
+      expect(res.body.data.notes[0].score).toBeGreaterThanOrEqual(res.body.data.notes[1].score);
     });
 
-    test('401 – returns 401 when user._id is not set', async () => {
-      // Input: request without authentication token
-      // Expected status code: 401
-      // Expected behavior: error message returned
-      // Expected output: error message "User not authenticated"
-      // This tests lines 200-201 in notes.controller.ts
+    test('400 – rejects a limit that is not a positive integer', async () => {
+      // Input: limit=0
+      // Expected status code: 400
       const res = await request(app)
         .get('/api/notes')
-        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT });
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, query: 'urgent', limit: 0 })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
 
-      expect(res.status).toBe(401);
-      expect(res.body.error).toBeDefined();
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('limit must be a positive integer');
     });
 
-    test('400 – missing workspaceId', async () => {
-      // Input: noteType only in query params, missing workspaceId
+    test('200 – search index follows updates and deletes', async () => {
+      // Input: a search that loads the index, then an update and a delete
+      // Expected behavior: the updated note ranks by its new content, the deleted note is gone
+      const search = () => request(app)
+        .get('/api/notes')
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, query: 'quarterly budget review' })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      const before = await search();
+      const normal = before.body.data.notes.find(
+        (note: { fields: { content: string }[] }) => note.fields[0].content === 'Normal Note'
+      );
+
+      await request(app)
+        .put(`/api/notes/${normal._id}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: ['normal'], fields: [{ fieldType: 'title', content: 'Quarterly budget review', _id: '1' }] });
+      await processEmbeddingJobs();
+
+      const afterUpdate = await search();
+      expect(afterUpdate.body.data.notes[0]._id).toBe(normal._id);
+
+      await request(app)
+        .delete(`/api/notes/${normal._id}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      const afterDelete = await search();
+      const ids = afterDelete.body.data.notes.map((note: { _id: string }) => note._id);
+      expect(ids).not.toContain(normal._id);
+      expect(ids).toHaveLength(2);
+    });
+
+    test('200 – finds all notes in workspace', async () => {
+      // Input: workspaceId and noteType in query params
+      // Expected status code: 200
+      // Expected behavior: notes retrieved from database
+      // Expected output: array of notes
+      const res = await request(app)
+        .get('/api/notes')
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Notes retrieved successfully');
+      expect(res.body.data.notes.length).toBeGreaterThanOrEqual(3);
+    });
+
+    test('200 – filters by tag', async () => {
+      // Input: workspaceId, noteType, and tag in query params
+      // Expected status code: 200
+      // Expected behavior: notes filtered by tag retrieved from database
+      // Expected output: array of notes with matching tag
+      const res = await request(app)
+        .get('/api/notes')
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, tags: 'urgent' })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      const urgentNotes = res.body.data.notes.filter((note: any) => note.tags.includes('urgent'));
+      expect(urgentNotes.length).toBeGreaterThan(0);
+    });
+
+    test('200 – filters by multiple tags', async () => {
+      // Input: workspaceId, noteType, and multiple tags in query params
+      // Expected status code: 200
+      // Expected behavior: notes filtered by tags (tags.length > 0 branch in notes.service.ts line 236)
+      // Expected output: array of notes with matching tags
+      const res = await request(app)
+        .get('/api/notes')
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, tags: ['important', 'urgent'] })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.notes.length).toBeGreaterThan(0);
+      // Verify all returned notes have at least one of the requested tags
+      res.body.data.notes.forEach((note: any) => {
+        const hasMatchingTag = note.tags.some((tag: string) => ['important', 'urgent'].includes(tag));
+        expect(hasMatchingTag).toBe(true);
+      });
+    });
+
+    test('401 – returns 401 when user._id is not set', async () => {
+      // Input: request without authentication token
+      // Expected status code: 401
+      // Expected behavior: error message returned
+      // Expected output: error message "User not authenticated"
+      // This tests lines 200-201 in notes.controller.ts
+      const res = await request(app)
+        .get('/api/notes')
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT });
+
+      expect(res.status).toBe(401);
+      expect(res.body.error).toBeDefined();
+    });
+
+    test('400 – missing workspaceId', async () => {
+      // Input: noteType only in query params, missing workspaceId
       // Expected status code: 400
       // Expected behavior: validation error
       // Expected output: error message
@@ -653,18 +1093,401 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
       expect(res.body.error).toBe('noteType is required');
     });
 
-    test('500 – user not a member of workspace', async () => {
+    test('403 – user not a member of workspace', async () => {
       // Input: workspaceId and noteType for workspace user doesn't belong to
-      // Expected status code: 500
-      // Expected behavior: database error due to access denied
-      // Expected output: None
+      // Expected status code: 403
+      // Expected behavior: access denied before any note is read
+      // Expected output: error message
       const res = await request(app)
         .get('/api/notes')
         .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT })
         .set('Authorization', `Bearer ${testData.testUser2Token}`);
 
-      expect(res.status).toBe(500);
-      expect(res.body.error).toBeDefined();
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Access denied: You are not a member of this workspace');
+    });
+  });
+
+  describe('GET /api/notes - Cursor pagination and sort', () => {
+    const find = (query: Record<string, string | number>) =>
+      request(app)
+        .get('/api/notes')
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, ...query })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+    const titles = (res: request.Response): string[] =>
+      res.body.data.notes.map((note: { fields: { content: string }[] }) => note.fields[0].content);
+
+    let noteIds: string[];
+
+    beforeEach(async () => {
+      noteIds = [];
+      for (const title of ['banana', 'Apple', 'cherry']) {
+        const res = await request(app)
+          .post('/api/notes')
+          .set('Authorization', `Bearer ${testData.testUserToken}`)
+          .send({
+            workspaceId: testData.testWorkspaceId,
+            noteType: NoteType.CONTENT,
+            tags: [],
+            fields: [{ fieldType: 'title', content: title, _id: '1' }],
+          });
+        noteIds.push(res.body.data.note._id);
+      }
+      await processEmbeddingJobs();
+    });
+
+    test('200 – pages through notes newest first with nextCursor', async () => {
+      // Input: limit=2, then the returned cursor
+      // Expected status code: 200
+      // Expected output: two notes then the last one, nextCursor null on the last page
+      const first = await find({ limit: 2 });
+      expect(first.status).toBe(200);
+      expect(titles(first)).toEqual(['cherry', 'Apple']);
+      expect(typeof first.body.data.nextCursor).toBe('string');
+
+      const second = await find({ limit: 2, cursor: first.body.data.nextCursor });
+      expect(titles(second)).toEqual(['banana']);
+      expect(second.body.data.nextCursor).toBeNull();
+    });
+
+    test('200 – notes created after the first page do not shift the next one', async () => {
+      // Input: a new note is created between fetching two pages
+      // Expected behavior: the second page continues after the last note already seen
+      const first = await find({ limit: 1 });
+      await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [{ fieldType: 'title', content: 'date', _id: '1' }],
+        });
+
+      const second = await find({ limit: 1, cursor: first.body.data.nextCursor });
+      expect(titles(second)).toEqual(['Apple']);
+    });
+
+    test('200 – sorts by title case-insensitively in both orders', async () => {
+      // Input: sort=title with default (asc) and desc order, paged by one
+      // Expected status code: 200
+      const asc = await find({ sort: 'title' });
+      expect(titles(asc)).toEqual(['Apple', 'banana', 'cherry']);
+
+      const desc = await find({ sort: 'title', order: 'desc', limit: 1 });
+      const next = await find({ sort: 'title', order: 'desc', limit: 1, cursor: desc.body.data.nextCursor });
+      expect([...titles(desc), ...titles(next)]).toEqual(['cherry', 'banana']);
+    });
+
+    test('200 – sorts by last edit', async () => {
+      // Input: the oldest note is edited, then sort=updatedAt
+      // Expected output: the edited note comes first
+      await request(app)
+        .put(`/api/notes/${noteIds[0]}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: [], fields: [{ fieldType: 'title', content: 'banana bread', _id: '1' }] });
+
+      const res = await find({ sort: 'updatedAt', limit: 1 });
+      expect(titles(res)).toEqual(['banana bread']);
+    });
+
+    test('200 – pages through relevance-ranked results', async () => {
+      // Input: query with limit=1, following nextCursor to the end
+      // Expected output: every note exactly once, most relevant first
+      const seen: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const res: request.Response = await find({ query: 'cherry', limit: 1, ...(cursor && { cursor }) });
+        expect(res.status).toBe(200);
+        seen.push(...titles(res));
+        cursor = res.body.data.nextCursor;
+      } while (cursor);
+
+      expect(seen[0]).toBe('cherry');
+      expect([...seen].sort()).toEqual(['Apple', 'banana', 'cherry']);
+    });
+
+    test('400 – rejects invalid cursors and sort options', async () => {
+      // Input: garbage cursor, cursor of another sort, relevance without a query, unknown sort
+      // Expected status code: 400
+      const titleCursor = (await find({ sort: 'title', limit: 1 })).body.data.nextCursor;
+
+      expect((await find({ cursor: 'not-a-cursor' })).body.error).toBe('Invalid cursor');
+      expect((await find({ cursor: titleCursor })).body.error).toBe('cursor does not match the sort order');
+      expect((await find({ sort: 'relevance' })).body.error).toBe('sort=relevance needs a query');
+      expect((await find({ sort: 'size' })).status).toBe(400);
+    });
+  });
+
+  describe('GET /api/notes - Structured filters', () => {
+    let dueSoonId: string;
+    let dueLaterId: string;
+    let otherAuthorId: string;
+
+    const createNote = async (token: string, tags: string[], title: string, due: string) => {
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags,
+          fields: [
+            { fieldType: 'title', content: title, _id: '1' },
+            { fieldType: 'datetime', label: 'Due', content: due, _id: '2' },
+          ],
+        });
+      return res.body.data.note._id as string;
+    };
+
+    const find = (query: Record<string, string | string[]>) =>
+      request(app)
+        .get('/api/notes')
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, ...query })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+    const ids = (res: request.Response) => res.body.data.notes.map((note: { _id: string }) => note._id).sort();
+
+    beforeEach(async () => {
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+        $push: { members: new mongoose.Types.ObjectId(testData.testUser2Id) },
+      });
+
+      dueSoonId = await createNote(testData.testUserToken, ['a', 'b'], 'Renew passport', '2025-03-05T10:00');
+      dueLaterId = await createNote(testData.testUserToken, ['a'], 'File taxes', '2025-03-20T10:00');
+      otherAuthorId = await createNote(testData.testUser2Token, ['c'], 'Book flights', '2025-03-06T09:00:00+01:00');
+      await processEmbeddingJobs();
+    });
+
+    test('200 – tag modes any, all and none', async () => {
+      // Input: tags=a,b with each tagMode
+      // Expected status code: 200
+      // Expected output: any = notes with a or b, all = notes with both, none = notes with neither
+      expect(ids(await find({ tags: ['a', 'b'] }))).toEqual([dueSoonId, dueLaterId].sort());
+      expect(ids(await find({ tags: ['a', 'b'], tagMode: 'all' }))).toEqual([dueSoonId]);
+      expect(ids(await find({ tags: ['a', 'b'], tagMode: 'none' }))).toEqual([otherAuthorId]);
+    });
+
+    test('200 – filters by author and creation date', async () => {
+      // Input: authorId of the second user, then date bounds around now
+      // Expected status code: 200
+      expect(ids(await find({ authorId: testData.testUser2Id }))).toEqual([otherAuthorId]);
+      expect(ids(await find({ createdAfter: new Date(Date.now() + 60000).toISOString() }))).toEqual([]);
+      expect(ids(await find({ createdBefore: new Date(Date.now() + 60000).toISOString() }))).toHaveLength(3);
+    });
+
+    test('200 – filters by last edit date', async () => {
+      // Input: updatedAfter set between creating the notes and editing one of them
+      // Expected status code: 200
+      // Expected output: only the edited note
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const editedAfter = new Date().toISOString();
+      await request(app)
+        .put(`/api/notes/${dueLaterId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: ['a'], fields: [{ fieldType: 'title', content: 'File taxes today', _id: '1' }] });
+
+      expect(ids(await find({ updatedAfter: editedAfter }))).toEqual([dueLaterId]);
+      expect(ids(await find({ updatedBefore: editedAfter }))).toEqual([dueSoonId, otherAuthorId].sort());
+    });
+
+    test('200 – filters on datetime field values', async () => {
+      // Input: notes due in the week of 2025-03-03, with and without naming the field
+      // Expected status code: 200
+      // Expected behavior: contents with and without an offset are compared as instants
+      const week = { datetimeAfter: '2025-03-03', datetimeBefore: '2025-03-10' };
+
+      expect(ids(await find({ ...week, datetimeField: 'Due' }))).toEqual([dueSoonId, otherAuthorId].sort());
+      expect(ids(await find(week))).toEqual([dueSoonId, otherAuthorId].sort());
+      expect(ids(await find({ ...week, datetimeField: 'Start' }))).toEqual([]);
+      expect(ids(await find({ datetimeAfter: '2025-03-06T07:30:00Z', datetimeBefore: '2025-03-06T08:30:00Z' })))
+        .toEqual([otherAuthorId]);
+    });
+
+    test('200 – filters compose with semantic ranking', async () => {
+      // Input: query plus tagMode=all and a datetime range
+      // Expected status code: 200
+      // Expected output: only the matching note, still scored
+      const res = await find({ query: 'passport', tags: ['a', 'b'], tagMode: 'all', datetimeBefore: '2025-03-10' });
+
+      expect(res.status).toBe(200);
+      expect(ids(res)).toEqual([dueSoonId]);
+      expect(typeof res.body.data.notes[0].score).toBe('number');
+    });
+
+    test('400 – rejects invalid filters', async () => {
+      // Input: unknown tag mode, unparsable date, author that is not an id, field without bounds
+      // Expected status code: 400
+      expect((await find({ tagMode: 'some' })).body.error).toBe('tagMode must be any, all or none');
+      expect((await find({ createdAfter: 'last week' })).body.error).toBe('createdAfter must be an ISO 8601 date or date-time');
+      expect((await find({ authorId: 'me' })).body.error).toBe('authorId must be a user id');
+      expect((await find({ datetimeField: 'Due' })).body.error).toBe('datetimeField needs datetimeAfter or datetimeBefore');
+    });
+  });
+
+  describe('GET /api/notes?mode=hybrid - Hybrid Search', () => {
+    const search = (query: Record<string, string | number>) =>
+      request(app)
+        .get('/api/notes')
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, mode: 'hybrid', ...query })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+    beforeEach(async () => {
+      // The database is dropped before every test, bring the text index back
+      await noteModel.createIndexes();
+
+      const notes = [
+        [{ fieldType: 'title', content: 'Invoice INV-2024-001', _id: '1' }],
+        [{ fieldType: 'title', content: 'Weekly team meeting', _id: '1' }],
+        [{ fieldType: 'title', content: 'Grocery list', _id: '1' }, { fieldType: 'textbox', label: 'Items', content: 'apples, bread', _id: '2' }],
+      ];
+      for (const fields of notes) {
+        await request(app)
+          .post('/api/notes')
+          .set('Authorization', `Bearer ${testData.testUserToken}`)
+          .send({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, tags: [], fields });
+      }
+      await processEmbeddingJobs();
+    });
+
+    test('200 – exact identifiers rank first with highlights', async () => {
+      // Input: invoice number as query
+      // Expected status code: 200
+      // Expected output: the invoice note first, matched by keyword, with the title highlighted
+      const res = await search({ query: 'INV-2024-001' });
+
+      expect(res.status).toBe(200);
+      const [first] = res.body.data.notes;
+      expect(first.fields[0].content).toBe('Invoice INV-2024-001');
+      expect(first.matchedBy).toContain('keyword');
+      expect(first.highlights[0].fieldId).toBe('1');
+      expect(first.vectorData).toBeUndefined();
+      expect(res.body.data.total).toBe(res.body.data.notes.length);
+    });
+
+    test('200 – minScore drops weak matches', async () => {
+      // Input: minScore=0.5, only a top rank in at least one ranking can reach it
+      // Expected status code: 200
+      // Expected behavior: every returned note meets the threshold
+      const all = await search({ query: 'grocery apples' });
+      const filtered = await search({ query: 'grocery apples', minScore: 0.5 });
+
+      expect(filtered.status).toBe(200);
+      expect(filtered.body.data.notes.length).toBeLessThan(all.body.data.notes.length);
+      expect(filtered.body.data.notes[0].fields[0].content).toBe('Grocery list');
+      filtered.body.data.notes.forEach((note: { score: number }) => expect(note.score).toBeGreaterThanOrEqual(0.5));
+    });
+
+    test('200 – paginates with offset and limit', async () => {
+      // Input: limit=1 with offset 0 then 1
+      // Expected status code: 200
+      // Expected output: two different notes, total unchanged between pages
+      const first = await search({ query: 'invoice meeting grocery', limit: 1 });
+      const second = await search({ query: 'invoice meeting grocery', limit: 1, offset: 1 });
+
+      expect(first.body.data.notes).toHaveLength(1);
+      expect(second.body.data.notes).toHaveLength(1);
+      expect(second.body.data.offset).toBe(1);
+      expect(second.body.data.total).toBe(first.body.data.total);
+      expect(second.body.data.notes[0]._id).not.toBe(first.body.data.notes[0]._id);
+    });
+
+    test('400 – rejects invalid hybrid parameters', async () => {
+      // Input: missing query, out of range minScore, negative offset, unknown mode
+      // Expected status code: 400
+      expect((await search({})).body.error).toBe('query is required for hybrid search');
+      expect((await search({ query: 'x', minScore: 2 })).body.error).toBe('minScore must be a number between 0 and 1');
+      expect((await search({ query: 'x', offset: -1 })).body.error).toBe('offset must be a non-negative integer');
+      expect((await search({ query: 'x', mode: 'fuzzy' })).status).toBe(400);
+    });
+  });
+
+  describe('GET /api/notes/search - Search All Workspaces', () => {
+    let secondWorkspaceId: string;
+
+    const createNote = (token: string, workspaceId: string, noteType: NoteType, tags: string[], title: string) =>
+      request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ workspaceId, noteType, tags, fields: [{ fieldType: 'title', content: title, _id: '1' }] });
+
+    beforeEach(async () => {
+      await noteModel.createIndexes();
+
+      const second = await workspaceModel.create({
+        name: 'Second Workspace',
+        profile: { imagePath: '', name: 'Second Workspace', description: '' },
+        ownerId: new mongoose.Types.ObjectId(testData.testUserId),
+        members: [new mongoose.Types.ObjectId(testData.testUserId)],
+      });
+      secondWorkspaceId = second._id.toString();
+
+      await createNote(testData.testUserToken, testData.testWorkspaceId, NoteType.CONTENT, ['billing'], 'Invoice INV-2024-001');
+      await createNote(testData.testUserToken, secondWorkspaceId, NoteType.CHAT, ['billing', 'chat'], 'Invoice follow-up');
+      await createNote(testData.testUserToken, secondWorkspaceId, NoteType.CONTENT, [], 'Holiday plans');
+      await createNote(testData.testUser2Token, testData.testWorkspace2Id, NoteType.CONTENT, ['billing'], 'Invoice of someone else');
+      await processEmbeddingJobs();
+    });
+
+    test('200 – merges notes of every note type from all member workspaces', async () => {
+      // Input: query only, no workspaceId or noteType
+      // Expected status code: 200
+      // Expected output: both invoice notes of the user with their workspace names, never another user's note
+      const res = await request(app)
+        .get('/api/notes/search')
+        .query({ query: 'invoice' })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      const titles = res.body.data.notes.map((note: { fields: { content: string }[] }) => note.fields[0].content);
+      expect(titles).toEqual(expect.arrayContaining(['Invoice INV-2024-001', 'Invoice follow-up']));
+      expect(titles).not.toContain('Invoice of someone else');
+
+      const followUp = res.body.data.notes.find(
+        (note: { fields: { content: string }[] }) => note.fields[0].content === 'Invoice follow-up'
+      );
+      expect(followUp.workspaceId).toBe(secondWorkspaceId);
+      expect(followUp.workspaceName).toBe('Second Workspace');
+      expect(followUp.noteType).toBe(NoteType.CHAT);
+      expect(followUp.vectorData).toBeUndefined();
+      expect(res.body.data.facets).toBeUndefined();
+    });
+
+    test('200 – returns facets over all hits when requested', async () => {
+      // Input: facets=true with limit=1
+      // Expected status code: 200
+      // Expected output: counts per workspace, tag and note type cover every hit, not only the page
+      const res = await request(app)
+        .get('/api/notes/search')
+        .query({ query: 'invoice', facets: 'true', limit: 1 })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.notes).toHaveLength(1);
+      const { facets, total } = res.body.data;
+      const facetTotal = facets.workspaces.reduce((sum: number, facet: { count: number }) => sum + facet.count, 0);
+      expect(facetTotal).toBe(total);
+      expect(facets.tags).toContainEqual({ tag: 'billing', count: 2 });
+      expect(facets.noteTypes).toEqual(expect.arrayContaining([
+        { noteType: NoteType.CONTENT, count: expect.any(Number) },
+        { noteType: NoteType.CHAT, count: 1 },
+      ]));
+      expect(facets.workspaces).toContainEqual({
+        workspaceId: secondWorkspaceId,
+        workspaceName: 'Second Workspace',
+        count: expect.any(Number),
+      });
+    });
+
+    test('400 – query is required', async () => {
+      // Input: no query param
+      // Expected status code: 400
+      const res = await request(app)
+        .get('/api/notes/search')
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(400);
     });
   });
 
@@ -762,10 +1585,14 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
     });
 
     test('403 – cannot share another user\'s note (not owner)', async () => {
-      // Input: noteId of another user's note, workspaceId, different userId
+      // Input: noteId of another user's note, workspaceId, userId of a fellow member
       // Expected status code: 403
       // Expected behavior: error message returned due to ownership check
       // Expected output: error message
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+        $push: { members: new mongoose.Types.ObjectId(testData.testUser2Id) },
+      });
+
       const res = await request(app)
         .post(`/api/notes/${noteId}/share`)
         .set('Authorization', `Bearer ${testData.testUser2Token}`)
@@ -892,6 +1719,25 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
       expect(res.body.error).toBe('workspaceId is required');
     });
 
+    test('400 – refuses to copy a note whose stored fields are invalid', async () => {
+      // Input: noteId of a note stored with a non-conforming field, valid workspaceId
+      // Expected status code: 400
+      // Expected behavior: field schema is enforced on the source note, no copy is created
+      // Expected output: error message starting with "Invalid note fields"
+      await noteModel.findByIdAndUpdate(noteId, {
+        fields: [{ fieldType: 'datetime', content: 'garbage', _id: '1' }],
+      });
+
+      const res = await request(app)
+        .post(`/api/notes/${noteId}/copy`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ workspaceId: testData.testWorkspaceId });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain('Invalid note fields');
+      expect(await noteModel.countDocuments({ workspaceId: testData.testWorkspaceId })).toBe(1);
+    });
+
     test('401 – returns 401 when user._id is not set (copyNoteToWorkspace)', async () => {
       // Input: request without authentication token
       // Expected status code: 401
@@ -935,17 +1781,300 @@ describe('Notes API – Normal Tests (No Mocking)', () => {
       expect(res.body.data.workspaceId).toBe(testData.testWorkspaceId);
     });
 
-    test('500 – note does not exist', async () => {
+    test('404 – note does not exist', async () => {
       // Input: fake noteId that doesn't exist
-      // Expected status code: 500
-      // Expected behavior: database error
-      // Expected output: None
+      // Expected status code: 404
+      // Expected behavior: the authorization layer finds no note to check
+      // Expected output: error message
       const fakeNoteId = new mongoose.Types.ObjectId().toString();
       const res = await request(app).get(`/api/notes/${fakeNoteId}/workspaces`).set('Authorization', `Bearer ${testData.testUserToken}`);
 
-      expect(res.status).toBe(500);
-      expect(res.body.error).toBeDefined();
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Note not found');
     });
   });
-});
 
+  describe('GET /api/notes/:id/related - Related Notes', () => {
+    let groceryId: string;
+    let otherWorkspaceId: string;
+
+    const createNote = async (workspaceId: string, title: string, noteType: NoteType = NoteType.CONTENT) => {
+      const res = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ workspaceId, noteType, tags: [], fields: [{ fieldType: 'title', content: title, _id: '1' }] });
+      return res.body.data.note._id as string;
+    };
+
+    const related = (noteId: string, query: Record<string, string | number> = {}, token = testData.testUserToken) =>
+      request(app)
+        .get(`/api/notes/${noteId}/related`)
+        .query(query)
+        .set('Authorization', `Bearer ${token}`);
+
+    beforeEach(async () => {
+      const other = await workspaceModel.create({
+        name: 'Other Workspace',
+        profile: { imagePath: '', name: 'Other Workspace', description: '' },
+        ownerId: new mongoose.Types.ObjectId(testData.testUserId),
+        members: [new mongoose.Types.ObjectId(testData.testUserId)],
+      });
+      otherWorkspaceId = other._id.toString();
+
+      groceryId = await createNote(testData.testWorkspaceId, 'Grocery list apples bread');
+      await createNote(testData.testWorkspaceId, 'Grocery list apples milk');
+      await createNote(testData.testWorkspaceId, 'Quarterly budget review');
+      await createNote(testData.testWorkspaceId, 'Grocery list apples butter', NoteType.CHAT);
+      await createNote(otherWorkspaceId, 'Grocery list apples bread and cheese');
+      await processEmbeddingJobs();
+    });
+
+    test('200 – nearest notes of the same workspace and type, most similar first', async () => {
+      // Input: noteId of the bread grocery list
+      // Expected status code: 200
+      // Expected output: the milk grocery list first with a score, never the note itself,
+      // notes of other types or workspaces
+      const res = await related(groceryId);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Related notes retrieved successfully');
+      expect(res.body.data.embeddingStatus).toBe('ready');
+      const titles = res.body.data.notes.map((note: { fields: { content: string }[] }) => note.fields[0].content);
+      expect(titles[0]).toBe('Grocery list apples milk');
+      expect(titles).not.toContain('Grocery list apples bread');
+      expect(titles).not.toContain('Grocery list apples butter');
+      expect(titles).not.toContain('Grocery list apples bread and cheese');
+      expect(typeof res.body.data.notes[0].score).toBe('number');
+      expect(res.body.data.notes[0].workspaceName).toBe('Test Workspace');
+      expect(res.body.data.notes[0].vectorData).toBeUndefined();
+    });
+
+    test('200 – scope=all looks through every workspace of the user and honours limit', async () => {
+      // Input: scope=all, limit=1
+      // Expected status code: 200
+      // Expected output: the closest note overall, from the other workspace
+      const res = await related(groceryId, { scope: 'all', limit: 1 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.notes).toHaveLength(1);
+      expect(res.body.data.notes[0].workspaceId).toBe(otherWorkspaceId);
+      expect(res.body.data.notes[0].workspaceName).toBe('Other Workspace');
+    });
+
+    test('200 – notes without a vector yet have no related notes', async () => {
+      // Input: noteId of a note the embedding worker has not processed
+      // Expected status code: 200
+      // Expected output: empty list and the pending status of the note
+      const pendingId = await createNote(testData.testWorkspaceId, 'Grocery list apples');
+
+      const res = await related(pendingId);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.notes).toEqual([]);
+      expect(res.body.data.embeddingStatus).toBe('pending');
+    });
+
+    test('400 – rejects an invalid limit or scope', async () => {
+      // Input: limit=0, then scope=everything
+      // Expected status code: 400
+      expect((await related(groceryId, { limit: 0 })).body.error).toBe('limit must be a positive integer');
+      expect((await related(groceryId, { scope: 'everything' })).body.error).toBe('scope must be workspace or all');
+    });
+
+    test('403 – non-members cannot see related notes', async () => {
+      // Input: token of a user outside the workspace
+      // Expected status code: 403
+      const res = await related(groceryId, {}, testData.testUser2Token);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('Note revisions - History, diff and restore', () => {
+    let noteId: string;
+
+    beforeEach(async () => {
+      const create = await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: ['draft'],
+          fields: [
+            { fieldType: 'title', content: 'Original', _id: '1' },
+            { fieldType: 'textbox', content: 'Keep me', _id: '2' },
+          ],
+        });
+      noteId = create.body.data.note._id;
+
+      await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          tags: ['final'],
+          fields: [
+            { fieldType: 'title', content: 'Clobbered', _id: '1' },
+            { fieldType: 'checkbox', content: true, _id: '3' },
+          ],
+        });
+    });
+
+    test('200 – every update stores the replaced content as a revision', async () => {
+      // Input: noteId of a note that was updated once
+      // Expected status code: 200
+      // Expected behavior: the pre-update fields and tags are kept with their author
+      // Expected output: a single revision 1 holding the original content
+      const res = await request(app)
+        .get(`/api/notes/${noteId}/revisions`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Note revisions retrieved successfully');
+      expect(res.body.data.revisions).toHaveLength(1);
+      expect(res.body.data.revisions[0].revision).toBe(1);
+      expect(res.body.data.revisions[0].authorId).toBe(testData.testUserId);
+      expect(res.body.data.revisions[0].tags).toEqual(['draft']);
+      expect(res.body.data.revisions[0].fields[0].content).toBe('Original');
+      expect(res.body.data.revisions[0].createdAt).toBeDefined();
+    });
+
+    test('200 – diffs a revision against the current content', async () => {
+      // Input: from=1, no to
+      // Expected status code: 200
+      // Expected behavior: fields are matched by _id, tags are compared as sets
+      // Expected output: changed title, removed textbox, added checkbox and tag changes
+      const res = await request(app)
+        .get(`/api/notes/${noteId}/revisions/diff?from=1`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.diff.from).toBe(1);
+      expect(res.body.data.diff.to).toBe(2);
+      const changes = Object.fromEntries(
+        res.body.data.diff.fields.map((field: { fieldId: string; change: string }) => [field.fieldId, field.change])
+      );
+      expect(changes).toEqual({ '1': 'changed', '2': 'removed', '3': 'added' });
+      expect(res.body.data.diff.tagsAdded).toEqual(['final']);
+      expect(res.body.data.diff.tagsRemoved).toEqual(['draft']);
+    });
+
+    test('400 – diff without a from revision', async () => {
+      // Input: no query parameters
+      // Expected status code: 400
+      const res = await request(app)
+        .get(`/api/notes/${noteId}/revisions/diff`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(400);
+    });
+
+    test('404 – diff against a revision that does not exist', async () => {
+      // Input: from=7 on a note with two revisions
+      // Expected status code: 404
+      const res = await request(app)
+        .get(`/api/notes/${noteId}/revisions/diff?from=7`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Revision not found');
+    });
+
+    test('200 – restores an old revision and keeps the replaced content', async () => {
+      // Input: revision 1 in URL
+      // Expected status code: 200
+      // Expected behavior: the note gets revision 1 content back as a new revision 3
+      // Expected output: restored note, two stored revisions
+      const res = await request(app)
+        .post(`/api/notes/${noteId}/revisions/1/restore`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Note revision restored successfully');
+      expect(res.body.data.note.revision).toBe(3);
+      expect(res.body.data.note.tags).toEqual(['draft']);
+      expect(res.body.data.note.fields[1].content).toBe('Keep me');
+
+      const stored = await noteRevisionModel.find({ noteId }).sort({ revision: 1 });
+      expect(stored.map(revision => revision.revision)).toEqual([1, 2]);
+      expect(stored[1].tags).toEqual(['final']);
+    });
+
+    test('404 – restoring a revision that does not exist', async () => {
+      // Input: revision 9 in URL
+      // Expected status code: 404
+      const res = await request(app)
+        .post(`/api/notes/${noteId}/revisions/9/restore`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Revision not found');
+    });
+
+    test('403 – non-members cannot read the history', async () => {
+      // Input: token of a user outside the note's workspace
+      // Expected status code: 403
+      const res = await request(app)
+        .get(`/api/notes/${noteId}/revisions`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`);
+
+      expect(res.status).toBe(403);
+    });
+
+    test('prunes the oldest revisions beyond the workspace limit', async () => {
+      // Input: workspace limited to 2 revisions, three more updates
+      // Expected behavior: only the two newest revisions remain
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, { revisionLimit: 2 });
+
+      for (const content of ['Second', 'Third', 'Fourth']) {
+        await request(app)
+          .put(`/api/notes/${noteId}`)
+          .set('Authorization', `Bearer ${testData.testUserToken}`)
+          .send({ tags: [], fields: [{ fieldType: 'title', content, _id: '1' }] });
+      }
+
+      const stored = await noteRevisionModel.find({ noteId }).sort({ revision: 1 });
+      expect(stored.map(revision => revision.revision)).toEqual([3, 4]);
+    });
+
+    test('revisions are kept while the note is in the trash', async () => {
+      // Input: delete the note
+      // Expected behavior: history survives so a restored note keeps it
+      await request(app)
+        .delete(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(await noteRevisionModel.countDocuments({ noteId })).toBe(1);
+    });
+  });
+
+  describe('findNonConformingNotes - Stored note validation pass', () => {
+    test('reports only the notes whose fields do not match the schema', async () => {
+      // Input: one valid note and one note stored with an unknown fieldType
+      // Expected behavior: the validation pass reads every note without modifying it
+      // Expected output: a report entry for the invalid note with the offending path
+      const userId = new mongoose.Types.ObjectId(testData.testUserId);
+      await noteModel.create({
+        userId,
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        tags: [],
+        fields: [{ fieldType: 'title', content: 'Valid', _id: '1' }],
+      });
+      const invalid = await noteModel.create({
+        userId,
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        tags: [],
+        fields: [{ fieldType: 'title', content: 'Ok', _id: '1' }, { fieldType: 'mystery', _id: '2' }],
+      });
+
+      const report = await findNonConformingNotes();
+
+      expect(report).toHaveLength(1);
+      expect(report[0].noteId).toBe(invalid._id.toString());
+      expect(report[0].workspaceId).toBe(testData.testWorkspaceId);
+      expect(report[0].issues.map(issue => issue.field)).toContain('fields.1.fieldType');
+    });
+  });
+});
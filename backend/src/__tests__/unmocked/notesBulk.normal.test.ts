@@ -0,0 +1,188 @@
+/// <reference types="jest" />
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+import { NoteType } from '../../notes/notes.types';
+import { noteModel } from '../../notes/note.model';
+import { workspaceModel } from '../../workspaces/workspace.model';
+import { tagModel } from '../../tags/tag.model';
+import { templateVersionModel } from '../../templates/template.model';
+import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
+
+// ---------------------------
+// Test suite
+// ---------------------------
+describe('Bulk Notes – Normal Tests (No Mocking)', () => {
+  let mongo: MongoMemoryServer;
+  let testData: TestData;
+  let app: ReturnType<typeof createTestApp>;
+  let noteIds: string[];
+
+  // Ensure OPENAI_API_KEY is loaded
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is required for tests');
+  }
+
+  // Spin up in-memory Mongo
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    const uri = mongo.getUri();
+    await mongoose.connect(uri);
+    console.log('✅ Connected to in-memory MongoDB');
+
+    // Create app after DB connection
+    app = createTestApp();
+  });
+
+  // Tear down DB
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo.stop({ doCleanup: true, force: true });
+  });
+
+  const createNote = async (token: string, workspaceId: string, title: string, tags: string[] = []) => {
+    const res = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        workspaceId,
+        noteType: NoteType.CONTENT,
+        tags,
+        fields: [{ fieldType: 'title', content: title, _id: '1' }],
+      });
+    return res.body.data.note._id as string;
+  };
+
+  const bulk = (body: object, token = testData.testUserToken) =>
+    request(app).post('/api/notes/bulk').set('Authorization', `Bearer ${token}`).send(body);
+
+  // Fresh DB state and two notes of the first user before each test
+  beforeEach(async () => {
+    testData = await setupTestDatabase(app);
+    noteIds = [
+      await createNote(testData.testUserToken, testData.testWorkspaceId, 'First', ['work']),
+      await createNote(testData.testUserToken, testData.testWorkspaceId, 'Second'),
+    ];
+  });
+
+  test('200 – adds and removes tags on every note', async () => {
+    // Input: addTags then removeTags over both notes
+    // Expected status code: 200
+    // Expected behavior: tags and workspace tag counts follow, notes already tagged are left alone
+    const added = await bulk({ operation: 'addTags', noteIds, tags: ['work', 'urgent'] });
+
+    expect(added.status).toBe(200);
+    expect(added.body.data.succeeded).toBe(2);
+    expect(added.body.data.results[0].note.tags).toEqual(['work', 'urgent']);
+    expect(added.body.data.results[1].note.tags).toEqual(['work', 'urgent']);
+    expect(added.body.data.results[0].note.vectorData).toBeUndefined();
+    expect((await tagModel.findOne({ workspaceId: testData.testWorkspaceId, name: 'urgent' }))?.noteCount).toBe(2);
+
+    const removed = await bulk({ operation: 'removeTags', noteIds, tags: ['work'] });
+
+    expect(removed.status).toBe(200);
+    expect((await noteModel.findById(noteIds[0]))?.tags).toEqual(['urgent']);
+    expect((await tagModel.findOne({ workspaceId: testData.testWorkspaceId, name: 'work' }))?.noteCount).toBe(0);
+  });
+
+  test('200 – moves, copies, retypes and deletes notes', async () => {
+    // Input: each of the other operations over both notes
+    // Expected status code: 200
+    // Expected behavior: the notes end up where the operation puts them
+    await workspaceModel.findByIdAndUpdate(testData.testWorkspace2Id, {
+      $push: { members: new mongoose.Types.ObjectId(testData.testUserId) },
+    });
+
+    const copied = await bulk({ operation: 'copy', noteIds, workspaceId: testData.testWorkspace2Id });
+    expect(copied.body.data.succeeded).toBe(2);
+    expect(copied.body.data.results[0].note._id).not.toBe(noteIds[0]);
+
+    const moved = await bulk({ operation: 'move', noteIds, workspaceId: testData.testWorkspace2Id });
+    expect(moved.body.data.succeeded).toBe(2);
+    expect(await noteModel.countDocuments({ workspaceId: testData.testWorkspace2Id })).toBe(4);
+
+    const retyped = await bulk({ operation: 'changeNoteType', noteIds, noteType: NoteType.CHAT });
+    expect(retyped.body.data.succeeded).toBe(2);
+    expect((await noteModel.findById(noteIds[1]))?.noteType).toBe(NoteType.CHAT);
+
+    const deleted = await bulk({ operation: 'delete', noteIds });
+    expect(deleted.body.data.succeeded).toBe(2);
+    expect((await noteModel.findById(noteIds[0]))?.deletedAt).toBeInstanceOf(Date);
+  });
+
+  test('200 – a note can become a template again', async () => {
+    // Input: changeNoteType to TEMPLATE, back to CONTENT and to TEMPLATE again
+    // Expected status code: 200
+    // Expected behavior: the second switch starts a new template version instead of reusing the first one
+    // Expected output: every switch succeeds, one snapshot per template version
+    const toTemplate = () => bulk({ operation: 'changeNoteType', noteIds: [noteIds[0]], noteType: NoteType.TEMPLATE });
+
+    expect((await toTemplate()).body.data.succeeded).toBe(1);
+    const back = await bulk({ operation: 'changeNoteType', noteIds: [noteIds[0]], noteType: NoteType.CONTENT });
+    expect(back.body.data.succeeded).toBe(1);
+    const again = await toTemplate();
+
+    expect(again.status).toBe(200);
+    expect(again.body.data.succeeded).toBe(1);
+    expect(again.body.data.results[0].note.noteType).toBe(NoteType.TEMPLATE);
+    expect(again.body.data.results[0].note.version).toBe(2);
+    const versions = await templateVersionModel.find({ templateId: noteIds[0] }).sort({ version: 1 });
+    expect(versions.map(version => version.version)).toEqual([1, 2]);
+  });
+
+  test('200 – notes the user may not change fail on their own', async () => {
+    // Input: own notes plus a note of another user and an unknown id
+    // Expected status code: 200
+    // Expected output: the own notes succeed, the others fail with their reason
+    const otherId = await createNote(testData.testUser2Token, testData.testWorkspace2Id, 'Not mine');
+    const unknownId = new mongoose.Types.ObjectId().toString();
+
+    const res = await bulk({ operation: 'delete', noteIds: [...noteIds, otherId, unknownId] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ operation: 'delete', succeeded: 2, failed: 2, skipped: 0 });
+    expect(res.body.data.results[2]).toEqual({
+      noteId: otherId,
+      status: 'failed',
+      error: 'Access denied: Only the note owner can change notes in bulk',
+    });
+    expect(res.body.data.results[3].error).toBe('Note not found');
+    expect((await noteModel.findById(otherId))?.deletedAt).toBeNull();
+  });
+
+  test('200 – atomic requests apply nothing when a note fails its check', async () => {
+    // Input: atomic delete naming a note of another user
+    // Expected status code: 200
+    // Expected behavior: the own notes are skipped and stay live
+    const otherId = await createNote(testData.testUser2Token, testData.testWorkspace2Id, 'Not mine');
+
+    const res = await bulk({ operation: 'delete', noteIds: [...noteIds, otherId], atomic: true });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ succeeded: 0, failed: 1, skipped: 2 });
+    expect(await noteModel.countDocuments({ _id: { $in: noteIds }, deletedAt: null })).toBe(2);
+  });
+
+  test('403 – moving into a workspace the user is not a member of', async () => {
+    // Input: move to the second user's workspace
+    // Expected status code: 403
+    // Expected behavior: no note is moved
+    const res = await bulk({ operation: 'move', noteIds, workspaceId: testData.testWorkspace2Id });
+
+    expect(res.status).toBe(403);
+    expect(await noteModel.countDocuments({ workspaceId: testData.testWorkspaceId })).toBe(2);
+  });
+
+  test('400 – invalid bulk requests', async () => {
+    // Input: an unknown operation, then addTags without tags
+    // Expected status code: 400
+    const unknown = await bulk({ operation: 'archive', noteIds });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.error).toBe('Validation error');
+
+    const missingTags = await bulk({ operation: 'addTags', noteIds });
+    expect(missingTags.status).toBe(400);
+  });
+});
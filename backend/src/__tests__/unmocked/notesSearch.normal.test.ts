@@ -0,0 +1,61 @@
+/// <reference types="jest" />
+import { fuseRankings, getQueryTerms, highlightFields } from '../../notes/notes.search';
+import { Field } from '../../notes/notes.types';
+
+const fieldText = (field: Field): string =>
+  'content' in field && typeof field.content === 'string' ? field.content : '';
+
+describe('Hybrid search helpers', () => {
+  describe('fuseRankings - Reciprocal rank fusion', () => {
+    test('notes found by both rankings outrank notes found by one', () => {
+      // Input: "b" is second in both rankings, "a" and "c" are first in only one
+      // Expected output: "b" first, the top note of both rankings would score exactly 1
+      const fused = fuseRankings({ keyword: ['a', 'b'], semantic: ['c', 'b'] });
+
+      expect(fused[0]).toEqual({ id: 'b', score: expect.any(Number), matchedBy: ['keyword', 'semantic'] });
+      expect(fused.map(hit => hit.id).sort()).toEqual(['a', 'b', 'c']);
+      expect(fuseRankings({ keyword: ['x'], semantic: ['x'] })[0].score).toBeCloseTo(1);
+    });
+
+    test('a single top rank scores one half', () => {
+      // Input: "a" only in the keyword ranking
+      // Expected output: score 0.5, matched by keyword only
+      const [hit] = fuseRankings({ keyword: ['a'], semantic: [] });
+
+      expect(hit.score).toBeCloseTo(0.5);
+      expect(hit.matchedBy).toEqual(['keyword']);
+    });
+  });
+
+  describe('highlightFields - Match highlights', () => {
+    const fields: Field[] = [
+      { _id: '1', fieldType: 'title', label: 'Title', content: 'Invoice INV-2024-001 for ACME' },
+      { _id: '2', fieldType: 'textbox', label: 'Ticket', content: 'Nothing relevant here' },
+      { _id: '3', fieldType: 'checkbox', label: 'Paid invoice', content: true },
+    ];
+
+    test('reports every field whose content or label matched', () => {
+      // Input: identifier query
+      // Expected output: the title by content, the checkbox by its label, offsets pointing at the match
+      const highlights = highlightFields(fields, 'inv-2024-001', fieldText);
+
+      expect(highlights).toHaveLength(1);
+      const [title] = highlights;
+      expect(title.fieldId).toBe('1');
+      expect(title.snippet.slice(title.ranges[0].start, title.ranges[0].end)).toBe('INV-2024-001');
+
+      const byLabel = highlightFields(fields, 'invoice', fieldText);
+      expect(byLabel.map(highlight => highlight.fieldId)).toEqual(['1', '3']);
+      expect(byLabel[1].snippet).toBe('Paid invoice');
+    });
+
+    test('merges overlapping ranges and strips search operators', () => {
+      // Input: quoted and negated terms overlapping in the same word
+      // Expected output: plain lower-case terms and one merged range
+      expect(getQueryTerms('"Invoice" -inv')).toEqual(['invoice', 'inv']);
+
+      const [title] = highlightFields(fields, '"Invoice" -inv', fieldText);
+      expect(title.ranges[0]).toEqual({ start: 0, end: 7 });
+    });
+  });
+});
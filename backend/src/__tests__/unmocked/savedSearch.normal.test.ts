@@ -0,0 +1,252 @@
+/// <reference types="jest" />
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+import { NoteType } from '../../notes/notes.types';
+import { noteModel } from '../../notes/note.model';
+import { userModel } from '../../users/user.model';
+import { workspaceModel } from '../../workspaces/workspace.model';
+import { savedSearchModel } from '../../savedSearches/savedSearch.model';
+import { notifySavedSearchMatches } from '../../savedSearches/savedSearch.watcher';
+import { notificationService } from '../../notifications/notification.service';
+import { processEmbeddingJobs } from '../../embeddings/embedding.worker';
+import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
+
+// ---------------------------
+// Test suite
+// ---------------------------
+describe('Saved Searches – Normal Tests (No Mocking)', () => {
+  let mongo: MongoMemoryServer;
+  let testData: TestData;
+  let app: ReturnType<typeof createTestApp>;
+
+  // Ensure OPENAI_API_KEY is loaded
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is required for tests');
+  }
+
+  // Spin up in-memory Mongo
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    const uri = mongo.getUri();
+    await mongoose.connect(uri);
+    console.log('✅ Connected to in-memory MongoDB');
+
+    // Create app after DB connection
+    app = createTestApp();
+  });
+
+  // Tear down DB
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo.stop({ doCleanup: true, force: true });
+  });
+
+  // Fresh DB state before each test
+  beforeEach(async () => {
+    testData = await setupTestDatabase(app);
+  });
+
+  const createNote = async (token: string, title: string, tags: string[] = []) => {
+    const res = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        tags,
+        fields: [{ fieldType: 'title', content: title, _id: '1' }],
+      });
+    return res.body.data.note._id as string;
+  };
+
+  const createSavedSearch = (token: string, body: Record<string, unknown>) =>
+    request(app)
+      .post('/api/saved-searches')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT, ...body });
+
+  describe('CRUD', () => {
+    test('201 – creates a saved search with defaults', async () => {
+      // Input: name, workspaceId, noteType and query
+      // Expected status code: 201
+      // Expected output: the saved search without its query vector
+      const res = await createSavedSearch(testData.testUserToken, { name: 'Groceries', query: 'apples' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.message).toBe('Saved search created successfully');
+      expect(res.body.data.savedSearch).toMatchObject({
+        name: 'Groceries',
+        query: 'apples',
+        tags: [],
+        tagMode: 'any',
+        notify: false,
+        userId: testData.testUserId,
+      });
+      expect(res.body.data.savedSearch.queryVector).toBeUndefined();
+
+      const stored = await savedSearchModel.findById(res.body.data.savedSearch._id);
+      expect(stored?.queryVector.length).toBeGreaterThan(0);
+    });
+
+    test('400 – notifications need a query', async () => {
+      // Input: notify true with an empty query
+      // Expected status code: 400
+      const res = await createSavedSearch(testData.testUserToken, { name: 'Everything', notify: true });
+
+      expect(res.status).toBe(400);
+    });
+
+    test('403 – cannot save a search in a workspace the user is not a member of', async () => {
+      // Input: workspace owned by user 1, token of user 2
+      // Expected status code: 403
+      const res = await createSavedSearch(testData.testUser2Token, { name: 'Peek' });
+
+      expect(res.status).toBe(403);
+    });
+
+    test('409 – names are unique per user', async () => {
+      // Input: two saved searches with the same name
+      // Expected status code: 409
+      await createSavedSearch(testData.testUserToken, { name: 'Groceries' });
+      const res = await createSavedSearch(testData.testUserToken, { name: 'Groceries' });
+
+      expect(res.status).toBe(409);
+      expect(res.body.error).toBe('Saved search name already in use');
+    });
+
+    test('200 – lists, updates and deletes own saved searches', async () => {
+      // Input: GET, PUT and DELETE on /api/saved-searches
+      // Expected status code: 200
+      // Expected behavior: changes are persisted and the search is gone after DELETE
+      const created = await createSavedSearch(testData.testUserToken, { name: 'Groceries', query: 'apples' });
+      const id = created.body.data.savedSearch._id;
+
+      const list = await request(app)
+        .get('/api/saved-searches')
+        .query({ workspaceId: testData.testWorkspaceId })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(list.status).toBe(200);
+      expect(list.body.data.savedSearches).toHaveLength(1);
+
+      const updated = await request(app)
+        .put(`/api/saved-searches/${id}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ name: 'Fruit', notify: true });
+      expect(updated.status).toBe(200);
+      expect(updated.body.data.savedSearch).toMatchObject({ name: 'Fruit', notify: true });
+
+      const deleted = await request(app)
+        .delete(`/api/saved-searches/${id}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(deleted.status).toBe(200);
+      expect(await savedSearchModel.findById(id)).toBeNull();
+    });
+
+    test('404 – saved searches of other users are not visible', async () => {
+      // Input: saved search of user 1, token of user 2
+      // Expected status code: 404
+      const created = await createSavedSearch(testData.testUserToken, { name: 'Groceries' });
+
+      const res = await request(app)
+        .get(`/api/saved-searches/${created.body.data.savedSearch._id}`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`);
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Saved search not found');
+    });
+  });
+
+  describe('GET /api/saved-searches/:id/results', () => {
+    test('200 – runs the saved filters and query', async () => {
+      // Input: saved search with a tag filter
+      // Expected status code: 200
+      // Expected output: only the notes carrying the tag, without vectorData
+      const tagged = await createNote(testData.testUserToken, 'Buy apples', ['shopping']);
+      await createNote(testData.testUserToken, 'Buy pears', ['other']);
+      const created = await createSavedSearch(testData.testUserToken, { name: 'Shopping', tags: ['shopping'] });
+
+      const res = await request(app)
+        .get(`/api/saved-searches/${created.body.data.savedSearch._id}/results`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.notes.map((note: { _id: string }) => note._id)).toEqual([tagged]);
+      expect(res.body.data.notes[0].vectorData).toBeUndefined();
+      expect(res.body.data.nextCursor).toBeNull();
+    });
+  });
+
+  describe('notifySavedSearchMatches - New match notifications', () => {
+    beforeEach(async () => {
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+        $push: { members: new mongoose.Types.ObjectId(testData.testUser2Id) },
+      });
+      await userModel.updateFcmToken(new mongoose.Types.ObjectId(testData.testUser2Id), 'test-fcm-token-456');
+    });
+
+    test('notifies the owner of a matching saved search', async () => {
+      // Input: user 2 watches "grocery apples", user 1 adds a matching note
+      // Expected behavior: one push notification to user 2 and lastNotifiedAt is set
+      const sendNotificationSpy = jest.spyOn(notificationService, 'sendNotification').mockResolvedValue(true);
+      const created = await createSavedSearch(testData.testUser2Token, {
+        name: 'Groceries',
+        query: 'grocery apples',
+        notify: true,
+        minScore: 0.2,
+      });
+      const noteId = await createNote(testData.testUserToken, 'Grocery list: apples and bananas');
+      await processEmbeddingJobs();
+
+      const sent = await notifySavedSearchMatches(await noteModel.findById(noteId).orFail());
+
+      expect(sent).toBe(1);
+      expect(sendNotificationSpy).toHaveBeenCalledWith(
+        'test-fcm-token-456',
+        'New match for "Groceries"',
+        'Grocery list: apples and bananas',
+        expect.objectContaining({ type: 'saved_search_match', noteId })
+      );
+      const stored = await savedSearchModel.findById(created.body.data.savedSearch._id);
+      expect(stored?.lastNotifiedAt).toBeInstanceOf(Date);
+
+      sendNotificationSpy.mockRestore();
+    });
+
+    test('skips notes below minScore, outside the tag filter or by the owner', async () => {
+      // Input: saved searches that each fail one condition
+      // Expected behavior: no notifications are sent
+      const sendNotificationSpy = jest.spyOn(notificationService, 'sendNotification').mockResolvedValue(true);
+      await createSavedSearch(testData.testUser2Token, {
+        name: 'Strict',
+        query: 'grocery apples',
+        notify: true,
+        minScore: 0.99,
+      });
+      await createSavedSearch(testData.testUser2Token, {
+        name: 'Tagged',
+        query: 'grocery apples',
+        tags: ['shopping'],
+        notify: true,
+        minScore: 0,
+      });
+      await createSavedSearch(testData.testUserToken, {
+        name: 'Own',
+        query: 'grocery apples',
+        notify: true,
+        minScore: 0,
+      });
+      const noteId = await createNote(testData.testUserToken, 'Grocery list: apples and bananas');
+      await processEmbeddingJobs();
+
+      const sent = await notifySavedSearchMatches(await noteModel.findById(noteId).orFail());
+
+      expect(sent).toBe(0);
+      expect(sendNotificationSpy).not.toHaveBeenCalled();
+
+      sendNotificationSpy.mockRestore();
+    });
+  });
+});
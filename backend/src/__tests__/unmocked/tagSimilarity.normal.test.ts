@@ -0,0 +1,64 @@
+/// <reference types="jest" />
+import { getTagKey, getTagStringSimilarity, groupDuplicateTags } from '../../tags/tag.similarity';
+
+const thresholds = { string: 0.8, semantic: 0.85 };
+
+describe('Tag similarity – Near-duplicate tag detection', () => {
+  test('tags differing in case, accents or punctuation share a key', () => {
+    // Input: spelling variants of the same tag
+    // Expected output: one key for all of them
+    expect(['TODO', 'to-do', 'To Do', 'todo'].map(getTagKey)).toEqual(['todo', 'todo', 'todo', 'todo']);
+    expect(getTagKey('Café')).toBe('cafe');
+  });
+
+  test('string similarity follows the edit distance of the keys', () => {
+    // Input: same key, one edit apart, unrelated
+    // Expected output: 1, between the threshold and 1, well below the threshold
+    expect(getTagStringSimilarity('TODO', 'to-do')).toBe(1);
+    expect(getTagStringSimilarity('meeting', 'meetings')).toBeCloseTo(7 / 8);
+    expect(getTagStringSimilarity('ui', 'ux')).toBe(0.5);
+  });
+
+  test('groups chained matches and suggests the most used spelling', () => {
+    // Input: todo variants, an unrelated tag and a semantic pair
+    // Expected output: two groups; the todo group led by its most used spelling
+    const groups = groupDuplicateTags(
+      [
+        { tag: 'todo', count: 2 },
+        { tag: 'TODO', count: 5 },
+        { tag: 'todos', count: 1 },
+        { tag: 'budget', count: 4 },
+        { tag: 'invoice', count: 3 },
+        { tag: 'bill', count: 1 },
+      ],
+      new Map([
+        ['invoice', [1, 0, 0.1]],
+        ['bill', [0.95, 0.05, 0.1]],
+        ['budget', [0, 1, 0]],
+      ]),
+      thresholds
+    );
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0].suggestedTag).toBe('TODO');
+    expect(groups[0].tags.map(usage => usage.tag)).toEqual(['TODO', 'todo', 'todos']);
+    expect(groups[0].matches.every(match => match.matchedBy === 'string')).toBe(true);
+
+    expect(groups[1].suggestedTag).toBe('invoice');
+    expect(groups[1].matches).toEqual([
+      { tags: ['invoice', 'bill'], similarity: expect.any(Number), matchedBy: 'semantic' },
+    ]);
+  });
+
+  test('vectors of different lengths are never compared', () => {
+    // Input: two tags with vectors of different dimensions
+    // Expected output: no groups
+    const groups = groupDuplicateTags(
+      [{ tag: 'alpha', count: 1 }, { tag: 'omega', count: 1 }],
+      new Map([['alpha', [1, 0]], ['omega', [1, 0, 0]]]),
+      thresholds
+    );
+
+    expect(groups).toEqual([]);
+  });
+});
@@ -0,0 +1,418 @@
+/// <reference types="jest" />
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+import { NoteType } from '../../notes/notes.types';
+import { noteModel } from '../../notes/note.model';
+import { noteRevisionModel } from '../../notes/noteRevision.model';
+import { workspaceModel } from '../../workspaces/workspace.model';
+import { savedSearchModel } from '../../savedSearches/savedSearch.model';
+import { tagModel } from '../../tags/tag.model';
+import { processEmbeddingJobs } from '../../embeddings/embedding.worker';
+import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
+
+// ---------------------------
+// Test suite
+// ---------------------------
+describe('Tags – Normal Tests (No Mocking)', () => {
+  let mongo: MongoMemoryServer;
+  let testData: TestData;
+  let app: ReturnType<typeof createTestApp>;
+
+  // Ensure OPENAI_API_KEY is loaded
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is required for tests');
+  }
+
+  // Spin up in-memory Mongo
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    const uri = mongo.getUri();
+    await mongoose.connect(uri);
+    console.log('✅ Connected to in-memory MongoDB');
+
+    // Create app after DB connection
+    app = createTestApp();
+  });
+
+  // Tear down DB
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo.stop({ doCleanup: true, force: true });
+  });
+
+  // Fresh DB state before each test
+  beforeEach(async () => {
+    testData = await setupTestDatabase(app);
+  });
+
+  const createNote = async (title: string, tags: string[] = []) => {
+    const res = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${testData.testUserToken}`)
+      .send({
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        tags,
+        fields: [{ fieldType: 'title', content: title, _id: '1' }],
+      });
+    return res.body.data.note._id as string;
+  };
+
+  const addMember = async () => {
+    await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+      $push: { members: new mongoose.Types.ObjectId(testData.testUser2Id) },
+    });
+  };
+
+  describe('GET /api/notes/:id/suggested-tags - Suggested Tags', () => {
+    let untaggedId: string;
+
+    beforeEach(async () => {
+      await createNote('Grocery list apples milk', ['groceries']);
+      await createNote('Grocery list apples bread', ['groceries', 'shopping']);
+      await createNote('Quarterly budget review', ['finance']);
+      untaggedId = await createNote('Grocery list apples butter');
+      await processEmbeddingJobs();
+    });
+
+    test('200 – ranks the tags of similar notes', async () => {
+      // Input: noteId of an untagged grocery list
+      // Expected status code: 200
+      // Expected output: "groceries" first, carried by both grocery lists, then the other tags of the neighbours
+      const res = await request(app)
+        .get(`/api/notes/${untaggedId}/suggested-tags`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Suggested tags retrieved successfully');
+      expect(res.body.data.embeddingStatus).toBe('ready');
+      expect(res.body.data.suggestions[0]).toEqual({ tag: 'groceries', score: expect.any(Number), noteCount: 2 });
+      const tags = res.body.data.suggestions.map((suggestion: { tag: string }) => suggestion.tag);
+      expect(tags).toContain('shopping');
+    });
+
+    test('200 – never suggests tags the note already has and honours limit', async () => {
+      // Input: noteId of a note tagged "groceries", limit=1
+      // Expected status code: 200
+      // Expected output: a single suggestion other than "groceries"
+      const taggedId = await createNote('Grocery list apples eggs', ['groceries']);
+      await processEmbeddingJobs();
+
+      const res = await request(app)
+        .get(`/api/notes/${taggedId}/suggested-tags`)
+        .query({ limit: 1 })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.suggestions).toHaveLength(1);
+      expect(res.body.data.suggestions[0].tag).not.toBe('groceries');
+    });
+
+    test('200 – notes without a vector yet get no suggestions', async () => {
+      // Input: noteId of a note the embedding worker has not processed
+      // Expected status code: 200
+      // Expected output: empty list and the pending status of the note
+      const pendingId = await createNote('Grocery list apples jam');
+
+      const res = await request(app)
+        .get(`/api/notes/${pendingId}/suggested-tags`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ suggestions: [], embeddingStatus: 'pending' });
+    });
+
+    test('400 – rejects an invalid limit', async () => {
+      // Input: limit=0
+      // Expected status code: 400
+      const res = await request(app)
+        .get(`/api/notes/${untaggedId}/suggested-tags`)
+        .query({ limit: 0 })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('limit must be a positive integer');
+    });
+
+    test('403 – non-members cannot get suggestions', async () => {
+      // Input: token of a user outside the workspace
+      // Expected status code: 403
+      const res = await request(app)
+        .get(`/api/notes/${untaggedId}/suggested-tags`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`);
+
+      expect(res.status).toBe(403);
+    });
+
+    test('404 – unknown note', async () => {
+      // Input: a noteId that does not exist
+      // Expected status code: 404
+      const res = await request(app)
+        .get(`/api/notes/${new mongoose.Types.ObjectId().toString()}/suggested-tags`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/workspace/:id/tags/duplicates - Duplicate Tags', () => {
+    test('200 – groups spellings of the same tag', async () => {
+      // Input: notes tagged "TODO", "todo" and "to-do" next to an unrelated tag
+      // Expected status code: 200
+      // Expected output: one group suggesting the most used spelling
+      await createNote('First', ['TODO']);
+      await createNote('Second', ['TODO', 'budget']);
+      await createNote('Third', ['todo']);
+      await createNote('Fourth', ['to-do']);
+
+      const res = await request(app)
+        .get(`/api/workspace/${testData.testWorkspaceId}/tags/duplicates`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Duplicate tags retrieved successfully');
+      expect(res.body.data.semantic).toBe(true);
+      const group = res.body.data.groups.find((candidate: { suggestedTag: string }) => candidate.suggestedTag === 'TODO');
+      expect(group.tags).toEqual([
+        { tag: 'TODO', count: 2 },
+        { tag: 'to-do', count: 1 },
+        { tag: 'todo', count: 1 },
+      ]);
+      expect(group.matches.length).toBeGreaterThanOrEqual(2);
+    });
+
+    test('403 – non-members cannot see the report', async () => {
+      // Input: token of a user outside the workspace
+      // Expected status code: 403
+      const res = await request(app)
+        .get(`/api/workspace/${testData.testWorkspaceId}/tags/duplicates`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/workspace/:id/tags/merge - Merge Tags', () => {
+    test('200 – rewrites notes, trashed notes and saved searches', async () => {
+      // Input: tags ["todo", "to-do"] merged into "TODO"
+      // Expected status code: 200
+      // Expected behavior: no note keeps a merged tag, tags are not repeated, the change is in
+      // the note history and saved search filters follow
+      const bothId = await createNote('Both', ['todo', 'TODO']);
+      const dashId = await createNote('Dash', ['to-do', 'work']);
+      const trashedId = await createNote('Trashed', ['todo']);
+      await noteModel.findByIdAndUpdate(trashedId, { deletedAt: new Date() });
+      await savedSearchModel.create({
+        userId: new mongoose.Types.ObjectId(testData.testUserId),
+        name: 'Todos',
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        query: '',
+        tags: ['to-do'],
+      });
+
+      const res = await request(app)
+        .post(`/api/workspace/${testData.testWorkspaceId}/tags/merge`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: ['todo', 'to-do'], into: 'TODO' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Tags merged successfully');
+      expect(res.body.data).toEqual({ tag: 'TODO', notes: 3, savedSearches: 1, conflicts: 0 });
+
+      expect((await noteModel.findById(bothId))?.tags).toEqual(['TODO']);
+      expect((await noteModel.findById(dashId))?.tags).toEqual(['TODO', 'work']);
+      expect((await noteModel.findById(trashedId))?.tags).toEqual(['TODO']);
+      expect(await noteRevisionModel.countDocuments({ noteId: dashId })).toBe(1);
+      expect((await savedSearchModel.findOne({ name: 'Todos' }))?.tags).toEqual(['TODO']);
+
+      expect(await tagModel.exists({ workspaceId: testData.testWorkspaceId, name: 'todo' })).toBeNull();
+      expect(await tagModel.exists({ workspaceId: testData.testWorkspaceId, name: 'to-do' })).toBeNull();
+      expect((await tagModel.findOne({ workspaceId: testData.testWorkspaceId, name: 'TODO' }))?.noteCount).toBe(2);
+    });
+
+    test('400 – rejects a request without tags', async () => {
+      // Input: empty tags array
+      // Expected status code: 400
+      const res = await request(app)
+        .post(`/api/workspace/${testData.testWorkspaceId}/tags/merge`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: [], into: 'TODO' });
+
+      expect(res.status).toBe(400);
+    });
+
+    test('403 – only the owner can merge tags', async () => {
+      // Input: token of a member who does not own the workspace
+      // Expected status code: 403
+      await addMember();
+
+      const res = await request(app)
+        .post(`/api/workspace/${testData.testWorkspaceId}/tags/merge`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`)
+        .send({ tags: ['todo'], into: 'TODO' });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('Workspace tag collection', () => {
+    const details = (token = testData.testUserToken) =>
+      request(app)
+        .get(`/api/workspace/${testData.testWorkspaceId}/tags/details`)
+        .set('Authorization', `Bearer ${token}`);
+
+    const updateTag = (tag: string, body: Record<string, unknown>, token = testData.testUserToken) =>
+      request(app)
+        .put(`/api/workspace/${testData.testWorkspaceId}/tags/${encodeURIComponent(tag)}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send(body);
+
+    test('200 – counts follow notes being created, edited and trashed', async () => {
+      // Input: two notes tagged "work", one of them retagged "home", then trashed
+      // Expected status code: 200
+      // Expected output: every tag listed with its live note count, unused tags kept at 0
+      const firstId = await createNote('First', ['work']);
+      await createNote('Second', ['work']);
+      await request(app)
+        .put(`/api/notes/${firstId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: ['home'], fields: [{ fieldType: 'title', content: 'First', _id: '1' }] });
+
+      let res = await details();
+      expect(res.status).toBe(200);
+      expect(res.body.data.tags.map((tag: { name: string; noteCount: number }) => [tag.name, tag.noteCount]))
+        .toEqual([['home', 1], ['work', 1]]);
+
+      await request(app)
+        .delete(`/api/notes/${firstId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      res = await details();
+      expect(res.body.data.tags.find((tag: { name: string }) => tag.name === 'home').noteCount).toBe(0);
+
+      const names = await request(app)
+        .get(`/api/workspace/${testData.testWorkspaceId}/tags`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(names.body.data.tags).toEqual(['work']);
+    });
+
+    test('200 – sets the color and description of a tag', async () => {
+      // Input: color and description for an existing tag
+      // Expected status code: 200
+      // Expected output: the updated tag
+      await createNote('First', ['work']);
+
+      const res = await updateTag('work', { color: '#1a2b3c', description: 'Job related' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Tag updated successfully');
+      expect(res.body.data.tag).toMatchObject({ name: 'work', color: '#1a2b3c', description: 'Job related', noteCount: 1 });
+    });
+
+    test('200 – renaming rewrites every note and keeps the color', async () => {
+      // Input: new name for a colored tag used by two notes
+      // Expected status code: 200
+      // Expected behavior: notes carry the new name, the old tag is gone
+      const firstId = await createNote('First', ['wrk', 'urgent']);
+      await createNote('Second', ['wrk']);
+      await updateTag('wrk', { color: '#ff0000' });
+
+      const res = await updateTag('wrk', { name: 'work' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.tag).toMatchObject({ name: 'work', color: '#ff0000', noteCount: 2 });
+      expect((await noteModel.findById(firstId))?.tags).toEqual(['work', 'urgent']);
+      expect(await tagModel.exists({ workspaceId: testData.testWorkspaceId, name: 'wrk' })).toBeNull();
+    });
+
+    test('200 – renaming rewrites notes whose fields would no longer pass validation', async () => {
+      // Input: new name for a tag of two notes, one of them referencing an image that is not stored
+      // Expected status code: 200
+      // Expected behavior: both notes carry the new name, nothing is reported as a conflict and
+      // the old tag is gone
+      const validId = await createNote('Valid', ['wrk']);
+      const invalidId = await createNote('Invalid', ['wrk']);
+      await noteModel.findByIdAndUpdate(invalidId, {
+        fields: [{ fieldType: 'image', imagePath: 'missing.png', _id: '2' }],
+      });
+
+      const res = await updateTag('wrk', { name: 'work' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({ tag: { name: 'work', noteCount: 2 }, conflicts: 0 });
+      expect((await noteModel.findById(validId))?.tags).toEqual(['work']);
+      expect((await noteModel.findById(invalidId))?.tags).toEqual(['work']);
+      expect(await tagModel.exists({ workspaceId: testData.testWorkspaceId, name: 'wrk' })).toBeNull();
+    });
+
+    test('409 – renaming onto an existing tag', async () => {
+      // Input: new name that another tag already has
+      // Expected status code: 409
+      await createNote('First', ['work', 'job']);
+
+      const res = await updateTag('job', { name: 'work' });
+
+      expect(res.status).toBe(409);
+      expect(res.body.error).toBe('Tag name already in use');
+    });
+
+    test('400 – rejects an invalid color', async () => {
+      // Input: color that is not a hex color
+      // Expected status code: 400
+      await createNote('First', ['work']);
+
+      const res = await updateTag('work', { color: 'red' });
+
+      expect(res.status).toBe(400);
+    });
+
+    test('404 – unknown tag', async () => {
+      // Input: a tag no note ever used
+      // Expected status code: 404
+      const res = await updateTag('missing', { description: 'Nothing' });
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Tag not found');
+    });
+
+    test('403 – members other than the owner cannot manage tags', async () => {
+      // Input: token of a member who does not own the workspace
+      // Expected status code: 403 for changes, 200 for the listing
+      await createNote('First', ['work']);
+      await addMember();
+
+      expect((await details(testData.testUser2Token)).status).toBe(200);
+      expect((await updateTag('work', { color: '#000000' }, testData.testUser2Token)).status).toBe(403);
+    });
+
+    test('200 – deleting a tag removes it from notes and saved searches', async () => {
+      // Input: DELETE of a tag used by a note and a saved search
+      // Expected status code: 200
+      // Expected output: counts of the rewritten notes and saved searches
+      const noteId = await createNote('First', ['work', 'urgent']);
+      await savedSearchModel.create({
+        userId: new mongoose.Types.ObjectId(testData.testUserId),
+        name: 'Work',
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        query: '',
+        tags: ['work'],
+      });
+
+      const res = await request(app)
+        .delete(`/api/workspace/${testData.testWorkspaceId}/tags/work`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Tag deleted successfully');
+      expect(res.body.data).toEqual({ tag: 'work', notes: 1, savedSearches: 1, conflicts: 0 });
+      expect((await noteModel.findById(noteId))?.tags).toEqual(['urgent']);
+      expect((await savedSearchModel.findOne({ name: 'Work' }))?.tags).toEqual([]);
+      expect(await tagModel.exists({ workspaceId: testData.testWorkspaceId, name: 'work' })).toBeNull();
+    });
+  });
+});
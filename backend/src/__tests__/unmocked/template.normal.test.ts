@@ -0,0 +1,395 @@
+/// <reference types="jest" />
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+import { NoteType } from '../../notes/notes.types';
+import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
+
+// ---------------------------
+// Test suite
+// ---------------------------
+describe('Templates API – Normal Tests (No Mocking)', () => {
+  let mongo: MongoMemoryServer;
+  let testData: TestData;
+  let app: ReturnType<typeof createTestApp>;
+  let templateId: string;
+
+  // Ensure OPENAI_API_KEY is loaded
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is required for tests');
+  }
+
+  // Spin up in-memory Mongo
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    const uri = mongo.getUri();
+    await mongoose.connect(uri);
+    console.log('✅ Connected to in-memory MongoDB');
+
+    // Create app after DB connection
+    app = createTestApp();
+  });
+
+  // Tear down DB
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo.stop({ doCleanup: true, force: true });
+  });
+
+  // Fresh DB state and a template before each test
+  beforeEach(async () => {
+    testData = await setupTestDatabase(app);
+
+    const create = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${testData.testUserToken}`)
+      .send({
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.TEMPLATE,
+        tags: ['meeting'],
+        fields: [
+          { fieldType: 'title', label: 'Title', required: true, content: 'Meeting', _id: 'title' },
+          { fieldType: 'datetime', label: 'Date', required: true, _id: 'date' },
+          { fieldType: 'select', label: 'Status', options: ['open', 'done'], _id: 'status' },
+          { fieldType: 'textbox', label: 'Notes', _id: 'notes' },
+        ],
+      });
+    templateId = create.body.data.note._id;
+  });
+
+  describe('GET /api/templates - List Templates', () => {
+    test('200 – lists only the templates of the workspace', async () => {
+      // Input: workspaceId query param, workspace holding one template and one content note
+      // Expected status code: 200
+      // Expected behavior: only TEMPLATE notes are returned
+      // Expected output: array with the template, without vectorData
+      await request(app)
+        .post('/api/notes')
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          workspaceId: testData.testWorkspaceId,
+          noteType: NoteType.CONTENT,
+          tags: [],
+          fields: [{ fieldType: 'title', content: 'Not a template', _id: '1' }],
+        });
+
+      const res = await request(app)
+        .get('/api/templates')
+        .query({ workspaceId: testData.testWorkspaceId })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Templates retrieved successfully');
+      expect(res.body.data.templates).toHaveLength(1);
+      expect(res.body.data.templates[0]._id).toBe(templateId);
+      expect(res.body.data.templates[0].vectorData).toBeUndefined();
+    });
+
+    test('400 – missing workspaceId', async () => {
+      // Input: no workspaceId query param
+      // Expected status code: 400
+      // Expected behavior: query validation fails
+      // Expected output: error message
+      const res = await request(app)
+        .get('/api/templates')
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('workspaceId is required');
+    });
+
+    test('403 – user not a member of workspace', async () => {
+      // Input: workspaceId of a workspace the user does not belong to
+      // Expected status code: 403
+      // Expected behavior: access denied
+      // Expected output: error message
+      const res = await request(app)
+        .get('/api/templates')
+        .query({ workspaceId: testData.testWorkspaceId })
+        .set('Authorization', `Bearer ${testData.testUser2Token}`);
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toContain('Access denied');
+    });
+  });
+
+  describe('POST /api/templates/:id/notes - Create Note From Template', () => {
+    test('201 – creates a content note linked to the template', async () => {
+      // Input: templateId in URL, empty body
+      // Expected status code: 201
+      // Expected behavior: note created with the template's fields and tags
+      // Expected output: note carrying templateId and templateVersion
+      const res = await request(app)
+        .post(`/api/templates/${templateId}/notes`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({});
+
+      expect(res.status).toBe(201);
+      expect(res.body.message).toBe('Note created from template successfully');
+      expect(res.body.data.note.noteType).toBe(NoteType.CONTENT);
+      expect(res.body.data.note.workspaceId).toBe(testData.testWorkspaceId);
+      expect(res.body.data.note.tags).toEqual(['meeting']);
+      expect(res.body.data.note.fields).toHaveLength(4);
+      expect(res.body.data.note.templateId).toBe(templateId);
+      expect(res.body.data.note.templateVersion).toBe(1);
+    });
+
+    test('400 – filled-in fields drop a required template field', async () => {
+      // Input: templateId in URL, fields without the required "Date" field
+      // Expected status code: 400
+      // Expected behavior: template-driven validation rejects the note
+      // Expected output: error naming the missing field
+      const res = await request(app)
+        .post(`/api/templates/${templateId}/notes`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ fields: [{ fieldType: 'title', label: 'Title', content: 'Standup', _id: 'title' }] });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain('"Date" is missing');
+    });
+
+    test('400 – select value outside the template options', async () => {
+      // Input: templateId in URL, select field redefining its options
+      // Expected status code: 400
+      // Expected behavior: select values must come from the template's options
+      // Expected output: error naming the select field
+      const res = await request(app)
+        .post(`/api/templates/${templateId}/notes`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          fields: [
+            { fieldType: 'title', label: 'Title', content: 'Standup', _id: 'title' },
+            { fieldType: 'datetime', label: 'Date', content: '2025-03-01T09:00', _id: 'date' },
+            { fieldType: 'select', label: 'Status', options: ['blocked'], content: ['blocked'], _id: 'status' },
+          ],
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain('"Status"');
+    });
+
+    test('404 – id does not belong to a template', async () => {
+      // Input: id of a nonexistent note
+      // Expected status code: 404
+      // Expected behavior: template lookup fails
+      // Expected output: error message
+      const fakeId = new mongoose.Types.ObjectId().toString();
+      const res = await request(app)
+        .post(`/api/templates/${fakeId}/notes`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({});
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Template not found');
+    });
+
+    test('403 – user cannot see the template workspace', async () => {
+      // Input: templateId of a workspace the user does not belong to
+      // Expected status code: 403
+      // Expected behavior: access denied
+      // Expected output: error message
+      const res = await request(app)
+        .post(`/api/templates/${templateId}/notes`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`)
+        .send({ workspaceId: testData.testWorkspace2Id });
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toContain('Access denied');
+    });
+  });
+
+  describe('PUT /api/notes/:id - Template-driven validation on update', () => {
+    test('400 – update removes a required template field', async () => {
+      // Input: note created from the template, update without the required "Date" field
+      // Expected status code: 400
+      // Expected behavior: updateNote checks the template's required fields
+      // Expected output: error naming the missing field
+      const create = await request(app)
+        .post(`/api/templates/${templateId}/notes`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({});
+      const noteId = create.body.data.note._id;
+
+      const res = await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: [], fields: [{ fieldType: 'title', label: 'Title', content: 'Renamed', _id: 'title' }] });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain('"Date" is missing');
+    });
+
+    test('200 – updating a template bumps its version', async () => {
+      // Input: templateId, updated template fields
+      // Expected status code: 200
+      // Expected behavior: template version is incremented
+      // Expected output: template with version 2
+      const res = await request(app)
+        .put(`/api/notes/${templateId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: ['meeting'], fields: [{ fieldType: 'title', label: 'Title', required: true, _id: 'title' }] });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.note.version).toBe(2);
+    });
+  });
+
+  describe('Template versioning and migration of derived notes', () => {
+    let noteId: string;
+
+    beforeEach(async () => {
+      // Note created from version 1 of the template
+      const create = await request(app)
+        .post(`/api/templates/${templateId}/notes`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          fields: [
+            { fieldType: 'title', label: 'Title', content: 'Weekly sync', _id: 'title' },
+            { fieldType: 'datetime', label: 'Date', content: '2025-03-01T09:00', _id: 'date' },
+            { fieldType: 'select', label: 'Status', options: ['open', 'done'], content: ['open'], _id: 'status' },
+            { fieldType: 'textbox', label: 'Notes', content: 'Agenda items', _id: 'notes' },
+          ],
+        });
+      noteId = create.body.data.note._id;
+
+      // Version 2: "Notes" renamed to "Summary" (new _id), "Status" dropped, "Due date" added
+      await request(app)
+        .put(`/api/notes/${templateId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          tags: ['meeting'],
+          fields: [
+            { fieldType: 'title', label: 'Meeting title', required: true, _id: 'title' },
+            { fieldType: 'datetime', label: 'Date', required: true, _id: 'date' },
+            { fieldType: 'textbox', label: 'Summary', _id: 'summary' },
+            { fieldType: 'datetime', label: 'Due date', _id: 'due' },
+          ],
+        });
+    });
+
+    test('200 – lists the version history newest first', async () => {
+      // Input: templateId in URL
+      // Expected status code: 200
+      // Expected behavior: a snapshot exists for the created and the updated version
+      // Expected output: versions 2 then 1
+      const res = await request(app)
+        .get(`/api/templates/${templateId}/versions`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.versions.map((v: any) => v.version)).toEqual([2, 1]);
+      expect(res.body.data.versions[1].fields).toHaveLength(4);
+    });
+
+    test('200 – preview reports the changes without saving them', async () => {
+      // Input: templateId in URL, rename rule notes -> summary
+      // Expected status code: 200
+      // Expected behavior: migration computed for the outdated note only
+      // Expected output: added/removed/renamed/relabeled field names, note left untouched
+      const res = await request(app)
+        .post(`/api/templates/${templateId}/migration/preview`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ renamed: { notes: 'summary' } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.migrations).toHaveLength(1);
+      const migration = res.body.data.migrations[0];
+      expect(migration.noteId).toBe(noteId);
+      expect(migration.fromVersion).toBe(1);
+      expect(migration.toVersion).toBe(2);
+      expect(migration.changes.added).toEqual(['Due date']);
+      expect(migration.changes.removed).toEqual(['Status']);
+      expect(migration.changes.renamed).toEqual(['Notes -> Summary']);
+      expect(migration.changes.relabeled).toEqual(['Title -> Meeting title']);
+
+      const note = await request(app)
+        .get(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(note.body.data.note.templateVersion).toBe(1);
+    });
+
+    test('200 – apply moves the note to the newest version and keeps its values', async () => {
+      // Input: templateId in URL, rename rule notes -> summary
+      // Expected status code: 200
+      // Expected behavior: note fields rebuilt from version 2, values carried over
+      // Expected output: migrated note at templateVersion 2, a second run finds nothing to do
+      const res = await request(app)
+        .post(`/api/templates/${templateId}/migration`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ renamed: { notes: 'summary' } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.migrations).toHaveLength(1);
+      expect(res.body.data.migrations[0].error).toBeUndefined();
+
+      const note = await request(app)
+        .get(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(note.body.data.note.templateVersion).toBe(2);
+      expect(note.body.data.note.fields.map((f: any) => f._id)).toEqual(['title', 'date', 'summary', 'due']);
+      expect(note.body.data.note.fields[0].label).toBe('Meeting title');
+      expect(note.body.data.note.fields[0].content).toBe('Weekly sync');
+      expect(note.body.data.note.fields[2].content).toBe('Agenda items');
+
+      const rerun = await request(app)
+        .post(`/api/templates/${templateId}/migration/preview`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({});
+      expect(rerun.body.data.migrations).toHaveLength(0);
+    });
+
+    test('200 – notes of an older version are held to that version until migrated', async () => {
+      // Input: note made from version 1, template's version 3 adds a required field, tag-only update
+      // Expected status code: 200, and 400 once a field version 1 requires is dropped
+      // Expected behavior: fields the newer version requires are not asked of the outdated note
+      // Expected output: updated note still at templateVersion 1
+      await request(app)
+        .put(`/api/notes/${templateId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({
+          tags: ['meeting'],
+          fields: [
+            { fieldType: 'title', label: 'Meeting title', required: true, _id: 'title' },
+            { fieldType: 'datetime', label: 'Date', required: true, _id: 'date' },
+            { fieldType: 'textbox', label: 'Room', required: true, _id: 'room' },
+          ],
+        });
+      const note = await request(app)
+        .get(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      const res = await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: ['weekly'], fields: note.body.data.note.fields });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.note.tags).toEqual(['weekly']);
+      expect(res.body.data.note.templateVersion).toBe(1);
+
+      // Version 1 still requires "Date"
+      const missingDate = await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`)
+        .send({ tags: [], fields: [note.body.data.note.fields[0]] });
+      expect(missingDate.status).toBe(400);
+      expect(missingDate.body.error).toContain('"Date" is missing');
+    });
+
+    test('403 – user not a member of the template workspace', async () => {
+      // Input: templateId in URL, requester outside the workspace
+      // Expected status code: 403
+      // Expected behavior: access denied
+      // Expected output: error message
+      const res = await request(app)
+        .post(`/api/templates/${templateId}/migration`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`)
+        .send({});
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toContain('Access denied');
+    });
+  });
+});
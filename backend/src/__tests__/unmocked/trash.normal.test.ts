@@ -0,0 +1,258 @@
+/// <reference types="jest" />
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+import { NoteType } from '../../notes/notes.types';
+import { noteModel } from '../../notes/note.model';
+import { noteRevisionModel } from '../../notes/noteRevision.model';
+import { workspaceModel } from '../../workspaces/workspace.model';
+import { purgeExpiredTrash } from '../../trash/trash.purge';
+import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------
+// Test suite
+// ---------------------------
+describe('Trash – Normal Tests (No Mocking)', () => {
+  let mongo: MongoMemoryServer;
+  let testData: TestData;
+  let app: ReturnType<typeof createTestApp>;
+  let noteId: string;
+
+  // Ensure OPENAI_API_KEY is loaded
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is required for tests');
+  }
+
+  // Spin up in-memory Mongo
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    const uri = mongo.getUri();
+    await mongoose.connect(uri);
+    console.log('✅ Connected to in-memory MongoDB');
+
+    // Create app after DB connection
+    app = createTestApp();
+  });
+
+  // Tear down DB
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo.stop({ doCleanup: true, force: true });
+  });
+
+  // Fresh DB state and a trashed note before each test
+  beforeEach(async () => {
+    testData = await setupTestDatabase(app);
+
+    const create = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${testData.testUserToken}`)
+      .send({
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        tags: ['trashed-tag'],
+        fields: [{ fieldType: 'title', content: 'Oops', _id: '1' }],
+      });
+    noteId = create.body.data.note._id;
+
+    await request(app)
+      .delete(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${testData.testUserToken}`);
+  });
+
+  describe('Notes trash', () => {
+    test('trashed notes disappear from listings, lookups and tags', async () => {
+      // Input: a note deleted through DELETE /api/notes/:id
+      // Expected behavior: the document stays with a deletedAt timestamp but is hidden everywhere
+      const stored = await noteModel.findById(noteId);
+      expect(stored?.deletedAt).toBeInstanceOf(Date);
+
+      const list = await request(app)
+        .get('/api/notes')
+        .query({ workspaceId: testData.testWorkspaceId, noteType: NoteType.CONTENT })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(list.body.data.notes).toHaveLength(0);
+
+      const single = await request(app)
+        .get(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(single.status).toBe(404);
+
+      const tags = await request(app)
+        .get(`/api/workspace/${testData.testWorkspaceId}/tags`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(tags.body.data.tags).not.toContain('trashed-tag');
+    });
+
+    test('200 – lists the trash of a workspace', async () => {
+      // Input: workspaceId query param
+      // Expected status code: 200
+      // Expected output: the trashed note with its deletedAt timestamp
+      const res = await request(app)
+        .get('/api/notes/trash')
+        .query({ workspaceId: testData.testWorkspaceId })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.notes).toHaveLength(1);
+      expect(res.body.data.notes[0]._id).toBe(noteId);
+      expect(res.body.data.notes[0].deletedAt).toBeDefined();
+      expect(res.body.data.notes[0].vectorData).toBeUndefined();
+    });
+
+    test('403 – non-members cannot see the trash', async () => {
+      // Input: token of a user outside the workspace
+      // Expected status code: 403
+      const res = await request(app)
+        .get('/api/notes/trash')
+        .query({ workspaceId: testData.testWorkspaceId })
+        .set('Authorization', `Bearer ${testData.testUser2Token}`);
+
+      expect(res.status).toBe(403);
+    });
+
+    test('200 – restores a trashed note', async () => {
+      // Input: noteId in URL
+      // Expected status code: 200
+      // Expected behavior: deletedAt is cleared and the note is listed again
+      const res = await request(app)
+        .post(`/api/notes/${noteId}/restore`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Note restored successfully');
+      expect(res.body.data.note.deletedAt).toBeNull();
+
+      const single = await request(app)
+        .get(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(single.status).toBe(200);
+    });
+
+    test('404 – restoring a note that is not in the trash', async () => {
+      // Input: noteId of a note restored once already
+      // Expected status code: 404
+      await request(app)
+        .post(`/api/notes/${noteId}/restore`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      const res = await request(app)
+        .post(`/api/notes/${noteId}/restore`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Note not found');
+    });
+  });
+
+  describe('Workspaces trash', () => {
+    beforeEach(async () => {
+      await request(app)
+        .delete(`/api/workspace/${testData.testWorkspaceId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+    });
+
+    test('trashed workspaces disappear from the workspace listing', async () => {
+      // Expected behavior: the owner's listing no longer includes the workspace
+      const res = await request(app)
+        .get('/api/workspace/user')
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      const ids = res.body.data.workspaces.map((workspace: { _id: string }) => workspace._id);
+      expect(ids).not.toContain(testData.testWorkspaceId);
+    });
+
+    test('200 – lists and restores a trashed workspace', async () => {
+      // Input: GET /api/workspace/trash then POST /api/workspace/:id/restore
+      // Expected status code: 200
+      // Expected behavior: the workspace is back with its notes
+      const trash = await request(app)
+        .get('/api/workspace/trash')
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(trash.status).toBe(200);
+      expect(trash.body.data.workspaces[0]._id).toBe(testData.testWorkspaceId);
+
+      const res = await request(app)
+        .post(`/api/workspace/${testData.testWorkspaceId}/restore`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBe('Workspace restored successfully');
+
+      const workspace = await request(app)
+        .get(`/api/workspace/${testData.testWorkspaceId}`)
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+      expect(workspace.status).toBe(200);
+    });
+
+    test('403 – only the owner can restore a workspace', async () => {
+      // Input: token of a member who does not own the workspace
+      // Expected status code: 403
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+        $push: { members: new mongoose.Types.ObjectId(testData.testUser2Id) },
+      });
+
+      const res = await request(app)
+        .post(`/api/workspace/${testData.testWorkspaceId}/restore`)
+        .set('Authorization', `Bearer ${testData.testUser2Token}`);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('purgeExpiredTrash - Background purge', () => {
+    test('removes only the trash older than the retention period', async () => {
+      // Input: one note trashed 40 days ago, one trashed just now
+      // Expected behavior: with the default 30 days retention only the old note is purged
+      await noteModel.findByIdAndUpdate(noteId, { deletedAt: new Date(Date.now() - 40 * DAY_MS) });
+      await noteRevisionModel.create({
+        noteId,
+        workspaceId: testData.testWorkspaceId,
+        revision: 1,
+        authorId: new mongoose.Types.ObjectId(testData.testUserId),
+        fields: [],
+        tags: [],
+      });
+      const recent = await noteModel.create({
+        userId: new mongoose.Types.ObjectId(testData.testUserId),
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        tags: [],
+        fields: [{ fieldType: 'title', content: 'Recent', _id: '1' }],
+        deletedAt: new Date(),
+      });
+
+      const result = await purgeExpiredTrash();
+
+      expect(result).toEqual({ notes: 1, workspaces: 0 });
+      expect(await noteModel.findById(noteId)).toBeNull();
+      expect(await noteRevisionModel.countDocuments({ noteId })).toBe(0);
+      expect(await noteModel.findById(recent._id)).not.toBeNull();
+    });
+
+    test('purges expired workspaces together with their notes', async () => {
+      // Input: workspace trashed 40 days ago holding a live note
+      // Expected behavior: both the workspace and every note in it are gone
+      await noteModel.create({
+        userId: new mongoose.Types.ObjectId(testData.testUserId),
+        workspaceId: testData.testWorkspaceId,
+        noteType: NoteType.CONTENT,
+        tags: [],
+        fields: [{ fieldType: 'title', content: 'Live', _id: '1' }],
+      });
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+        deletedAt: new Date(Date.now() - 40 * DAY_MS),
+      });
+
+      const result = await purgeExpiredTrash();
+
+      expect(result.workspaces).toBe(1);
+      expect(await workspaceModel.findById(testData.testWorkspaceId)).toBeNull();
+      expect(await noteModel.countDocuments({ workspaceId: testData.testWorkspaceId })).toBe(0);
+    });
+  });
+});
@@ -8,6 +8,9 @@ import path from 'path';
 import { workspaceModel } from '../../workspaces/workspace.model';
 import { userModel } from '../../users/user.model';
 import { noteModel } from '../../notes/note.model';
+import { messageModel } from '../../messages/message.model';
+import { templateVersionModel } from '../../templates/template.model';
+import { embeddingJobModel } from '../../embeddings/embeddingJob.model';
 import { IMAGES_DIR } from '../../utils/constants';
 import { createTestApp, setupTestDatabase, TestData } from '../test-utils/test-helpers';
 
@@ -294,7 +297,8 @@ describe('User API – Normal Tests (No Mocking)', () => {
     test('200 – deletes user profile successfully', async () => {
       // Input: authenticated user deletion request
       // Expected status code: 200
-      // Expected behavior: user deleted, owned workspaces deleted, notes deleted, user removed from member workspaces
+      // Expected behavior: user deleted, owned workspaces deleted with their notes, template versions, embedding jobs
+      // and messages, user removed from member workspaces
       // Expected output: success message
       // Create a workspace owned by the user with notes
       const workspace = await workspaceModel.create({
@@ -304,12 +308,19 @@ describe('User API – Normal Tests (No Mocking)', () => {
         members: [new mongoose.Types.ObjectId(testData.testUserId)],
       });
 
-      await noteModel.create({
+      const note = await noteModel.create({
         userId: new mongoose.Types.ObjectId(testData.testUserId),
         workspaceId: workspace._id.toString(),
-        noteType: 'CONTENT',
+        noteType: 'TEMPLATE',
         fields: [{ fieldType: 'title', content: 'Test Note', _id: '1' }],
       });
+      await templateVersionModel.create({ templateId: note._id.toString(), version: 1, fields: note.fields, tags: [] });
+      await embeddingJobModel.create({ noteId: note._id.toString(), revision: note.revision });
+      await messageModel.create({
+        workspaceId: workspace._id,
+        authorId: new mongoose.Types.ObjectId(testData.testUserId),
+        content: 'Hello',
+      });
 
       // Add user as member of another workspace
       await workspaceModel.findByIdAndUpdate(testData.testWorkspace2Id, {
@@ -335,11 +346,92 @@ describe('User API – Normal Tests (No Mocking)', () => {
       const notes = await noteModel.find({ workspaceId: workspace._id.toString() });
       expect(notes.length).toBe(0);
 
+      // Verify what hangs off the notes and the workspace is deleted with them
+      expect(await templateVersionModel.countDocuments({ templateId: note._id.toString() })).toBe(0);
+      expect(await embeddingJobModel.countDocuments({ noteId: note._id.toString() })).toBe(0);
+      expect(await messageModel.countDocuments({ workspaceId: workspace._id })).toBe(0);
+
       // Verify user removed from other workspace
       const otherWorkspace = await workspaceModel.findById(testData.testWorkspace2Id);
       expect(otherWorkspace?.members).not.toContainEqual(new mongoose.Types.ObjectId(testData.testUserId));
     });
 
+    test('200 – hands shared workspaces to their longest-standing member', async () => {
+      // Input: deletion request of a user owning a workspace with two other members
+      // Expected status code: 200
+      // Expected behavior: the member who joined first owns the workspace, its notes survive along with
+      // the images they show, images nothing refers to anymore are deleted
+      // Expected output: success message listing the transferred workspace
+      if (!fs.existsSync(IMAGES_DIR)) {
+        fs.mkdirSync(IMAGES_DIR, { recursive: true });
+      }
+      const sharedImage = path.resolve(IMAGES_DIR, `${testData.testUserId}-shared.png`);
+      const unusedImage = path.resolve(IMAGES_DIR, `${testData.testUserId}-unused.png`);
+      fs.writeFileSync(sharedImage, Buffer.from('shared'));
+      fs.writeFileSync(unusedImage, Buffer.from('unused'));
+
+      const newcomer = await userModel.create({
+        googleId: 'dev-newcomer',
+        email: 'newcomer@example.com',
+        name: 'Newcomer',
+        profilePicture: '',
+      });
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+        $push: {
+          members: {
+            $each: [new mongoose.Types.ObjectId(testData.testUser2Id), newcomer._id],
+          },
+        },
+      });
+      await noteModel.create({
+        userId: new mongoose.Types.ObjectId(testData.testUserId),
+        workspaceId: testData.testWorkspaceId,
+        noteType: 'CONTENT',
+        fields: [
+          { fieldType: 'title', content: 'Shared Note', _id: '1' },
+          { fieldType: 'image', imagePath: sharedImage.split(path.sep).join('/'), _id: '2' },
+        ],
+      });
+
+      const res = await request(app)
+        .delete('/api/user/profile')
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.transferredWorkspaces).toEqual([
+        { workspaceId: testData.testWorkspaceId, ownerId: testData.testUser2Id },
+      ]);
+
+      const workspace = await workspaceModel.findById(testData.testWorkspaceId);
+      expect(workspace?.ownerId.toString()).toBe(testData.testUser2Id);
+      expect(workspace?.members).not.toContainEqual(new mongoose.Types.ObjectId(testData.testUserId));
+      expect(workspace?.roles.has(testData.testUserId)).toBe(false);
+      expect(await noteModel.countDocuments({ workspaceId: testData.testWorkspaceId })).toBe(1);
+      expect(fs.existsSync(sharedImage)).toBe(true);
+      expect(fs.existsSync(unusedImage)).toBe(false);
+
+      fs.unlinkSync(sharedImage);
+    });
+
+    test('200 – deletes shared workspaces when asked not to transfer them', async () => {
+      // Input: deletion request with transferWorkspaces=false, owned workspace has another member
+      // Expected status code: 200
+      // Expected behavior: the workspace and its notes are deleted
+      // Expected output: success message with nothing transferred
+      await workspaceModel.findByIdAndUpdate(testData.testWorkspaceId, {
+        $push: { members: new mongoose.Types.ObjectId(testData.testUser2Id) },
+      });
+
+      const res = await request(app)
+        .delete('/api/user/profile')
+        .query({ transferWorkspaces: 'false' })
+        .set('Authorization', `Bearer ${testData.testUserToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.transferredWorkspaces).toEqual([]);
+      expect(await workspaceModel.findById(testData.testWorkspaceId)).toBeNull();
+    });
+
     test('200 – deletes user with no owned workspaces', async () => {
       // Input: authenticated user deletion request for user with no owned workspaces
       // Expected status code: 200
@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+
+import { noteService } from '../notes/notes.service';
+import { embeddingCache } from '../embeddings/embedding.cache';
+import { ReembedRequest } from './admin.types';
+
+export class AdminController {
+  async reembedNotes(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const { workspaceId, force } = req.body as ReembedRequest;
+      const queued = await noteService.queueReembedding(user._id, workspaceId, force);
+
+      res.status(202).json({
+        message: 'Notes queued for embedding',
+        data: { queued },
+      });
+    } catch (error) {
+      console.error('Error queueing notes for embedding:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Workspace not found') {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to queue notes for embedding' });
+    }
+  }
+
+  async getEmbeddingCacheStats(req: Request, res: Response): Promise<void> {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    res.status(200).json({
+      message: 'Embedding cache statistics retrieved successfully',
+      data: { cache: embeddingCache.getStats() },
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+
+import { authenticateToken } from '../authentication/auth.middleware';
+import { AdminController } from './admin.controller';
+import { ReembedRequest, reembedSchema } from './admin.types';
+import { validateBody } from '../middleware/validation.middleware';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { requireOperator } from '../authorization/authorization.middleware';
+
+const router = Router();
+const adminController = new AdminController();
+
+// Backfill vectors of the caller's workspaces (body: workspaceId?, force?)
+router.post(
+  '/reembed',
+  asyncHandler(authenticateToken),
+  validateBody<ReembedRequest>(reembedSchema),
+  asyncHandler(adminController.reembedNotes.bind(adminController))
+);
+
+// Size, limits and hit/miss counts of the embedding cache, shared by every workspace so operators only
+router.get(
+  '/embedding-cache',
+  asyncHandler(authenticateToken),
+  requireOperator,
+  asyncHandler(adminController.getEmbeddingCacheStats.bind(adminController))
+);
+
+export default router;
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Zod Schemas
+// ------------------------------------------------------------
+export const reembedSchema = z
+  .object({
+    workspaceId: z.string().min(1, 'workspaceId must not be empty').optional(),
+    force: z.boolean().default(false),
+  })
+  .strict();
+
+// Request types
+// ------------------------------------------------------------
+export type ReembedRequest = z.infer<typeof reembedSchema>;
@@ -0,0 +1,141 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import mongoose from 'mongoose';
+import { WorkspaceAction, assertAllowed, getNoteEditActions, getNoteTypeActions } from './authorization.policy';
+import { noteModel } from '../notes/note.model';
+import { messageModel } from '../messages/message.model';
+import { workspaceModel } from '../workspaces/workspace.model';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import logger from '../utils/logger.util';
+
+// A workspace together with actions the request needs beyond the route's own, e.g. to edit a template
+export interface WorkspaceTarget {
+  workspaceId: string | undefined;
+  actions: WorkspaceAction[];
+}
+
+// Id of the workspace a request acts on, undefined when the request does not name one
+export type WorkspaceResolver = (req: Request) => Promise<string | WorkspaceTarget | undefined>;
+
+const nonEmpty = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+export const workspaceFromParam = (name = 'id'): WorkspaceResolver =>
+  req => Promise.resolve(nonEmpty(req.params[name]));
+
+export const workspaceFromQuery = (name = 'workspaceId'): WorkspaceResolver =>
+  req => Promise.resolve(nonEmpty(req.query[name]));
+
+export const workspaceFromBody = (name = 'workspaceId'): WorkspaceResolver =>
+  req => Promise.resolve(nonEmpty((req.body as Record<string, unknown> | undefined)?.[name]));
+
+// Notes in the trash resolve as well, so they can still be restored
+export const workspaceOfNote = (name = 'id'): WorkspaceResolver => async req => {
+  const noteId = req.params[name];
+  const note = mongoose.isValidObjectId(noteId) ? await noteModel.findById(noteId) : null;
+  if (!note) {
+    throw new Error('Note not found');
+  }
+  return note.workspaceId;
+};
+
+// Like workspaceOfNote, adding what changing that particular note asks of the user's role
+export const workspaceOfNoteToEdit = (name = 'id'): WorkspaceResolver => async req => {
+  const noteId = req.params[name];
+  const note = mongoose.isValidObjectId(noteId) ? await noteModel.findById(noteId) : null;
+  if (!note) {
+    throw new Error('Note not found');
+  }
+  return { workspaceId: note.workspaceId, actions: req.user ? getNoteEditActions(note, req.user._id) : [] };
+};
+
+// The workspace of a note about to be created, templates need their own permission
+export const workspaceOfNewNote = (name = 'workspaceId'): WorkspaceResolver => req => {
+  const body = req.body as Record<string, unknown> | undefined;
+  return Promise.resolve({
+    workspaceId: nonEmpty(body?.[name]),
+    actions: typeof body?.noteType === 'string' ? getNoteTypeActions(body.noteType) : [],
+  });
+};
+
+export const workspaceOfMessage = (name = 'messageId'): WorkspaceResolver => async req => {
+  const messageId = req.params[name];
+  const message = mongoose.isValidObjectId(messageId) ? await messageModel.findById(messageId) : null;
+  if (!message) {
+    throw new Error('Message not found');
+  }
+  return message.workspaceId.toString();
+};
+
+interface AuthorizeOptions {
+  includeTrashed?: boolean; // Let the request through for a workspace in the trash
+}
+
+/**
+ * Lets a request through only when the role of the authenticated user allows `action`,
+ * and whatever else the resolver asks for, on the workspace `resolve` finds for it.
+ * Rules about single notes (e.g. only their author may delete them) stay with the services.
+ */
+export const authorizeWorkspace = (
+  action: WorkspaceAction,
+  resolve: WorkspaceResolver,
+  options: AuthorizeOptions = {}
+): RequestHandler =>
+  asyncHandler(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?._id;
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    try {
+      const resolved = await resolve(req);
+      const { workspaceId, actions } = typeof resolved === 'object' ? resolved : { workspaceId: resolved, actions: [] };
+      if (!workspaceId) {
+        res.status(400).json({ error: 'workspaceId is required' });
+        return;
+      }
+
+      const workspace = mongoose.isValidObjectId(workspaceId) ? await workspaceModel.findById(workspaceId) : null;
+      if (!workspace || (workspace.deletedAt && !options.includeTrashed)) {
+        throw new Error('Workspace not found');
+      }
+
+      assertAllowed(workspace, userId, action, ...actions);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.endsWith('not found')) {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.startsWith('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      logger.error('Error authorizing request:', error);
+      res.status(500).json({ error: 'Failed to authorize request' });
+      return;
+    }
+
+    next();
+  });
+
+// Operators are the users whose email ADMIN_EMAILS lists (comma separated), read on every request
+const isOperator = (email: string): boolean =>
+  (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .some(entry => entry.length > 0 && entry === email.toLowerCase());
+
+// Lets a request about the server as a whole, rather than one workspace, through for operators only
+export const requireOperator: RequestHandler = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({ error: 'User not authenticated' });
+    return;
+  }
+  if (!isOperator(req.user.email)) {
+    res.status(403).json({ error: 'Access denied: Only operators can do this' });
+    return;
+  }
+  next();
+};
@@ -0,0 +1,114 @@
+import mongoose from 'mongoose';
+import { DEFAULT_MEMBER_ROLE, WorkspaceRole, WsMembership, WsMembershipStatus } from '../workspaces/workspace.types';
+import { IWorkspaceDocument } from '../workspaces/workspace.model';
+import { NoteType } from '../notes/notes.types';
+
+// What a request wants to do with a workspace or with the notes and messages in it
+export type WorkspaceAction =
+  | 'view'
+  | 'comment' // Post chat messages
+  | 'edit' // Create notes and change one's own
+  | 'editOthers' // Change notes other members wrote
+  | 'manageTemplates' // Create, change and migrate templates
+  | 'invite'
+  | 'deleteMessages'
+  | 'manage'; // Settings, tags, bans, roles and the trash, the owner's alone
+
+export type WorkspaceMembers = Pick<IWorkspaceDocument, 'ownerId' | 'members' | 'bannedMembers' | 'roles'>;
+
+const ROLE_ACTIONS: Record<WorkspaceRole, WorkspaceAction[]> = {
+  [WorkspaceRole.OWNER]: ['view', 'comment', 'edit', 'editOthers', 'manageTemplates', 'invite', 'deleteMessages', 'manage'],
+  [WorkspaceRole.ADMIN]: ['view', 'comment', 'edit', 'editOthers', 'manageTemplates', 'invite', 'deleteMessages'],
+  [WorkspaceRole.EDITOR]: ['view', 'comment', 'edit', 'editOthers'],
+  [WorkspaceRole.COMMENTER]: ['view', 'comment'],
+  [WorkspaceRole.VIEWER]: ['view'],
+};
+
+const ACTION_DESCRIPTIONS: Record<WorkspaceAction, string> = {
+  view: 'view this workspace',
+  comment: 'post messages',
+  edit: 'edit notes',
+  editOthers: "edit other members' notes",
+  manageTemplates: 'manage templates',
+  invite: 'invite members',
+  deleteMessages: 'delete messages',
+  manage: 'manage this workspace',
+};
+
+// The owner is checked first, and a ban outweighs any leftover entry in members
+export function getMembershipStatus(
+  workspace: WorkspaceMembers,
+  userId: mongoose.Types.ObjectId | string
+): WsMembershipStatus {
+  const id = userId.toString();
+  if (workspace.ownerId.toString() === id) {
+    return WsMembershipStatus.OWNER;
+  }
+  if (workspace.bannedMembers.some(memberId => memberId.toString() === id)) {
+    return WsMembershipStatus.BANNED;
+  }
+  if (workspace.members.some(memberId => memberId.toString() === id)) {
+    return WsMembershipStatus.MEMBER;
+  }
+  return WsMembershipStatus.NOT_MEMBER;
+}
+
+export function getMembership(workspace: WorkspaceMembers, userId: mongoose.Types.ObjectId | string): WsMembership {
+  const status = getMembershipStatus(workspace, userId);
+  switch (status) {
+    case WsMembershipStatus.OWNER:
+      return { status, role: WorkspaceRole.OWNER };
+    case WsMembershipStatus.MEMBER:
+      return { status, role: workspace.roles?.get(userId.toString()) ?? DEFAULT_MEMBER_ROLE };
+    default:
+      return { status, role: null };
+  }
+}
+
+export function isAllowed(role: WorkspaceRole | null, action: WorkspaceAction): boolean {
+  return role !== null && ROLE_ACTIONS[role].includes(action);
+}
+
+// Templates need their own permission on top of whatever is done with them
+export function getNoteTypeActions(noteType: string): WorkspaceAction[] {
+  return noteType === NoteType.TEMPLATE ? ['manageTemplates'] : [];
+}
+
+// What changing a note asks of the user's role, notes of other members need a permission of their own
+export function getNoteEditActions(
+  note: { userId: mongoose.Types.ObjectId | string; noteType: string },
+  userId: mongoose.Types.ObjectId | string
+): WorkspaceAction[] {
+  const actions: WorkspaceAction[] = ['edit', ...getNoteTypeActions(note.noteType)];
+  if (note.userId.toString() !== userId.toString()) {
+    actions.push('editOthers');
+  }
+  return actions;
+}
+
+const getDeniedMessage = ({ status, role }: WsMembership, action: WorkspaceAction): string => {
+  if (status === WsMembershipStatus.BANNED) {
+    return 'Access denied: You are banned from this workspace';
+  }
+  if (role === null) {
+    return 'Access denied: You are not a member of this workspace';
+  }
+  if (action === 'manage') {
+    return 'Access denied: Only workspace owner can do this';
+  }
+  return `Access denied: The ${role} role cannot ${ACTION_DESCRIPTIONS[action]}`;
+};
+
+// Throws an 'Access denied' error unless the user may take every action, returns their membership otherwise
+export function assertAllowed(
+  workspace: WorkspaceMembers,
+  userId: mongoose.Types.ObjectId | string,
+  ...actions: WorkspaceAction[]
+): WsMembership {
+  const membership = getMembership(workspace, userId);
+  const denied = actions.find(action => !isAllowed(membership.role, action));
+  if (denied) {
+    throw new Error(getDeniedMessage(membership, denied));
+  }
+  return membership;
+}
@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+
+import { EmbeddingProvider } from './embedding.types';
+import { EMBEDDING_CACHE_MAX_ENTRIES, EMBEDDING_CACHE_TTL_MS } from '../utils/constants';
+
+export interface EmbeddingCacheStats {
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  evictions: number; // Entries dropped for size or age
+  hitRate: number; // Share of lookups served from the cache, 0 before the first lookup
+}
+
+interface CacheEntry {
+  vector: number[];
+  expiresAt: number;
+}
+
+// Inputs that only differ in Unicode composition or runs of whitespace embed the same
+export const normalizeEmbeddingInput = (text: string): string =>
+  text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+/**
+ * In-memory LRU cache of vectors keyed by a hash of the provider, model and
+ * normalized input. Entries expire after `ttlMs`, and the least recently used
+ * entry makes room once `maxEntries` is reached.
+ */
+export class EmbeddingCache {
+  // Map iteration follows insertion order, lookups move an entry to the back
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    readonly maxEntries: number = EMBEDDING_CACHE_MAX_ENTRIES,
+    readonly ttlMs: number = EMBEDDING_CACHE_TTL_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  static getKey(provider: Pick<EmbeddingProvider, 'name' | 'model'>, input: string): string {
+    return createHash('sha256')
+      .update(`${provider.name}\n${provider.model}\n${normalizeEmbeddingInput(input)}`)
+      .digest('hex');
+  }
+
+  get(key: string): number[] | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      this.evictions++;
+    } else if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.hits++;
+      return [...entry.vector];
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  set(key: string, vector: number[]): void {
+    if (this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+    this.entries.set(key, { vector: [...vector], expiresAt: this.now() + this.ttlMs });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttlMs: this.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+}
+
+// Serves repeated inputs from the cache, only misses reach the wrapped provider
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private readonly provider: EmbeddingProvider,
+    private readonly cache: EmbeddingCache
+  ) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get model() {
+    return this.provider.model;
+  }
+
+  get dimension() {
+    return this.provider.dimension;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const key = EmbeddingCache.getKey(this.provider, text);
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const vector = await this.provider.embed(normalizeEmbeddingInput(text));
+    this.cache.set(key, vector);
+    return vector;
+  }
+
+  // Cached texts are answered right away, the misses go to the provider in one batch
+  async embedMany(texts: string[]): Promise<number[][]> {
+    const keys = texts.map(text => EmbeddingCache.getKey(this.provider, text));
+    const vectors = keys.map(key => this.cache.get(key));
+    const missing = vectors.flatMap((vector, i) => (vector ? [] : [i]));
+    if (missing.length > 0) {
+      const embedded = await this.provider.embedMany(missing.map(i => normalizeEmbeddingInput(texts[i])));
+      missing.forEach((i, n) => {
+        vectors[i] = embedded[n];
+        this.cache.set(keys[i], embedded[n]);
+      });
+    }
+    return vectors as number[][];
+  }
+}
+
+export const embeddingCache = new EmbeddingCache();
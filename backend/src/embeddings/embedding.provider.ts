@@ -0,0 +1,20 @@
+import { EmbeddingProvider } from './embedding.types';
+import { LocalEmbeddingProvider } from './local.provider';
+import { NoopEmbeddingProvider } from './noop.provider';
+import { OpenAIEmbeddingProvider } from './openai.provider';
+
+// Picks the provider named by EMBEDDING_PROVIDER (openai by default)
+export function createEmbeddingProvider(
+  name: string = process.env.EMBEDDING_PROVIDER ?? 'openai'
+): EmbeddingProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(undefined, process.env.EMBEDDING_MODEL);
+    case 'local':
+      return new LocalEmbeddingProvider();
+    case 'none':
+      return new NoopEmbeddingProvider();
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
@@ -0,0 +1,26 @@
+export type EmbeddingProviderName = 'openai' | 'local' | 'none';
+
+// Turns text into a vector; vectors are only comparable within the same provider, model and dimension
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimension: number;
+  embed(text: string): Promise<number[]>;
+  embedMany(texts: string[]): Promise<number[][]>; // One vector per text, in order, with as few provider calls as it allows
+}
+
+// Recorded on each note next to its vectorData
+export interface EmbeddingInfo {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimension: number;
+}
+
+// pending until a worker stored the vector of the note's latest content, failed once retries ran out
+export type EmbeddingStatus = 'pending' | 'ready' | 'failed';
+
+// Notes embedded before providers were recorded all used OpenAI
+export const LEGACY_EMBEDDING: Omit<EmbeddingInfo, 'dimension'> = {
+  provider: 'openai',
+  model: 'text-embedding-3-large',
+};
@@ -0,0 +1,131 @@
+import { noteModel } from '../notes/note.model';
+import { noteEvents } from '../notes/note.events';
+import { noteService } from '../notes/notes.service';
+import {
+  EMBEDDING_JOB_BACKOFF_MS,
+  EMBEDDING_JOB_LOCK_MS,
+  EMBEDDING_JOB_MAX_ATTEMPTS,
+  EMBEDDING_JOB_MAX_BACKOFF_MS,
+  EMBEDDING_WORKER_INTERVAL_MS,
+} from '../utils/constants';
+import logger from '../utils/logger.util';
+import { IEmbeddingJobDocument, embeddingJobModel } from './embeddingJob.model';
+
+export interface EmbeddingJobsResult {
+  embedded: number;
+  failed: number;
+}
+
+// Wait before the next attempt of a job that failed `attempts` times
+export function getEmbeddingRetryDelay(attempts: number): number {
+  return Math.min(EMBEDDING_JOB_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), EMBEDDING_JOB_MAX_BACKOFF_MS);
+}
+
+// Next due job, or one claimed by a worker that went away without finishing it
+async function claimJob(now: Date): Promise<IEmbeddingJobDocument | null> {
+  return embeddingJobModel.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'queued', runAt: { $lte: now } },
+        { status: 'processing', lockedAt: { $lte: new Date(now.getTime() - EMBEDDING_JOB_LOCK_MS) } },
+      ],
+    },
+    { $set: { status: 'processing', lockedAt: now }, $inc: { attempts: 1 } },
+    { sort: { runAt: 1 }, new: true }
+  );
+}
+
+// True when the vector was stored, false when the attempt failed
+async function runJob(job: IEmbeddingJobDocument, now: Date): Promise<boolean> {
+  try {
+    const note = await noteService.embedNote(job.noteId);
+
+    // Writes since the job was claimed queued it again for their revision, it stays for the next run
+    const { deletedCount } = await embeddingJobModel.deleteOne({ _id: job._id, revision: job.revision, status: 'processing' });
+    if (note && job.isNewNote && deletedCount > 0) {
+      noteEvents.emit('created', note);
+    }
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= EMBEDDING_JOB_MAX_ATTEMPTS;
+
+    const { modifiedCount } = await embeddingJobModel.updateOne(
+      { _id: job._id, revision: job.revision, status: 'processing' },
+      {
+        status: exhausted ? 'failed' : 'queued',
+        runAt: new Date(now.getTime() + getEmbeddingRetryDelay(job.attempts)),
+        lockedAt: null,
+        lastError: message,
+      }
+    );
+    // Unless a write queued the note again in the meantime
+    if (modifiedCount > 0) {
+      await noteModel.updateOne(
+        { _id: job.noteId },
+        { embeddingStatus: exhausted ? 'failed' : 'pending', embeddingError: message },
+        { timestamps: false }
+      );
+    }
+
+    logger.error(`Embedding note ${job.noteId} failed (attempt ${job.attempts}): ${message}`);
+    return false;
+  }
+}
+
+/**
+ * Works through every embedding job due at `now`. Failed attempts are retried
+ * with exponential backoff until EMBEDDING_JOB_MAX_ATTEMPTS, after which the
+ * job and its note are marked as failed until they are queued again.
+ */
+export async function processEmbeddingJobs(now: Date = new Date()): Promise<EmbeddingJobsResult> {
+  const result: EmbeddingJobsResult = { embedded: 0, failed: 0 };
+
+  let job = await claimJob(now);
+  while (job) {
+    if (await runJob(job, now)) {
+      result.embedded++;
+    } else {
+      result.failed++;
+    }
+    job = await claimJob(now);
+  }
+  return result;
+}
+
+// Processes embedding jobs as they are queued and polls for retries, for the lifetime of the server process
+export function startEmbeddingWorker(): () => void {
+  let running = false;
+  let requested = false;
+
+  const run = () => {
+    if (running) {
+      requested = true;
+      return;
+    }
+
+    running = true;
+    processEmbeddingJobs()
+      .catch((error: unknown) => {
+        logger.error('Embedding worker failed:', error);
+      })
+      .finally(() => {
+        running = false;
+        if (requested) {
+          requested = false;
+          run();
+        }
+      });
+  };
+
+  const timer = setInterval(run, EMBEDDING_WORKER_INTERVAL_MS);
+  // Never keep the process alive just for the worker
+  timer.unref();
+  noteEvents.on('embeddingQueued', run);
+  run();
+
+  return () => {
+    clearInterval(timer);
+    noteEvents.off('embeddingQueued', run);
+  };
+}
@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type EmbeddingJobStatus = 'queued' | 'processing' | 'failed';
+
+// Pending vector computation for one note, removed once the vector is stored
+export interface IEmbeddingJobDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  noteId: string;
+  revision: number; // Note revision that queued the job, tells a job queued again apart
+  isNewNote: boolean; // Announce the note as created once it has its first vector
+  status: EmbeddingJobStatus;
+  attempts: number;
+  runAt: Date;
+  lockedAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const embeddingJobSchema = new Schema<IEmbeddingJobDocument>(
+  {
+    // One job per note, writes while it is queued only move it to the latest revision
+    noteId: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    revision: {
+      type: Number,
+      required: true
+    },
+    isNewNote: {
+      type: Boolean,
+      default: false
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'processing', 'failed'],
+      default: 'queued'
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    // Not picked up before this time, pushed back after every failed attempt
+    runAt: {
+      type: Date,
+      default: Date.now
+    },
+    lockedAt: {
+      type: Date,
+      default: null
+    },
+    lastError: {
+      type: String,
+      default: null
+    },
+  },
+  {
+    timestamps: true
+  }
+);
+
+embeddingJobSchema.index({ status: 1, runAt: 1 });
+
+export const embeddingJobModel = mongoose.model<IEmbeddingJobDocument>('EmbeddingJob', embeddingJobSchema);
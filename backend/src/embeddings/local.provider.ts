@@ -0,0 +1,60 @@
+import { EmbeddingProvider } from './embedding.types';
+
+// 32-bit FNV-1a, stable across processes and platforms
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Offline provider: hashes word unigrams and character trigrams into a fixed
+ * number of buckets with sublinear term frequency weights, then L2-normalizes.
+ * Deterministic, so the same text always yields the same vector.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = 'hashed-ngram-v1';
+
+  constructor(readonly dimension: number = 512) {}
+
+  private getFeatures(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) ?? 0) + 1);
+
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+    for (const word of words) {
+      add(`w:${word}`);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`);
+      }
+    }
+    return counts;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const features = this.getFeatures(text);
+    if (features.size === 0) {
+      return [];
+    }
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, count] of features) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so colliding features tend to cancel out instead of piling up
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[(hash & 0x7fffffff) % this.dimension] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  async embedMany(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embed(text)));
+  }
+}
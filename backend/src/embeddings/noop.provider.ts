@@ -0,0 +1,16 @@
+import { EmbeddingProvider } from './embedding.types';
+
+// Stores no vectors at all, semantic ranking is skipped and notes keep their default order
+export class NoopEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'none';
+  readonly model = 'none';
+  readonly dimension = 0;
+
+  async embed(): Promise<number[]> {
+    return [];
+  }
+
+  async embedMany(texts: string[]): Promise<number[][]> {
+    return texts.map(() => []);
+  }
+}
@@ -0,0 +1,48 @@
+import OpenAI from 'openai';
+
+import { EmbeddingProvider } from './embedding.types';
+
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-large': 3072,
+  'text-embedding-3-small': 1536,
+};
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly dimension: number;
+
+  constructor(
+    private client?: OpenAI,
+    readonly model: string = 'text-embedding-3-large'
+  ) {
+    this.dimension = MODEL_DIMENSIONS[model] ?? 0;
+  }
+
+  private getClient(): OpenAI {
+    return this.client || (this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY }));
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.getClient().embeddings.create({
+      model: this.model,
+      input: text,
+    });
+    return response.data[0].embedding;
+  }
+
+  // A single request for every text, the API answers with the index of each input
+  async embedMany(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    const response = await this.getClient().embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+    const vectors = new Array<number[]>(texts.length).fill([]);
+    response.data.forEach(item => {
+      vectors[item.index] = item.embedding;
+    });
+    return vectors;
+  }
+}
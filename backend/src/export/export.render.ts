@@ -0,0 +1,148 @@
+import { Field } from '../notes/notes.types';
+import { ExportArchive, ExportedNote } from './export.types';
+
+// Marks the start of every note in Markdown exports, with what the rendered text leaves out
+export const MARKDOWN_NOTE_MARKER = 'note';
+
+// Datetime fields read "2025-02-12 18:00"; values sent with an offset are shown in UTC
+export function formatDateTime(value: string): string {
+  const hasOffset = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value);
+  const date = new Date(hasOffset ? value : `${value}Z`);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  const formatted = date.toISOString().slice(0, 16).replace('T', ' ');
+  return hasOffset ? `${formatted} UTC` : formatted;
+}
+
+// Plain text of a field value, what CSV cells and inline Markdown show; empty when the field is unset
+export function getFieldValue(field: Field): string {
+  switch (field.fieldType) {
+    case 'title':
+    case 'textbox':
+    case 'text':
+    case 'url':
+      return field.content ?? '';
+    case 'datetime':
+      return field.content ? formatDateTime(field.content) : '';
+    case 'checkbox':
+      return field.content == null ? '' : String(field.content);
+    case 'number':
+      return field.content == null ? '' : [field.content, field.unit].filter(part => part != null && part !== '').join(' ');
+    case 'select':
+      return (field.content ?? []).join('; ');
+    case 'signature':
+      return field.userName ?? '';
+    case 'image':
+      return field.imagePath ?? '';
+  }
+}
+
+const renderField = (field: Field): string | null => {
+  const value = getFieldValue(field);
+  const label = field.label ? `**${field.label}:** ` : '';
+
+  switch (field.fieldType) {
+    case 'title':
+      return value ? `# ${value}` : null;
+    case 'textbox':
+      if (!value) {
+        return null;
+      }
+      return field.label ? `**${field.label}**\n\n${value}` : value;
+    case 'checkbox':
+      return `- [${field.content ? 'x' : ' '}] ${field.label ?? ''}`.trimEnd();
+    case 'url':
+      return value ? `${label}<${value}>` : null;
+    case 'signature':
+      return value ? `${label}Signed by ${value}` : null;
+    case 'image':
+      return value ? `![${field.caption ?? field.label ?? ''}](${value})` : null;
+    default:
+      return value ? `${label}${value}` : null;
+  }
+};
+
+/**
+ * One note as Markdown: titles become headings, text boxes paragraphs and
+ * other fields labelled lines. A leading HTML comment keeps what the text
+ * cannot show (id, type, tags, template and timestamps) for imports.
+ */
+export function renderNoteMarkdown(note: ExportedNote): string {
+  const meta = {
+    _id: note._id,
+    noteType: note.noteType,
+    tags: note.tags,
+    templateId: note.templateId,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+  };
+  const blocks = [`<!-- ${MARKDOWN_NOTE_MARKER} ${JSON.stringify(meta)} -->`];
+
+  // Tags go right below a leading title
+  const titled = note.fields[0]?.fieldType === 'title' ? 1 : 0;
+  const render = (fields: Field[]) => fields.map(renderField).filter((block): block is string => block !== null);
+  blocks.push(...render(note.fields.slice(0, titled)));
+  if (note.tags.length > 0) {
+    blocks.push(`Tags: ${note.tags.map(tag => `\`${tag}\``).join(', ')}`);
+  }
+  blocks.push(...render(note.fields.slice(titled)));
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+export function renderMarkdown(notes: ExportedNote[]): string {
+  return notes.map(renderNoteMarkdown).join('\n---\n\n');
+}
+
+export function renderJson(archive: ExportArchive): string {
+  return JSON.stringify(archive, null, 2);
+}
+
+// RFC 4180 quoting; cells a spreadsheet would run as a formula are prefixed with a quote
+const escapeCsvCell = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const FIXED_COLUMNS = ['_id', 'noteType', 'tags', 'templateId', 'createdAt', 'updatedAt'] as const;
+
+/**
+ * Notes as CSV, one row per note and one column per field label. Notes made
+ * from the same template share their labels, so their values line up; fields
+ * without a label are named after their type. A label used twice in a note
+ * gets a numbered column for every repeat.
+ */
+export function renderCsv(notes: ExportedNote[]): string {
+  const columns: string[] = [];
+  const rows = notes.map(note => {
+    const cells = new Map<string, string>();
+    const seen = new Map<string, number>();
+    for (const field of note.fields) {
+      const name = field.label ?? field.fieldType;
+      const occurrence = (seen.get(name) ?? 0) + 1;
+      seen.set(name, occurrence);
+      const column = occurrence === 1 ? name : `${name} (${occurrence})`;
+      if (!columns.includes(column)) {
+        columns.push(column);
+      }
+      cells.set(column, getFieldValue(field));
+    }
+    return { note, cells };
+  });
+
+  const header = [...FIXED_COLUMNS, ...columns];
+  const lines = [header.map(escapeCsvCell).join(',')];
+  for (const { note, cells } of rows) {
+    const fixed = [
+      note._id,
+      note.noteType,
+      note.tags.join('; '),
+      note.templateId ?? '',
+      new Date(note.createdAt).toISOString(),
+      new Date(note.updatedAt).toISOString(),
+    ];
+    lines.push([...fixed, ...columns.map(column => cells.get(column) ?? '')].map(escapeCsvCell).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,119 @@
+import mongoose from 'mongoose';
+import { ExportArchive, ExportedNote, ExportFile, ExportFormat } from './export.types';
+import { renderCsv, renderJson, renderMarkdown } from './export.render';
+import { Note, NoteFilters, NotePageOptions } from '../notes/notes.types';
+import { INoteDocument, noteModel } from '../notes/note.model';
+import { noteService } from '../notes/notes.service';
+import { IWorkspaceDocument, workspaceModel } from '../workspaces/workspace.model';
+import { assertAllowed } from '../authorization/authorization.policy';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    markdown: 'text/markdown; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    csv: 'text/csv; charset=utf-8',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+    markdown: 'md',
+    json: 'json',
+    csv: 'csv',
+};
+
+const toExportedNote = (note: Note): ExportedNote => {
+    const {
+        vectorData: _vectorData,
+        embedding: _embedding,
+        embeddingStatus: _embeddingStatus,
+        embeddingError: _embeddingError,
+        deletedAt: _deletedAt,
+        ...exported
+    } = note;
+    return exported;
+};
+
+const toNote = (note: INoteDocument): Note => ({
+    ...note.toObject(),
+    _id: note._id.toString(),
+    userId: note.userId.toString(),
+} as Note);
+
+export class ExportService {
+    private async getWorkspaceForMember(workspaceId: string, userId: mongoose.Types.ObjectId): Promise<IWorkspaceDocument> {
+        const workspace = await workspaceModel.findById(workspaceId);
+        if (!workspace || workspace.deletedAt) {
+            throw new Error('Workspace not found');
+        }
+
+        assertAllowed(workspace, userId, 'view');
+
+        return workspace;
+    }
+
+    private render(
+        notes: Note[],
+        format: ExportFormat,
+        basename: string,
+        workspace?: IWorkspaceDocument
+    ): ExportFile {
+        const exported = notes.map(toExportedNote);
+        let body: string;
+        if (format === 'markdown') {
+            body = renderMarkdown(exported);
+        } else if (format === 'csv') {
+            body = renderCsv(exported);
+        } else {
+            const archive: ExportArchive = {
+                format: 'notes-archive',
+                version: 1,
+                exportedAt: new Date(),
+                ...(workspace && {
+                    workspace: {
+                        _id: workspace._id.toString(),
+                        name: workspace.name,
+                        description: workspace.profile.description,
+                    },
+                }),
+                notes: exported,
+            };
+            body = renderJson(archive);
+        }
+
+        return { filename: `${basename}.${EXTENSIONS[format]}`, contentType: CONTENT_TYPES[format], body };
+    }
+
+    async exportNote(noteId: string, userId: mongoose.Types.ObjectId, format: ExportFormat): Promise<ExportFile> {
+        const note = await noteModel.findById(noteId);
+        if (!note || note.deletedAt) {
+            throw new Error('Note not found');
+        }
+        await this.getWorkspaceForMember(note.workspaceId, userId);
+
+        return this.render([toNote(note)], format, `note-${noteId}`);
+    }
+
+    // The notes GET /notes would list for the same filters, without paging unless a limit is given
+    async exportNotes(
+        userId: mongoose.Types.ObjectId,
+        workspaceId: string,
+        noteType: string,
+        filters: NoteFilters,
+        query: string,
+        page: NotePageOptions,
+        format: ExportFormat
+    ): Promise<ExportFile> {
+        const { notes } = await noteService.getNotes(userId, workspaceId, noteType, filters, query, page);
+
+        return this.render(notes, format, `notes-${workspaceId}`);
+    }
+
+    // Every live note of a workspace, oldest first, for backups
+    async exportWorkspace(workspaceId: string, userId: mongoose.Types.ObjectId, format: ExportFormat): Promise<ExportFile> {
+        const workspace = await this.getWorkspaceForMember(workspaceId, userId);
+
+        const notes = await noteModel.find({ workspaceId, deletedAt: null }).sort({ createdAt: 1, _id: 1 });
+
+        return this.render(notes.map(toNote), format, `workspace-${workspaceId}`, workspace);
+    }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+import { Note } from '../notes/notes.types';
+
+export type ExportFormat = 'markdown' | 'json' | 'csv';
+
+// A note as written to archives, without the vector and embedding bookkeeping
+export type ExportedNote = Omit<Note, 'vectorData' | 'embedding' | 'embeddingStatus' | 'embeddingError' | 'deletedAt'>;
+
+export interface ExportArchive {
+  format: 'notes-archive';
+  version: 1;
+  exportedAt: Date;
+  workspace?: { _id: string; name: string; description: string }; // Set when a whole workspace is exported
+  notes: ExportedNote[];
+}
+
+// Rendered export, ready to be sent as a download
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+// Zod Schemas
+// ------------------------------------------------------------
+export const exportFormatQuerySchema = z.object({
+  format: z.enum(['markdown', 'json', 'csv'], { error: 'format must be markdown, json or csv' }).optional().default('json'),
+});
@@ -0,0 +1,301 @@
+import { Field } from '../notes/notes.types';
+import { MARKDOWN_NOTE_MARKER } from '../export/export.render';
+import { CsvColumnTarget, CsvFieldType, CsvMapping, ImportCandidate } from './import.types';
+
+const NOTE_MARKER = new RegExp(`^<!-- ${MARKDOWN_NOTE_MARKER} (\\{.*\\}) -->$`, 'm');
+
+// Columns CSV exports add next to the fields
+const EXPORT_COLUMNS: Record<string, CsvColumnTarget> = {
+  _id: 'ignore',
+  templateId: 'ignore',
+  createdAt: 'ignore',
+  updatedAt: 'ignore',
+  tags: 'tags',
+  noteType: 'noteType',
+};
+
+const CSV_FIELD_TYPES: CsvFieldType[] = ['title', 'textbox', 'text', 'datetime', 'checkbox', 'number', 'url'];
+
+const stripBom = (text: string): string => (text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+
+// Rows of an RFC 4180 CSV document, blank lines skipped
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endCell = () => {
+    // Exports prefix cells a spreadsheet would run as a formula with a '
+    row.push(/^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell);
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  const input = stripBom(text);
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+// "2025-02-12 18:00" as exports format datetimes, with " UTC" when the value had an offset
+const parseDateTime = (value: string): string | null => {
+  const match = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)( UTC|Z|[+-]\d{2}:?\d{2})?$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const offset = match[3]?.trim().toUpperCase() === 'UTC' ? 'Z' : match[3] ?? '';
+  return `${match[1]}T${match[2]}${offset}`;
+};
+
+// A CSV cell as the content of a field of the given type
+const parseCell = (fieldType: CsvFieldType, value: string): { content: unknown; unit?: string } => {
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return { content: null };
+  }
+
+  switch (fieldType) {
+    case 'datetime': {
+      const content = parseDateTime(trimmed);
+      if (!content) {
+        throw new Error(`"${value}" is not a date and time`);
+      }
+      return { content };
+    }
+    case 'checkbox':
+      if (/^(true|yes|y|x|1)$/i.test(trimmed)) {
+        return { content: true };
+      }
+      if (/^(false|no|n|0)$/i.test(trimmed)) {
+        return { content: false };
+      }
+      throw new Error(`"${value}" is not true or false`);
+    case 'number': {
+      // Exports write the unit after the number
+      const match = /^(-?\d+(?:\.\d+)?)(?:\s+(.+))?$/.exec(trimmed);
+      if (!match) {
+        throw new Error(`"${value}" is not a number`);
+      }
+      return { content: Number(match[1]), ...(match[2] && { unit: match[2] }) };
+    }
+    default:
+      return { content: value };
+  }
+};
+
+// Without a mapping, export columns keep their meaning, columns named after a field type become that
+// field and every other column a text field labelled with its header
+const getDefaultTarget = (header: string): CsvColumnTarget =>
+  EXPORT_COLUMNS[header]
+  ?? (CSV_FIELD_TYPES.includes(header as CsvFieldType)
+    ? { fieldType: header as CsvFieldType }
+    : { fieldType: 'text', label: header });
+
+const splitTags = (value: string): string[] =>
+  value.split(/[;,]/).map(tag => tag.trim()).filter(tag => tag.length > 0);
+
+/**
+ * One candidate note per CSV row after the header. With a mapping only the
+ * mapped columns are read; a header the mapping names but the file lacks is
+ * reported on every row.
+ */
+export function parseCsvNotes(filename: string, text: string, mapping?: CsvMapping): ImportCandidate[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [{ source: filename, error: 'The file has no header row' }];
+  }
+
+  const missing = mapping ? Object.keys(mapping).filter(name => !header.includes(name)) : [];
+  const columns = header.map(name => ({ name, target: mapping ? mapping[name] ?? 'ignore' : getDefaultTarget(name) }));
+
+  return rows.map((cells, index) => {
+    const source = `${filename} row ${index + 2}`;
+    if (missing.length > 0) {
+      return { source, error: `Mapped columns not found: ${missing.join(', ')}` };
+    }
+
+    const note: { noteType?: string; tags: string[]; fields: Record<string, unknown>[] } = { tags: [], fields: [] };
+    try {
+      columns.forEach(({ name, target }, column) => {
+        const value = cells[column] ?? '';
+        if (target === 'ignore') {
+          return;
+        }
+        if (target === 'tags') {
+          note.tags.push(...splitTags(value));
+        } else if (target === 'noteType') {
+          note.noteType = value.trim() || undefined;
+        } else {
+          let parsed: { content: unknown; unit?: string };
+          try {
+            parsed = parseCell(target.fieldType, value);
+          } catch (error) {
+            throw new Error(`Column "${name}": ${error instanceof Error ? error.message : String(error)}`);
+          }
+          // Columns named after their field type are unlabelled fields
+          const label = target.label ?? (name === target.fieldType ? undefined : name);
+          note.fields.push({
+            _id: String(note.fields.length + 1),
+            fieldType: target.fieldType,
+            ...(label !== undefined && { label }),
+            ...parsed,
+          });
+        }
+      });
+    } catch (error) {
+      return { source, error: error instanceof Error ? error.message : String(error) };
+    }
+    return { source, note };
+  });
+}
+
+// Notes of a JSON archive as written by exports, or a bare array of notes; other keys of a note are ignored
+export function parseJsonNotes(filename: string, text: string): ImportCandidate[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripBom(text));
+  } catch {
+    return [{ source: filename, error: 'The file is not valid JSON' }];
+  }
+
+  const notes = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { notes?: unknown } | null)?.notes;
+  if (!Array.isArray(notes)) {
+    return [{ source: filename, error: 'Expected an array of notes or an archive with a notes array' }];
+  }
+
+  return notes.map((entry: unknown, index) => {
+    const source = `${filename} note ${index + 1}`;
+    if (entry === null || typeof entry !== 'object') {
+      return { source, error: 'Note must be an object' };
+    }
+    const { noteType, tags, fields } = entry as Record<string, unknown>;
+    return { source, note: { noteType, tags, fields } };
+  });
+}
+
+// One Markdown note: a leading heading is the title, "**Label:** value" lines text fields,
+// "- [x] Label" lines checkboxes, and runs of other paragraphs text boxes
+const parseMarkdownNote = (markdown: string, fallbackTitle: string): { tags: string[]; fields: Record<string, unknown>[] } => {
+  const fields: Record<string, unknown>[] = [];
+  const tags: string[] = [];
+  const addField = (field: Record<string, unknown>) => fields.push({ _id: String(fields.length + 1), ...field });
+
+  let body = markdown.trim();
+  // Front matter of other editors, only its tags are read
+  const frontMatter = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/.exec(body);
+  if (frontMatter) {
+    const tagLine = /^tags:\s*\[?([^\]\n]*)\]?\s*$/m.exec(frontMatter[1]);
+    if (tagLine) {
+      tags.push(...splitTags(tagLine[1].replace(/["']/g, '')));
+    }
+    body = body.slice(frontMatter[0].length).trim();
+  }
+
+  const blocks = body.split(/\r?\n\s*\r?\n/).map(block => block.trim()).filter(block => block.length > 0);
+  let paragraphs: string[] = [];
+  let paragraphLabel: string | undefined;
+  const flushParagraphs = () => {
+    if (paragraphs.length > 0) {
+      addField({ fieldType: 'textbox', ...(paragraphLabel && { label: paragraphLabel }), content: paragraphs.join('\n\n') });
+    }
+    paragraphs = [];
+    paragraphLabel = undefined;
+  };
+
+  blocks.forEach((block, index) => {
+    const heading = /^#\s+(.+)$/.exec(block);
+    const tagLine = /^Tags:\s+(.+)$/.exec(block);
+    const labelOnly = /^\*\*([^*\n]+)\*\*$/.exec(block);
+    const labelled = /^\*\*([^*\n]+):\*\*\s+(.+)$/.exec(block);
+    const checkbox = /^- \[([ xX])\](?:\s+(.*))?$/.exec(block);
+
+    if (heading && index === 0) {
+      addField({ fieldType: 'title', content: heading[1].trim() });
+    } else if (tagLine && /`/.test(tagLine[1])) {
+      tags.push(...Array.from(tagLine[1].matchAll(/`([^`]+)`/g), match => match[1]));
+    } else if (block === '---') {
+      flushParagraphs();
+    } else if (labelOnly) {
+      flushParagraphs();
+      paragraphLabel = labelOnly[1];
+    } else if (labelled) {
+      flushParagraphs();
+      addField({ fieldType: 'text', label: labelled[1], content: labelled[2] });
+    } else if (checkbox) {
+      flushParagraphs();
+      addField({ fieldType: 'checkbox', ...(checkbox[2] && { label: checkbox[2] }), content: checkbox[1] !== ' ' });
+    } else {
+      paragraphs.push(block);
+    }
+  });
+  flushParagraphs();
+
+  if (fields[0]?.fieldType !== 'title') {
+    fields.unshift({ _id: '0', fieldType: 'title', content: fallbackTitle });
+  }
+  return { tags, fields };
+};
+
+/**
+ * Notes of a Markdown file. Files written by exports hold one note per
+ * marker comment and get their type and tags back from it; any other file is
+ * a single note, titled by its first heading or else by its file name.
+ */
+export function parseMarkdownNotes(filename: string, text: string): ImportCandidate[] {
+  const fallbackTitle = filename.replace(/^.*[\\/]/, '').replace(/\.(md|markdown)$/i, '');
+  const parts = stripBom(text).split(NOTE_MARKER);
+  if (parts.length === 1) {
+    return [{ source: filename, note: parseMarkdownNote(parts[0], fallbackTitle) }];
+  }
+
+  // split() with a capture group alternates text and marker JSON, text before the first marker is ignored
+  const candidates: ImportCandidate[] = [];
+  for (let i = 1; i < parts.length; i += 2) {
+    const source = `${filename} note ${(i + 1) / 2}`;
+    let meta: { noteType?: unknown; tags?: unknown };
+    try {
+      meta = JSON.parse(parts[i]) as { noteType?: unknown; tags?: unknown };
+    } catch {
+      candidates.push({ source, error: 'The note marker is not valid JSON' });
+      continue;
+    }
+    const content = parts[i + 1].replace(/\n---\s*$/, '');
+    const { tags, fields } = parseMarkdownNote(content, fallbackTitle);
+    candidates.push({ source, note: { noteType: meta.noteType, tags: Array.isArray(meta.tags) ? meta.tags : tags, fields } });
+  }
+  return candidates;
+}
@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import { ImportCandidate, ImportFormat, ImportNotesRequest, ImportReport, ImportRowResult } from './import.types';
+import { parseCsvNotes, parseJsonNotes, parseMarkdownNotes } from './import.parse';
+import { CreateNoteRequest, NoteType, createNoteSchema } from '../notes/notes.types';
+import { noteService } from '../notes/notes.service';
+import { workspaceModel } from '../workspaces/workspace.model';
+import { assertAllowed, isAllowed } from '../authorization/authorization.policy';
+import { MAX_IMPORT_NOTES } from '../utils/constants';
+
+// An uploaded file, as multer keeps it in memory
+export interface ImportFile {
+    originalname: string;
+    buffer: Buffer;
+}
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+    md: 'markdown',
+    markdown: 'markdown',
+    json: 'json',
+    csv: 'csv',
+};
+
+export class ImportService {
+    private parseFile(file: ImportFile, options: ImportNotesRequest): ImportCandidate[] {
+        const extension = file.originalname.split('.').pop()?.toLowerCase() ?? '';
+        const format = options.format ?? EXTENSION_FORMATS[extension];
+        const text = file.buffer.toString('utf8');
+
+        switch (format) {
+            case 'markdown':
+                return parseMarkdownNotes(file.originalname, text);
+            case 'json':
+                return parseJsonNotes(file.originalname, text);
+            case 'csv':
+                return parseCsvNotes(file.originalname, text, options.mapping);
+            default:
+                return [{ source: file.originalname, error: 'Unknown file type, expected .md, .json or .csv' }];
+        }
+    }
+
+    // The note a candidate describes, with the upload's type and tags filled in, or what is wrong with it
+    private validate(candidate: ImportCandidate, options: ImportNotesRequest): CreateNoteRequest | string {
+        if (candidate.error !== undefined || !candidate.note) {
+            return candidate.error ?? 'Nothing to import';
+        }
+
+        const { noteType, tags, fields } = candidate.note;
+        const result = createNoteSchema.safeParse({
+            workspaceId: options.workspaceId,
+            noteType: noteType ?? options.noteType,
+            tags: Array.isArray(tags) ? [...new Set([...tags, ...options.tags])] : tags ?? options.tags,
+            fields: fields ?? [],
+        });
+        if (!result.success) {
+            return result.error.issues
+                .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+                .join('; ');
+        }
+        return result.data as CreateNoteRequest;
+    }
+
+    /**
+     * Creates the notes of the uploaded files in a workspace and reports on
+     * every note (CSV row, archive entry or Markdown note) whether it was
+     * created. Invalid ones never stop the rest; vectors are computed by the
+     * embedding worker afterwards, like for any new note.
+     */
+    async importNotes(userId: mongoose.Types.ObjectId, files: ImportFile[], options: ImportNotesRequest): Promise<ImportReport> {
+        const workspace = await workspaceModel.findById(options.workspaceId);
+        if (!workspace || workspace.deletedAt) {
+            throw new Error('Workspace not found');
+        }
+        const { role } = assertAllowed(workspace, userId, 'edit');
+        const canManageTemplates = isAllowed(role, 'manageTemplates');
+
+        const candidates = files.flatMap(file => this.parseFile(file, options));
+        if (candidates.length > MAX_IMPORT_NOTES) {
+            throw new Error(`Invalid import: at most ${MAX_IMPORT_NOTES} notes can be imported at once`);
+        }
+
+        const rows: ImportRowResult[] = [];
+        const valid: { row: ImportRowResult; note: CreateNoteRequest }[] = [];
+        candidates.forEach((candidate, index) => {
+            const row: ImportRowResult = { row: index + 1, source: candidate.source, status: 'failed' };
+            rows.push(row);
+            const validated = this.validate(candidate, options);
+            if (typeof validated === 'string') {
+                row.error = validated;
+            } else if (validated.noteType === NoteType.TEMPLATE && !canManageTemplates) {
+                row.error = `Access denied: The ${role} role cannot manage templates`;
+            } else {
+                valid.push({ row, note: validated });
+            }
+        });
+
+        const results = await noteService.createNotes(userId, valid.map(entry => entry.note));
+        results.forEach((result, index) => {
+            const { row } = valid[index];
+            if (result.note) {
+                row.status = 'created';
+                row.noteId = result.note._id;
+            } else {
+                row.error = result.error;
+            }
+        });
+
+        const created = rows.filter(row => row.status === 'created').length;
+        return { workspaceId: options.workspaceId, created, failed: rows.length - created, rows };
+    }
+}
+
+export const importService = new ImportService();
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+
+import { NoteType } from '../notes/notes.types';
+import { ExportFormat } from '../export/export.types';
+
+// Imports read what exports write
+export type ImportFormat = ExportFormat;
+
+// A note read from an uploaded file, not validated yet; `error` when the file or row could not be read
+export interface ImportCandidate {
+  source: string; // File name, plus the row or note within the file
+  note?: { noteType?: unknown; tags?: unknown; fields?: unknown };
+  error?: string;
+}
+
+export interface ImportRowResult {
+  row: number; // 1-based, in upload order
+  source: string;
+  status: 'created' | 'failed';
+  noteId?: string;
+  error?: string;
+}
+
+export interface ImportReport {
+  workspaceId: string;
+  created: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+// Field types a CSV column can be read into; selects, signatures and images need more than a cell
+const csvFieldTypes = ['title', 'textbox', 'text', 'datetime', 'checkbox', 'number', 'url'] as const;
+export type CsvFieldType = (typeof csvFieldTypes)[number];
+
+// What a CSV column becomes: the note's tags or type, nothing, or a field
+export type CsvColumnTarget = 'tags' | 'noteType' | 'ignore' | { fieldType: CsvFieldType; label?: string };
+export type CsvMapping = Record<string, CsvColumnTarget>;
+
+export const csvMappingSchema = z.record(
+  z.string(),
+  z.union([
+    z.enum(['tags', 'noteType', 'ignore']),
+    z.object({
+      fieldType: z.enum(csvFieldTypes, { error: `fieldType must be one of ${csvFieldTypes.join(', ')}` }),
+      label: z.string().optional(),
+    }).strict(),
+  ], { error: 'mapping values must be tags, noteType, ignore or a field' })
+);
+
+// Multipart text fields sent next to the uploaded files, with workspaceId taken from the query
+export const importNotesSchema = z.object({
+  workspaceId: z.string({ error: 'workspaceId is required' }).min(1, 'workspaceId is required'),
+  format: z.enum(['markdown', 'json', 'csv'], { error: 'format must be markdown, json or csv' }).optional(),
+  noteType: z
+    .enum([NoteType.CONTENT, NoteType.CHAT, NoteType.TEMPLATE], { error: 'noteType must be CONTENT, CHAT or TEMPLATE' })
+    .optional()
+    .default(NoteType.CONTENT),
+  tags: z
+    .string()
+    .optional()
+    .transform(tags => (tags ?? '').split(',').map(tag => tag.trim()).filter(tag => tag.length > 0)),
+  mapping: z
+    .string()
+    .optional()
+    .transform((mapping, ctx): CsvMapping | undefined => {
+      if (mapping === undefined) {
+        return undefined;
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(mapping);
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'mapping must be a JSON object' });
+        return z.NEVER;
+      }
+      const result = csvMappingSchema.safeParse(parsed);
+      if (!result.success) {
+        ctx.addIssue({ code: 'custom', message: result.error.issues[0].message });
+        return z.NEVER;
+      }
+      return result.data;
+    }),
+});
+
+export type ImportNotesRequest = z.infer<typeof importNotesSchema>;
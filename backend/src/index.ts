@@ -6,6 +6,10 @@ import path from 'path';
 import { connectDB } from './utils/database';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.middleware';
 import router from './routes';
+import { startTrashPurge } from './trash/trash.purge';
+import { startSavedSearchWatcher } from './savedSearches/savedSearch.watcher';
+import { startEmbeddingWorker } from './embeddings/embedding.worker';
+import { rebuildTagCounts } from './tags/tag.counts';
 import logger from './utils/logger.util';
 
 const app = express();
@@ -22,6 +26,12 @@ connectDB().catch((error: unknown) => {
   console.error('Failed to connect to database:', error);
   throw error;
 });
+rebuildTagCounts().catch((error: unknown) => {
+  logger.error('Failed to rebuild tag counts:', error);
+});
+startTrashPurge();
+startSavedSearchWatcher();
+startEmbeddingWorker();
 app.listen(PORT, () => {
   // PORT is from environment variable, not user input
   logger.info(`🚀 Server running on port ${PORT}`);
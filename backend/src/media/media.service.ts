@@ -56,6 +56,13 @@ export class MediaService {
     return (fsOps.readdirSync as (path: string) => string[])(dirPath);
   }
 
+  /**
+   * Checks that a path returned by saveImage still points at a stored image
+   */
+  isStoredImage(imagePath: string): boolean {
+    return this.safeExistsSync(path.resolve(imagePath), true);
+  }
+
   saveImage(filePath: string, userId: string): Promise<string> {
     // Validate the source file path is safe (from multer, should be in temp directory)
     const resolvedFilePath = path.resolve(filePath);
@@ -106,14 +113,19 @@ export class MediaService {
     }
   }
 
-  async deleteAllUserImages(userId: string): Promise<void> {
+  /**
+   * Deletes the images a user uploaded, except those in `keep` (paths as returned by
+   * saveImage) that notes or workspaces outliving the user still show
+   */
+  async deleteAllUserImages(userId: string, keep: string[] = []): Promise<void> {
     try {
       if (!this.safeExistsSync(IMAGES_DIR)) {
         return;
       }
 
+      const kept = new Set(keep.map(imagePath => path.resolve(imagePath)));
       const files = this.safeReaddirSync(IMAGES_DIR);
-      const userFiles = files.filter(file => file.startsWith(userId + '-'));
+      const userFiles = files.filter(file => file.startsWith(userId + '-') && !kept.has(path.join(IMAGES_DIR, file)));
 
       // Delete files using relative paths from process.cwd()
       await Promise.all(
@@ -23,18 +23,6 @@ export class MessageController {
       }
       const { limit, before } = queryResult.data;
 
-      // Check workspace exists and user is a member
-      const workspace = await workspaceModel.findById(workspaceId);
-      if (!workspace) {
-        res.status(404).json({ error: 'Workspace not found' });
-        return;
-      }
-
-      if (!workspace.members.includes(userId)) {
-        res.status(403).json({ error: 'Not a member of this workspace' });
-        return;
-      }
-
       // Build query
       const query: { workspaceId: mongoose.Types.ObjectId; createdAt?: { $lt: Date } } = { 
         workspaceId: new mongoose.Types.ObjectId(workspaceId) 
@@ -74,18 +62,6 @@ export class MessageController {
       }
       const { content } = bodyResult.data;
 
-      // Check workspace exists and user is a member
-      const workspace = await workspaceModel.findById(workspaceId);
-      if (!workspace) {
-        res.status(404).json({ error: 'Workspace not found' });
-        return;
-      }
-
-      if (!workspace.members.includes(userId)) {
-        res.status(403).json({ error: 'Not a member of this workspace' });
-        return;
-      }
-
       // Create message
       const message = await messageModel.create({
         workspaceId: new mongoose.Types.ObjectId(workspaceId),
@@ -114,25 +90,13 @@ export class MessageController {
         return;
       }
 
-      const message = await messageModel.findById(messageId);
+      // Only members whose role may delete messages get here, the route authorizes the message's workspace
+      const message = await messageModel.findByIdAndDelete(messageId);
       if (!message) {
         res.status(404).json({ error: 'Message not found' });
         return;
       }
 
-      // Check if user is workspace owner
-      const workspace = await workspaceModel.findById(message.workspaceId);
-      if (!workspace) {
-        res.status(404).json({ error: 'Workspace not found' });
-        return;
-      }
-
-      if (!workspace.ownerId.equals(userId)) {
-        res.status(403).json({ error: 'Only workspace owner can delete messages' });
-        return;
-      }
-
-      await messageModel.findByIdAndDelete(messageId);
       res.json({ message: 'Message deleted successfully' });
     } catch (error) {
       console.error('Error deleting message:', error);
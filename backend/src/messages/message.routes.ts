@@ -2,6 +2,7 @@ import { Router } from 'express';
 
 import { asyncHandler } from '../utils/asyncHandler.util';
 import { authenticateToken } from '../authentication/auth.middleware';
+import { authorizeWorkspace, workspaceFromParam, workspaceOfMessage } from '../authorization/authorization.middleware';
 import { MessageController } from './message.controller';
 
 const router = Router();
@@ -11,6 +12,7 @@ const messageController = new MessageController();
 router.get(
   '/workspace/:workspaceId',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam('workspaceId')),
   asyncHandler(messageController.getMessages.bind(messageController))
 );
 
@@ -18,6 +20,7 @@ router.get(
 router.post(
   '/workspace/:workspaceId',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('comment', workspaceFromParam('workspaceId')),
   asyncHandler(messageController.createMessage.bind(messageController))
 );
 
@@ -25,6 +28,7 @@ router.post(
 router.delete(
   '/:messageId',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('deleteMessages', workspaceOfMessage()),
   asyncHandler(messageController.deleteMessage.bind(messageController))
 );
 
@@ -0,0 +1,13 @@
+import { EventEmitter } from 'events';
+
+import { INoteDocument } from './note.model';
+
+interface NoteEventMap {
+  // A new note is stored together with its first vector
+  created: [note: INoteDocument];
+  // Embedding jobs were queued, wakes the embedding worker
+  embeddingQueued: [];
+}
+
+// Lets other modules react to note writes without NoteService depending on them
+export const noteEvents = new EventEmitter<NoteEventMap>();
@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import { NoteType } from './notes.types';
+import { EmbeddingInfo, EmbeddingStatus } from '../embeddings/embedding.types';
 
 export interface INoteDocument extends Document {
   _id: mongoose.Types.ObjectId;
@@ -9,6 +10,14 @@ export interface INoteDocument extends Document {
   noteType: NoteType;
   tags: string[];
   vectorData: number[];
+  embedding?: EmbeddingInfo;
+  embeddingStatus: EmbeddingStatus;
+  embeddingError?: string | null;
+  templateId?: string;
+  templateVersion?: number;
+  version: number;
+  revision: number;
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,6 +43,48 @@ const noteSchema = new Schema<INoteDocument>(
     },
     tags: [{ type: String }],
     vectorData: [{ type: Number }],
+    // What produced vectorData, missing on notes embedded before providers were recorded
+    embedding: {
+      type: new Schema({
+        provider: { type: String, required: true },
+        model: { type: String, required: true },
+        dimension: { type: Number, required: true },
+      }, { _id: false }),
+      required: false
+    },
+    // Vectors are computed by the embedding worker after the note is saved
+    embeddingStatus: {
+      type: String,
+      enum: ['pending', 'ready', 'failed'],
+      default: 'ready'
+    },
+    // Last error of the embedding worker for this note
+    embeddingError: {
+      type: String,
+      default: null
+    },
+    // Set on notes created from a template
+    templateId: {
+      type: String,
+      index: true
+    },
+    templateVersion: { type: Number },
+    // Bumped on every update of a TEMPLATE note
+    version: {
+      type: Number,
+      default: 1
+    },
+    // Bumped on every update, older content is kept as a NoteRevision
+    revision: {
+      type: Number,
+      default: 1
+    },
+    // Set while the note sits in the trash, purged once the retention period is over
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true
+    },
   },
   { 
     timestamps: true
@@ -43,6 +94,11 @@ const noteSchema = new Schema<INoteDocument>(
 // Index for faster queries
 noteSchema.index({ userId: 1, workspaceId: 1 });
 noteSchema.index({ userId: 1, createdAt: -1 });
+// Keyword side of hybrid search, a collection can only have one text index
+noteSchema.index(
+  { 'fields.label': 'text', 'fields.content': 'text', 'fields.caption': 'text', tags: 'text' },
+  { name: 'note_text', weights: { 'fields.content': 3, 'fields.label': 2, 'fields.caption': 2, tags: 1 } }
+);
 
 export const noteModel = mongoose.model<INoteDocument>('Note', noteSchema);
 
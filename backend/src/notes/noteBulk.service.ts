@@ -0,0 +1,140 @@
+import mongoose from 'mongoose';
+import { BulkNoteItemResult, BulkNoteRequest, BulkNoteResult, Field, Note } from './notes.types';
+import { INoteDocument, noteModel } from './note.model';
+import { noteService } from './notes.service';
+import { workspaceModel } from '../workspaces/workspace.model';
+import {
+    WorkspaceAction,
+    assertAllowed,
+    getNoteEditActions,
+    getNoteTypeActions,
+} from '../authorization/authorization.policy';
+
+const toNote = (note: INoteDocument): Note => ({
+    ...note.toObject(),
+    _id: note._id.toString(),
+    userId: note.userId.toString(),
+} as Note);
+
+/**
+ * Applies one operation to many notes. Every note goes through the same checks as
+ * sharing it would (it exists, the requester owns it, their role in both its
+ * workspace and the target workspace allows the change) and then through the
+ * regular NoteService write, so tag counts, revisions, the vector index and
+ * embeddings stay in step. Without a replica set Mongo offers no
+ * transactions; atomic requests instead check every note before writing any.
+ */
+export class NoteBulkService {
+    // The live note a bulk operation may change, or why it may not
+    private async getNoteForOwner(
+        noteId: string,
+        userId: mongoose.Types.ObjectId,
+        request: BulkNoteRequest
+    ): Promise<INoteDocument> {
+        const note = await noteModel.findById(noteId);
+        if (!note || note.deletedAt) {
+            throw new Error('Note not found');
+        }
+        if (note.userId.toString() !== userId.toString()) {
+            throw new Error('Access denied: Only the note owner can change notes in bulk');
+        }
+        // Authors who left, were banned or lost the role for it have no say over the note anymore
+        const actions = getNoteEditActions(note, userId);
+        if (request.operation === 'changeNoteType') {
+            actions.push(...getNoteTypeActions(request.noteType));
+        }
+        await this.assertWorkspaceAccess(note.workspaceId, userId, actions);
+        if (request.operation === 'move' || request.operation === 'copy') {
+            await this.assertWorkspaceAccess(request.workspaceId, userId, ['edit', ...getNoteTypeActions(note.noteType)]);
+        }
+        return note;
+    }
+
+    private async assertWorkspaceAccess(
+        workspaceId: string,
+        userId: mongoose.Types.ObjectId,
+        actions: WorkspaceAction[]
+    ): Promise<void> {
+        const workspace = mongoose.isValidObjectId(workspaceId) ? await workspaceModel.findById(workspaceId) : null;
+        if (!workspace || workspace.deletedAt) {
+            throw new Error('Workspace not found');
+        }
+        assertAllowed(workspace, userId, ...actions);
+    }
+
+    private async applyToNote(note: INoteDocument, userId: mongoose.Types.ObjectId, request: BulkNoteRequest): Promise<Note> {
+        const noteId = note._id.toString();
+
+        switch (request.operation) {
+            case 'addTags':
+            case 'removeTags': {
+                const tags = request.operation === 'addTags'
+                    ? [...new Set([...note.tags, ...request.tags])]
+                    : note.tags.filter(tag => !request.tags.includes(tag));
+                if (tags.length === note.tags.length && tags.every((tag, i) => tag === note.tags[i])) {
+                    return toNote(note);
+                }
+                // Fails on a revision conflict rather than overwrite a concurrent edit
+                return noteService.updateNote(noteId, { fields: note.fields as Field[], tags }, userId, note.revision);
+            }
+            case 'move':
+                return noteService.shareNoteToWorkspace(noteId, userId, request.workspaceId);
+            case 'copy':
+                return noteService.copyNoteToWorkspace(noteId, userId, request.workspaceId);
+            case 'delete':
+                return noteService.deleteNote(noteId, userId);
+            case 'changeNoteType':
+                return noteService.changeNoteType(noteId, userId, request.noteType);
+        }
+    }
+
+    async applyBulk(userId: mongoose.Types.ObjectId, request: BulkNoteRequest): Promise<BulkNoteResult> {
+        // A target the user cannot write to fails the whole request, not every note in it
+        if (request.operation === 'move' || request.operation === 'copy') {
+            await this.assertWorkspaceAccess(request.workspaceId, userId, ['edit']);
+        }
+
+        const noteIds = [...new Set(request.noteIds)];
+        const checked: { noteId: string; note?: INoteDocument; error?: string }[] = [];
+        for (const noteId of noteIds) {
+            try {
+                checked.push({ noteId, note: await this.getNoteForOwner(noteId, userId, request) });
+            } catch (error) {
+                checked.push({ noteId, error: error instanceof Error ? error.message : 'Failed to check note' });
+            }
+        }
+
+        const skipAll = request.atomic && checked.some(item => item.error !== undefined);
+        const results: BulkNoteItemResult[] = [];
+        for (const { noteId, note, error } of checked) {
+            if (!note) {
+                results.push({ noteId, status: 'failed', error });
+                continue;
+            }
+            if (skipAll) {
+                results.push({ noteId, status: 'skipped' });
+                continue;
+            }
+
+            try {
+                results.push({ noteId, status: 'succeeded', note: await this.applyToNote(note, userId, request) });
+            } catch (applyError) {
+                results.push({
+                    noteId,
+                    status: 'failed',
+                    error: applyError instanceof Error ? applyError.message : 'Failed to change note',
+                });
+            }
+        }
+
+        return {
+            operation: request.operation,
+            succeeded: results.filter(result => result.status === 'succeeded').length,
+            failed: results.filter(result => result.status === 'failed').length,
+            skipped: results.filter(result => result.status === 'skipped').length,
+            results,
+        };
+    }
+}
+
+export const noteBulkService = new NoteBulkService();
@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Content a note had at `revision`, saved when an update replaced it
+export interface INoteRevisionDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  noteId: string;
+  workspaceId: string;
+  revision: number;
+  authorId: mongoose.Types.ObjectId; // User whose update replaced this content
+  fields: unknown[];
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const noteRevisionSchema = new Schema<INoteRevisionDocument>(
+  {
+    noteId: {
+      type: String,
+      required: true,
+      index: true
+    },
+    workspaceId: {
+      type: String,
+      required: true,
+      index: true
+    },
+    revision: {
+      type: Number,
+      required: true
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    fields: [{ type: Schema.Types.Mixed }],
+    tags: [{ type: String }],
+  },
+  {
+    timestamps: true
+  }
+);
+
+noteRevisionSchema.index({ noteId: 1, revision: -1 }, { unique: true });
+noteRevisionSchema.index({ workspaceId: 1, createdAt: -1 });
+
+export const noteRevisionModel = mongoose.model<INoteRevisionDocument>('NoteRevision', noteRevisionSchema);
@@ -1,6 +1,32 @@
 import { Request, Response } from 'express';
-import { CreateNoteRequest, UpdateNoteRequest } from './notes.types';
+import {
+  BulkNoteRequest,
+  CreateNoteRequest,
+  Note,
+  UpdateNoteBody,
+  findNotesQuerySchema,
+  globalSearchQuerySchema,
+  relatedNotesQuerySchema,
+  revisionDiffQuerySchema,
+} from './notes.types';
 import { noteService } from './notes.service';
+import { noteBulkService } from './noteBulk.service';
+import { suggestedTagsQuerySchema } from '../tags/tag.types';
+import { tagService } from '../tags/tag.service';
+import { exportFormatQuerySchema } from '../export/export.types';
+import { exportService } from '../export/export.service';
+import { importNotesSchema } from '../import/import.types';
+import { importService } from '../import/import.service';
+import { HYBRID_SEARCH_DEFAULT_LIMIT } from '../utils/constants';
+
+// Notes are versioned by their revision counter, exposed as a strong ETag
+const toETag = (note: Note): string => `"${note.revision}"`;
+
+// Revision named by an If-Match header, null when the header is malformed
+const parseIfMatch = (header: string): number | null => {
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(header.trim());
+  return match ? Number(match[1]) : null;
+};
 
 export class NotesController {
   async createNote(req: Request, res: Response): Promise<void> {
@@ -15,7 +41,6 @@ export class NotesController {
 
       const noteData = req.body as CreateNoteRequest;
 
-      // NOTE: We probably need to add some verification thing checking if the author id has access to the workspace
       const newNote = await noteService.createNote(userId, noteData);
 
       res.status(201).json({
@@ -24,6 +49,10 @@ export class NotesController {
       });
     } catch (error) {
       console.error('Error creating note:', error);
+      if (error instanceof Error && error.message.startsWith('Invalid note fields')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to create note' });
     }
   }
@@ -37,16 +66,46 @@ export class NotesController {
       }
 
       const noteId = req.params.id;
-      const updateData = req.body as UpdateNoteRequest;
+      const { baseRevision, ...updateData } = req.body as UpdateNoteBody;
+
+      let expectedRevision = baseRevision;
+      const ifMatch = req.get('If-Match');
+      if (ifMatch && ifMatch.trim() !== '*') {
+        const headerRevision = parseIfMatch(ifMatch);
+        if (headerRevision === null) {
+          res.status(400).json({ error: 'Invalid If-Match header' });
+          return;
+        }
+        expectedRevision = headerRevision;
+      }
 
-      const updatedNote = await noteService.updateNote(noteId, updateData);
+      const updatedNote = await noteService.updateNote(noteId, updateData, user._id, expectedRevision);
 
+      res.set('ETag', toETag(updatedNote));
       res.status(200).json({
         message: 'Note successfully updated',
         data: { note: updatedNote },
       });
     } catch (error) {
       console.error('Error updating note:', error);
+      if (error instanceof Error) {
+        if (error.message.startsWith('Invalid note fields')) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        // Send the server copy back so the client can merge its edit onto it
+        if (error.message === 'Note revision conflict') {
+          const currentNote = await noteService.getNote(req.params.id);
+          if (currentNote) {
+            res.set('ETag', toETag(currentNote));
+          }
+          res.status(409).json({
+            error: 'Note was modified by another update',
+            data: { note: currentNote },
+          });
+          return;
+        }
+      }
       res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update note' });
     }
   }
@@ -87,6 +146,7 @@ export class NotesController {
         return;
       }
 
+      res.set('ETag', toETag(note));
       res.status(200).json({
         message: 'Note successfully retrieved',
         data: { note },
@@ -97,6 +157,264 @@ export class NotesController {
     }
   }
 
+  async getTrashedNotes(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const { workspaceId } = req.query;
+      if (!workspaceId || typeof workspaceId !== 'string') {
+        res.status(400).json({ error: 'workspaceId is required' });
+        return;
+      }
+
+      const notes = await noteService.getTrashedNotes(user._id, workspaceId);
+
+      // Exclude vectorData from response
+      const notesWithoutVectorData = notes.map(note => {
+        return Object.fromEntries(
+          Object.entries(note).filter(([key]) => key !== 'vectorData')
+        );
+      });
+
+      res.status(200).json({
+        message: 'Trashed notes retrieved successfully',
+        data: { notes: notesWithoutVectorData },
+      });
+    } catch (error) {
+      console.error('Error retrieving trashed notes:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Workspace not found') {
+          res.status(404).json({ error: 'Workspace not found' });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retrieve trashed notes' });
+    }
+  }
+
+  async restoreNote(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const note = await noteService.restoreNote(req.params.id, user._id);
+
+      res.status(200).json({
+        message: 'Note restored successfully',
+        data: { note },
+      });
+    } catch (error) {
+      console.error('Error restoring note:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Note not found' || error.message === 'Workspace not found') {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to restore note' });
+    }
+  }
+
+  async getRevisions(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const revisions = await noteService.getRevisions(req.params.id, user._id);
+
+      res.status(200).json({
+        message: 'Note revisions retrieved successfully',
+        data: { revisions },
+      });
+    } catch (error) {
+      console.error('Error retrieving note revisions:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Note not found' || error.message === 'Workspace not found') {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retrieve note revisions' });
+    }
+  }
+
+  async getRelatedNotes(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const queryResult = relatedNotesQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        res.status(400).json({ error: queryResult.error.issues[0].message });
+        return;
+      }
+
+      const { limit, scope } = queryResult.data;
+      const result = await noteService.getRelatedNotes(req.params.id, user._id, limit, scope);
+
+      res.status(200).json({
+        message: 'Related notes retrieved successfully',
+        data: {
+          ...result,
+          notes: result.notes.map(note =>
+            Object.fromEntries(Object.entries(note).filter(([key]) => key !== 'vectorData'))
+          ),
+        },
+      });
+    } catch (error) {
+      console.error('Error retrieving related notes:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Note not found' || error.message === 'Workspace not found') {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retrieve related notes' });
+    }
+  }
+
+  async getSuggestedTags(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const queryResult = suggestedTagsQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        res.status(400).json({ error: queryResult.error.issues[0].message });
+        return;
+      }
+
+      const result = await tagService.getSuggestedTags(req.params.id, user._id, queryResult.data.limit);
+
+      res.status(200).json({
+        message: 'Suggested tags retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error retrieving suggested tags:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Note not found' || error.message === 'Workspace not found') {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retrieve suggested tags' });
+    }
+  }
+
+  async diffRevisions(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const queryResult = revisionDiffQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        res.status(400).json({ error: 'from must be a revision number' });
+        return;
+      }
+
+      const { from, to } = queryResult.data;
+      const diff = await noteService.diffRevisions(req.params.id, user._id, from, to);
+
+      res.status(200).json({
+        message: 'Note revisions compared successfully',
+        data: { diff },
+      });
+    } catch (error) {
+      console.error('Error comparing note revisions:', error);
+      if (error instanceof Error) {
+        if (['Note not found', 'Workspace not found', 'Revision not found'].includes(error.message)) {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to compare note revisions' });
+    }
+  }
+
+  async restoreRevision(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const revision = Number(req.params.rev);
+      if (!Number.isInteger(revision) || revision < 1) {
+        res.status(400).json({ error: 'Invalid revision number' });
+        return;
+      }
+
+      const note = await noteService.restoreRevision(req.params.id, user._id, revision);
+
+      res.status(200).json({
+        message: 'Note revision restored successfully',
+        data: { note },
+      });
+    } catch (error) {
+      console.error('Error restoring note revision:', error);
+      if (error instanceof Error) {
+        if (['Note not found', 'Workspace not found', 'Revision not found'].includes(error.message)) {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+        if (error.message.startsWith('Invalid note fields')) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to restore note revision' });
+    }
+  }
+
   async shareNoteToWorkspace(req: Request, res: Response): Promise<void> {
     try {
       const user = req.user;
@@ -176,11 +494,53 @@ export class NotesController {
           res.status(403).json({ error: error.message });
           return;
         }
+        if (error.message.startsWith('Invalid note fields')) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
       }
       res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to copy note' });
     }
   }
 
+  // One operation over many notes, every note gets its own result
+  async bulkNotes(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const result = await noteBulkService.applyBulk(user._id, req.body as BulkNoteRequest);
+
+      res.status(200).json({
+        message: 'Bulk operation finished',
+        data: {
+          ...result,
+          // Exclude vectorData from response
+          results: result.results.map(item => ({
+            ...item,
+            note: item.note && Object.fromEntries(Object.entries(item.note).filter(([key]) => key !== 'vectorData')),
+          })),
+        },
+      });
+    } catch (error) {
+      console.error('Error applying bulk operation:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Workspace not found') {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to apply bulk operation' });
+    }
+  }
+
   async getWorkspacesForNote(req: Request, res: Response): Promise<void> {
     try {
       const noteId = req.params.id;
@@ -196,7 +556,7 @@ export class NotesController {
     }
   }
 
-  async findNotes(req: Request, res: Response): Promise<void> {
+  async searchAllNotes(req: Request, res: Response): Promise<void> {
     try {
       const user = req.user;
       if (!user) {
@@ -204,31 +564,77 @@ export class NotesController {
         return;
       }
 
-      const userId = user._id;
+      const queryResult = globalSearchQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        res.status(400).json({ error: queryResult.error.issues });
+        return;
+      }
 
-      const { workspaceId, noteType, tags, query } = req.query;
+      const { query, ...options } = queryResult.data;
+      const result = await noteService.searchAllNotes(user._id, query, options);
 
-      if (!workspaceId) {
-        res.status(400).json({ error: 'workspaceId is required' });
+      res.status(200).json({
+        message: 'Notes retrieved successfully',
+        data: {
+          ...result,
+          notes: result.notes.map(note =>
+            Object.fromEntries(Object.entries(note).filter(([key]) => key !== 'vectorData'))
+          ),
+        },
+      });
+    } catch (error) {
+      console.error('Error searching notes:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to search notes' });
+    }
+  }
+
+  async findNotes(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
         return;
       }
-      if (!noteType) {
-        res.status(400).json({ error: 'noteType is required' });
+
+      const userId = user._id;
+
+      const queryResult = findNotesQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        res.status(400).json({ error: queryResult.error.issues[0].message });
         return;
       }
 
-      // Query param is optional, default to empty string if not provided
-      const q = query ?? '';
-      // Handle tags: can be array, single string, or undefined
-      let tagsArray: string[] = [];
-      if (tags) {
-        if (Array.isArray(tags)) {
-          tagsArray = tags as string[];
-        } else if (typeof tags === 'string') {
-          tagsArray = [tags];
-        }
+      const { workspaceId, noteType, query, mode, limit, offset, minScore, sort, order, cursor, ...filters } =
+        queryResult.data;
+
+      if (mode === 'hybrid') {
+        const result = await noteService.searchNotes(userId, workspaceId, noteType, filters, query, {
+          limit: limit ?? HYBRID_SEARCH_DEFAULT_LIMIT,
+          offset,
+          minScore,
+        });
+
+        res.status(200).json({
+          message: 'Notes retrieved successfully',
+          data: {
+            notes: result.notes.map(note =>
+              Object.fromEntries(Object.entries(note).filter(([key]) => key !== 'vectorData'))
+            ),
+            total: result.total,
+            offset: result.offset,
+            limit: result.limit,
+          },
+        });
+        return;
       }
-      const notes = await noteService.getNotes(userId, workspaceId as string, noteType as string, tagsArray, q as string);
+
+      // Without a limit all matching notes are returned
+      const { notes, nextCursor } = await noteService.getNotes(userId, workspaceId, noteType, filters, query, {
+        sort,
+        order,
+        limit,
+        cursor,
+      });
 
       // Exclude vectorData from response
       const notesWithoutVectorData = notes.map(note => {
@@ -239,13 +645,144 @@ export class NotesController {
 
       res.status(200).json({
         message: 'Notes retrieved successfully',
-        data: { notes: notesWithoutVectorData },
+        data: { notes: notesWithoutVectorData, nextCursor },
       });
     } catch (error) {
       console.error('Error retrieving notes:', error);
       res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retrieve notes' });
     }
   }
+
+  // Download of a single note (?format=markdown|json|csv)
+  async exportNote(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const formatResult = exportFormatQuerySchema.safeParse(req.query);
+      if (!formatResult.success) {
+        res.status(400).json({ error: formatResult.error.issues[0].message });
+        return;
+      }
+
+      const file = await exportService.exportNote(req.params.id, user._id, formatResult.data.format);
+
+      res.status(200).attachment(file.filename).type(file.contentType).send(file.body);
+    } catch (error) {
+      console.error('Error exporting note:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Note not found' || error.message === 'Workspace not found') {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to export note' });
+    }
+  }
+
+  // Download of the notes GET /notes lists for the same query params, plus format
+  async exportNotes(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const formatResult = exportFormatQuerySchema.safeParse(req.query);
+      if (!formatResult.success) {
+        res.status(400).json({ error: formatResult.error.issues[0].message });
+        return;
+      }
+      const queryResult = findNotesQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        res.status(400).json({ error: queryResult.error.issues[0].message });
+        return;
+      }
+
+      // Exports are never hybrid-ranked, so mode, offset and minScore do not apply
+      const { workspaceId, noteType, query, sort, order, limit, cursor, mode: _mode, offset: _offset, minScore: _minScore, ...filters } =
+        queryResult.data;
+      const file = await exportService.exportNotes(
+        user._id,
+        workspaceId,
+        noteType,
+        filters,
+        query,
+        { sort, order, limit, cursor },
+        formatResult.data.format
+      );
+
+      res.status(200).attachment(file.filename).type(file.contentType).send(file.body);
+    } catch (error) {
+      console.error('Error exporting notes:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Workspace not found') {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to export notes' });
+    }
+  }
+
+  // Multipart upload of Markdown, JSON or CSV files (`files`) with workspaceId, format, noteType, tags and mapping
+  async importNotes(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const files = Array.isArray(req.files) ? req.files : [];
+      if (files.length === 0) {
+        res.status(400).json({ error: 'No files uploaded' });
+        return;
+      }
+
+      const optionsResult = importNotesSchema.safeParse({ ...req.body, workspaceId: req.query.workspaceId });
+      if (!optionsResult.success) {
+        res.status(400).json({ error: optionsResult.error.issues[0].message });
+        return;
+      }
+
+      const report = await importService.importNotes(user._id, files, optionsResult.data);
+
+      res.status(200).json({
+        message: `Imported ${report.created} of ${report.rows.length} notes`,
+        data: report,
+      });
+    } catch (error) {
+      console.error('Error importing notes:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Workspace not found') {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+        if (error.message.startsWith('Invalid import')) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to import notes' });
+    }
+  }
 }
 
 
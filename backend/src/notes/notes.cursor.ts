@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+// Position after the last note of a page. Keyset cursors carry the sort value and _id of that
+// note, relevance cursors only how many ranked notes were already returned.
+const noteCursorSchema = z.union([
+  z.object({
+    sort: z.enum(['createdAt', 'updatedAt', 'title']),
+    order: z.enum(['asc', 'desc']),
+    value: z.string(),
+    id: z.string().regex(/^[a-f\d]{24}$/i),
+  }),
+  z.object({
+    sort: z.literal('relevance'),
+    offset: z.number().int().min(0),
+  }),
+]);
+
+export type NoteCursor = z.infer<typeof noteCursorSchema>;
+
+export function encodeNoteCursor(cursor: NoteCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Null for anything that is not a cursor handed out by encodeNoteCursor
+export function decodeNoteCursor(raw: string): NoteCursor | null {
+  try {
+    const result = noteCursorSchema.safeParse(JSON.parse(Buffer.from(raw, 'base64url').toString('utf8')));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,53 @@
+import { Field, FieldDiff } from './notes.types';
+
+type Snapshot = { fields: Field[]; tags: string[] };
+
+// Key-order independent comparison, Mongo documents do not keep insertion order of Mixed values
+const normalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, normalize(entry)])
+    );
+  }
+  return value;
+};
+
+const isSameField = (a: Field, b: Field): boolean =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// Field-level changes between two snapshots of a note, matched by field _id
+export function diffSnapshots(
+  before: Snapshot,
+  after: Snapshot
+): { fields: FieldDiff[]; tagsAdded: string[]; tagsRemoved: string[] } {
+  const beforeFields = new Map(before.fields.map(field => [field._id, field]));
+  const afterFields = new Map(after.fields.map(field => [field._id, field]));
+  const fields: FieldDiff[] = [];
+
+  for (const field of before.fields) {
+    const next = afterFields.get(field._id);
+    if (!next) {
+      fields.push({ fieldId: field._id, label: field.label, change: 'removed', before: field });
+    } else if (!isSameField(field, next)) {
+      fields.push({ fieldId: field._id, label: next.label, change: 'changed', before: field, after: next });
+    }
+  }
+
+  for (const field of after.fields) {
+    if (!beforeFields.has(field._id)) {
+      fields.push({ fieldId: field._id, label: field.label, change: 'added', after: field });
+    }
+  }
+
+  return {
+    fields,
+    tagsAdded: after.tags.filter(tag => !before.tags.includes(tag)),
+    tagsRemoved: before.tags.filter(tag => !after.tags.includes(tag)),
+  };
+}
@@ -1,10 +1,26 @@
-import { Router } from 'express';
+import { RequestHandler, Router } from 'express';
 
 import { authenticateToken } from '../authentication/auth.middleware';
+import {
+  authorizeWorkspace,
+  workspaceFromQuery,
+  workspaceOfNewNote,
+  workspaceOfNote,
+  workspaceOfNoteToEdit,
+} from '../authorization/authorization.middleware';
 import { NotesController } from './notes.controller';
-import { CreateNoteRequest, UpdateNoteRequest, createNoteSchema, updateNoteSchema } from './notes.types';
+import {
+  BulkNoteRequest,
+  CreateNoteRequest,
+  UpdateNoteBody,
+  bulkNoteSchema,
+  createNoteSchema,
+  updateNoteSchema,
+} from './notes.types';
 import { validateBody } from '../middleware/validation.middleware';
 import { asyncHandler } from '../utils/asyncHandler.util';
+import { importUpload, limitUploadSize } from '../utils/storage';
+import { MAX_IMPORT_FILES, MAX_IMPORT_UPLOAD_SIZE } from '../utils/constants';
 
 const router = Router();
 const notesController = new NotesController();
@@ -13,20 +29,73 @@ router.post(
   '/',
   asyncHandler(authenticateToken),
   validateBody<CreateNoteRequest>(createNoteSchema),
+  authorizeWorkspace('edit', workspaceOfNewNote()),
   asyncHandler(notesController.createNote.bind(notesController))
 );
 
 
+// Ranked search across every workspace of the user (?query=&limit=&offset=&minScore=&facets=)
+router.get(
+  '/search',
+  asyncHandler(authenticateToken),
+  asyncHandler(notesController.searchAllNotes.bind(notesController))
+);
+
+// Download of the notes GET /notes would list (same params, plus ?format=markdown|json|csv)
+router.get(
+  '/export',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromQuery()),
+  asyncHandler(notesController.exportNotes.bind(notesController))
+);
+
+// Create notes from uploaded Markdown, JSON or CSV files, reporting on every note (?workspaceId=).
+// The workspace is named in the query so the upload is only read once the user may edit it.
+router.post(
+  '/import',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('edit', workspaceFromQuery()),
+  limitUploadSize(MAX_IMPORT_UPLOAD_SIZE),
+  importUpload.array('files', MAX_IMPORT_FILES) as RequestHandler,
+  asyncHandler(notesController.importNotes.bind(notesController))
+);
+
+// Tag, move, copy, delete or retype many notes at once, with a result per note
+router.post(
+  '/bulk',
+  asyncHandler(authenticateToken),
+  validateBody<BulkNoteRequest>(bulkNoteSchema),
+  asyncHandler(notesController.bulkNotes.bind(notesController))
+);
+
+// Notes of a workspace currently in the trash (?workspaceId=)
+router.get(
+  '/trash',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromQuery()),
+  asyncHandler(notesController.getTrashedNotes.bind(notesController))
+);
+
+// Take a note back out of the trash
+router.post(
+  '/:id/restore',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('edit', workspaceOfNoteToEdit()),
+  asyncHandler(notesController.restoreNote.bind(notesController))
+);
+
 router.put(
   '/:id',
   asyncHandler(authenticateToken),
-  validateBody<UpdateNoteRequest>(updateNoteSchema),
+  validateBody<UpdateNoteBody>(updateNoteSchema),
+  authorizeWorkspace('edit', workspaceOfNoteToEdit()),
   asyncHandler(notesController.updateNote.bind(notesController))
 );
 
 router.delete(
   '/:id',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('edit', workspaceOfNoteToEdit()),
   asyncHandler(notesController.deleteNote.bind(notesController))
 );
 
@@ -34,30 +103,83 @@ router.delete(
 router.get(
   '/:id/workspaces',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceOfNote()),
   asyncHandler(notesController.getWorkspacesForNote.bind(notesController))
 )
 
+// Nearest neighbours of a note by its stored vector (?limit=&scope=workspace|all)
+router.get(
+  '/:id/related',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceOfNote()),
+  asyncHandler(notesController.getRelatedNotes.bind(notesController))
+);
+
+// Download of a single note (?format=markdown|json|csv)
+router.get(
+  '/:id/export',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceOfNote()),
+  asyncHandler(notesController.exportNote.bind(notesController))
+);
+
+// Tags of similar notes the note does not have yet (?limit=)
+router.get(
+  '/:id/suggested-tags',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceOfNote()),
+  asyncHandler(notesController.getSuggestedTags.bind(notesController))
+);
+
+// Revision history of a note
+router.get(
+  '/:id/revisions',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceOfNote()),
+  asyncHandler(notesController.getRevisions.bind(notesController))
+);
+
+// Field-level diff between two revisions (?from=&to=)
+router.get(
+  '/:id/revisions/diff',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceOfNote()),
+  asyncHandler(notesController.diffRevisions.bind(notesController))
+);
+
+// Restore the content of a previous revision
+router.post(
+  '/:id/revisions/:rev/restore',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('edit', workspaceOfNoteToEdit()),
+  asyncHandler(notesController.restoreRevision.bind(notesController))
+);
+
 router.get(
   '/:id',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceOfNote()),
   asyncHandler(notesController.getNote.bind(notesController))
 );
 
 router.get(
   '/',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromQuery()),
   asyncHandler(notesController.findNotes.bind(notesController))
 );
 
 router.post(
   '/:id/share',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('edit', workspaceOfNoteToEdit()),
   asyncHandler(notesController.shareNoteToWorkspace.bind(notesController))
 );
 
 router.post(
   '/:id/copy',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceOfNote()),
   asyncHandler(notesController.copyNoteToWorkspace.bind(notesController))
 );
 
@@ -0,0 +1,122 @@
+import { Field, NoteHighlight, SearchSource, TagMode } from './notes.types';
+
+// Standard damping constant of reciprocal rank fusion, keeps one top rank from dominating
+export const RRF_K = 60;
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+
+export interface FusedHit {
+  id: string;
+  score: number;
+  matchedBy: SearchSource[];
+}
+
+/**
+ * Reciprocal rank fusion of several rankings (ids, best first). Scores are
+ * divided by the best possible score, so a note ranked first everywhere gets 1.
+ */
+export function fuseRankings(rankings: Partial<Record<SearchSource, string[]>>): FusedHit[] {
+  const entries = Object.entries(rankings) as [SearchSource, string[]][];
+  const hits = new Map<string, FusedHit>();
+
+  for (const [source, ids] of entries) {
+    ids.forEach((id, index) => {
+      const hit = hits.get(id) ?? { id, score: 0, matchedBy: [] };
+      hit.score += 1 / (RRF_K + index + 1);
+      hit.matchedBy.push(source);
+      hits.set(id, hit);
+    });
+  }
+
+  const best = entries.length / (RRF_K + 1);
+  return Array.from(hits.values())
+    .map(hit => ({ ...hit, score: best > 0 ? hit.score / best : 0 }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Tag filter of GET /notes: any, all or none of the given tags; no tags match every note
+export function matchesTags(noteTags: string[], tags: string[], tagMode: TagMode): boolean {
+  if (tags.length === 0) {
+    return true;
+  }
+  switch (tagMode) {
+    case 'all':
+      return tags.every(tag => noteTags.includes(tag));
+    case 'none':
+      return !tags.some(tag => noteTags.includes(tag));
+    default:
+      return tags.some(tag => noteTags.includes(tag));
+  }
+}
+
+// Whitespace separated terms without surrounding punctuation or text search operators
+export function getQueryTerms(query: string): string[] {
+  const terms = query
+    .split(/\s+/)
+    .map(term => term.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '').toLowerCase())
+    .filter(term => term.length > 0);
+  return Array.from(new Set(terms));
+}
+
+const findRanges = (text: string, terms: string[]): { start: number; end: number }[] => {
+  const lower = text.toLowerCase();
+  const ranges: { start: number; end: number }[] = [];
+  for (const term of terms) {
+    let start = lower.indexOf(term);
+    while (start !== -1) {
+      ranges.push({ start, end: start + term.length });
+      start = lower.indexOf(term, start + term.length);
+    }
+  }
+
+  // Ordered and without overlaps, so clients can wrap each range directly
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.reduce<{ start: number; end: number }[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
+
+// Fields whose label or text contain a query term, with a snippet around the first match
+export function highlightFields(
+  fields: Field[],
+  query: string,
+  getFieldText: (field: Field) => string
+): NoteHighlight[] {
+  const terms = getQueryTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const highlights: NoteHighlight[] = [];
+  for (const field of fields) {
+    const text = getFieldText(field);
+    const textRanges = findRanges(text, terms);
+    // Prefer showing the content, fall back to the label when only the label matched
+    const [source, ranges] = textRanges.length > 0
+      ? [text, textRanges]
+      : [field.label ?? '', findRanges(field.label ?? '', terms)];
+    if (ranges.length === 0) {
+      continue;
+    }
+
+    const from = Math.max(0, ranges[0].start - SNIPPET_BEFORE);
+    const to = Math.min(source.length, from + SNIPPET_LENGTH);
+    highlights.push({
+      fieldId: field._id,
+      fieldType: field.fieldType,
+      label: field.label,
+      snippet: source.slice(from, to),
+      ranges: ranges
+        .filter(range => range.start < to && range.end > from)
+        .map(range => ({ start: range.start - from, end: Math.min(range.end, to) - from })),
+    });
+  }
+  return highlights;
+}
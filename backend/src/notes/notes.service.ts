@@ -1,60 +1,424 @@
 import mongoose from 'mongoose';
-import { Note, CreateNoteRequest, NoteType, UpdateNoteRequest } from './notes.types';
-import { noteModel } from './note.model';
-import OpenAI from 'openai';
-import { workspaceModel } from '../workspaces/workspace.model';
+import {
+    Note,
+    BatchNoteResult,
+    CreateNoteRequest,
+    Field,
+    NoteRevision,
+    NoteType,
+    HybridSearchNote,
+    HybridSearchOptions,
+    HybridSearchResult,
+    NoteFilters,
+    NotePage,
+    NotePageOptions,
+    RelatedNote,
+    RelatedNotesResult,
+    RelatedNotesScope,
+    GlobalSearchOptions,
+    GlobalSearchResult,
+    SearchFacets,
+    RevisionDiff,
+    ScoredNote,
+    UpdateNoteRequest,
+    noteFieldsSchema,
+} from './notes.types';
+import { INoteDocument, noteModel } from './note.model';
+import { INoteRevisionDocument, noteRevisionModel } from './noteRevision.model';
+import { diffSnapshots } from './notes.diff';
+import { FusedHit, fuseRankings, highlightFields, matchesTags } from './notes.search';
+import { encodeNoteCursor } from './notes.cursor';
+import { noteEvents } from './note.events';
+import { EmbeddingInfo, EmbeddingProvider } from '../embeddings/embedding.types';
+import { createEmbeddingProvider } from '../embeddings/embedding.provider';
+import { CachedEmbeddingProvider, embeddingCache } from '../embeddings/embedding.cache';
+import { embeddingJobModel } from '../embeddings/embeddingJob.model';
+import { refreshTagCounts } from '../tags/tag.counts';
+import { IndexedNoteMeta, isEmbeddedBy, vectorIndexService } from '../search/vectorIndex.service';
+import { VectorSearchHit } from '../search/hnsw.index';
+import { IWorkspaceDocument, workspaceModel } from '../workspaces/workspace.model';
+import {
+    WorkspaceAction,
+    assertAllowed,
+    getNoteEditActions,
+    getNoteTypeActions,
+} from '../authorization/authorization.policy';
 import { workspaceService } from '../workspaces/workspace.service';
+import { mediaService } from '../media/media.service';
+import { getTemplateFieldIssues } from '../templates/template.validation';
+import { templateVersionModel } from '../templates/template.model';
+import { HYBRID_SEARCH_CANDIDATES } from '../utils/constants';
 
+type NoteQuery = mongoose.FilterQuery<INoteDocument>;
+
+// Decides from the vector index metadata (and the note id) whether a hit passes the filters
+type IndexFilter = (meta: IndexedNoteMeta, noteId: string) => boolean;
+
+// Lower-cased content of the first title field, what the title order compares
+const TITLE_SORT_KEY = {
+    $let: {
+        vars: {
+            title: { $arrayElemAt: [{ $filter: { input: '$fields', as: 'field', cond: { $eq: ['$$field.fieldType', 'title'] } } }, 0] },
+        },
+        in: { $toLower: { $ifNull: ['$$title.content', ''] } },
+    },
+};
+
+type SortedNoteRow = Record<string, unknown> & {
+    _id: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+    sortTitle?: string;
+};
 
 export class NoteService {
-    private client?: OpenAI;
+    private embeddingProvider?: EmbeddingProvider;
 
-    private getClient(): OpenAI {
-        return this.client || (this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY }));
+    // Provider that embeds notes and queries, shared with everything comparing against note vectors.
+    // Repeated inputs are answered by the embedding cache without calling the provider.
+    getEmbeddingProvider(): EmbeddingProvider {
+        return this.embeddingProvider
+            || (this.embeddingProvider = new CachedEmbeddingProvider(createEmbeddingProvider(), embeddingCache));
     }
 
-    private async createVectorization(fields: unknown[]): Promise<number[]> {
-        let vectorInput = "";
+    // Provider, model and dimension a vector was produced with
+    private getEmbeddingInfo(vectorData: number[]): EmbeddingInfo {
+        const provider = this.getEmbeddingProvider();
+        return { provider: provider.name, model: provider.model, dimension: vectorData.length };
+    }
 
+    // Text representation of a field's value used as embedding input
+    private getFieldText(field: Field): string {
+        switch (field.fieldType) {
+            case 'title':
+            case 'textbox':
+            case 'text':
+            case 'datetime':
+                return field.content ?? '';
+            case 'checkbox':
+                return field.content ? 'checked' : 'unchecked';
+            case 'number':
+                return field.content == null ? '' : `${field.content} ${field.unit ?? ''}`.trim();
+            case 'select':
+                return (field.content ?? []).join(', ');
+            case 'url':
+                return field.content ?? '';
+            case 'signature':
+                return field.userName ? `signed by ${field.userName}` : '';
+            case 'image':
+                return field.caption ?? '';
+        }
+    }
+
+    // Signature and image fields must point at an image uploaded through the media routes
+    private assertMediaFields(fields: Field[]): void {
         for (const field of fields) {
-            if (typeof field === 'object' && field !== null) {
-                const fieldObj = field as Record<string, unknown>;
-                vectorInput += "field label: " + String(fieldObj.label ?? '') + " ";
-                if ('content' in fieldObj) {
-                    vectorInput += "field content: " + String(fieldObj.content ?? '') + " ";
+            if ((field.fieldType === 'signature' || field.fieldType === 'image') && field.imagePath) {
+                if (!mediaService.isStoredImage(field.imagePath)) {
+                    throw new Error(`Invalid note fields: ${field.fieldType} field ${field._id} does not reference an uploaded image`);
                 }
             }
         }
+    }
+
+    // Keep the version history of TEMPLATE notes
+    private async recordTemplateVersion(note: INoteDocument): Promise<void> {
+        if (note.noteType !== NoteType.TEMPLATE) {
+            return;
+        }
+        await templateVersionModel.create({
+            templateId: note._id.toString(),
+            version: note.version,
+            fields: note.fields,
+            tags: note.tags,
+        });
+    }
+
+    // Save the content an update is about to replace, then prune the workspace down to its retention limit
+    private async recordRevision(note: INoteDocument, authorId: mongoose.Types.ObjectId): Promise<void> {
+        await noteRevisionModel.create({
+            noteId: note._id.toString(),
+            workspaceId: note.workspaceId,
+            revision: note.revision,
+            authorId,
+            fields: note.fields,
+            tags: note.tags,
+        });
+
+        const workspace = await workspaceModel.findById(note.workspaceId);
+        if (!workspace || workspace.deletedAt) {
+            return;
+        }
+
+        const expired = await noteRevisionModel
+            .find({ workspaceId: note.workspaceId })
+            .sort({ createdAt: -1, _id: -1 })
+            .skip(workspace.revisionLimit)
+            .select('_id');
+        if (expired.length > 0) {
+            await noteRevisionModel.deleteMany({ _id: { $in: expired.map(revision => revision._id) } });
+        }
+    }
+
+    private toNoteRevision(revision: INoteRevisionDocument): NoteRevision {
+        return {
+            _id: revision._id.toString(),
+            noteId: revision.noteId,
+            revision: revision.revision,
+            authorId: revision.authorId.toString(),
+            fields: revision.fields as Field[],
+            tags: revision.tags,
+            createdAt: revision.createdAt,
+        };
+    }
+
+    // A live note the user's role lets them read, or with `edit` change, in its workspace
+    private async getAuthorizedNote(
+        noteId: string,
+        userId: mongoose.Types.ObjectId,
+        edit = false
+    ): Promise<INoteDocument> {
+        const note = await noteModel.findById(noteId);
+        if (!note || note.deletedAt) {
+            throw new Error('Note not found');
+        }
+
+        const actions: WorkspaceAction[] = edit ? getNoteEditActions(note, userId) : ['view'];
+        await this.assertWorkspaceAllowed(note.workspaceId, userId, ...actions);
+        return note;
+    }
+
+    private async assertWorkspaceAllowed(
+        workspaceId: string,
+        userId: mongoose.Types.ObjectId,
+        ...actions: WorkspaceAction[]
+    ): Promise<IWorkspaceDocument> {
+        const workspace = await workspaceModel.findById(workspaceId);
+        if (!workspace || workspace.deletedAt) {
+            throw new Error('Workspace not found');
+        }
+
+        assertAllowed(workspace, userId, ...actions);
+        return workspace;
+    }
+
+    // Mongo filter for the live notes of a workspace and note type narrowed by the structured filters
+    private buildNoteQuery(workspaceId: string, noteType: string, filters: NoteFilters): NoteQuery {
+        const query: NoteQuery = { workspaceId, noteType, deletedAt: null };
+
+        if (filters.tags.length > 0) {
+            const operator = filters.tagMode === 'all' ? '$all' : filters.tagMode === 'none' ? '$nin' : '$in';
+            query.tags = { [operator]: filters.tags };
+        }
+        if (filters.authorId) {
+            query.userId = new mongoose.Types.ObjectId(filters.authorId);
+        }
+        if (filters.createdAfter || filters.createdBefore) {
+            query.createdAt = {
+                ...(filters.createdAfter && { $gte: filters.createdAfter }),
+                ...(filters.createdBefore && { $lt: filters.createdBefore }),
+            };
+        }
+        if (filters.updatedAfter || filters.updatedBefore) {
+            query.updatedAt = {
+                ...(filters.updatedAfter && { $gte: filters.updatedAfter }),
+                ...(filters.updatedBefore && { $lt: filters.updatedBefore }),
+            };
+        }
+
+        // Datetime contents are stored as strings, parse them on the server to compare real instants
+        if (filters.datetimeAfter || filters.datetimeBefore) {
+            const value = { $dateFromString: { dateString: '$$field.content', onError: null, onNull: null } };
+            const conditions: unknown[] = [
+                { $eq: ['$$field.fieldType', 'datetime'] },
+                { $eq: [{ $type: value }, 'date'] },
+            ];
+            if (filters.datetimeField) {
+                conditions.push({
+                    $or: [{ $eq: ['$$field.label', filters.datetimeField] }, { $eq: ['$$field._id', filters.datetimeField] }],
+                });
+            }
+            if (filters.datetimeAfter) {
+                conditions.push({ $gte: [value, filters.datetimeAfter] });
+            }
+            if (filters.datetimeBefore) {
+                conditions.push({ $lt: [value, filters.datetimeBefore] });
+            }
+            query.$expr = { $anyElementTrue: [{ $map: { input: '$fields', as: 'field', in: { $and: conditions } } }] };
+        }
+
+        return query;
+    }
+
+    // Note type and tags are known to the vector index, anything else is resolved to note ids first
+    private async getIndexFilter(query: NoteQuery, noteType: string, filters: NoteFilters): Promise<IndexFilter> {
+        const matchesMeta: IndexFilter = meta =>
+            meta.noteType === noteType && matchesTags(meta.tags, filters.tags, filters.tagMode);
+
+        const hasDocumentFilters = Boolean(
+            filters.authorId
+            || filters.createdAfter || filters.createdBefore
+            || filters.updatedAfter || filters.updatedBefore
+            || filters.datetimeAfter || filters.datetimeBefore
+        );
+        if (!hasDocumentFilters) {
+            return matchesMeta;
+        }
+
+        const matching = await noteModel.find(query).select('_id');
+        const allowed = new Set(matching.map(note => note._id.toString()));
+        return (meta, noteId) => allowed.has(noteId) && matchesMeta(meta, noteId);
+    }
+
+    // Text a note's vector is computed from, tags are not part of it
+    private getVectorizationInput(fields: Field[]): string {
+        let vectorInput = "";
+
+        for (const field of fields) {
+            vectorInput += "field label: " + (field.label ?? '') + " ";
+            const fieldText = this.getFieldText(field);
+            if (fieldText.length > 0) {
+                vectorInput += "field content: " + fieldText + " ";
+            }
+        }
+
+        return vectorInput.trim();
+    }
+
+    private async createVectorization(fields: Field[]): Promise<number[]> {
+        const vectorInput = this.getVectorizationInput(fields);
 
         let vectorData: number[] = [];
         
-        if (vectorInput.trim().length > 0) {
-            const vectorResponse = await this.getClient().embeddings.create({
-                model: "text-embedding-3-large",
-                input: vectorInput.trim(),
-            });
-            vectorData = vectorResponse.data[0].embedding;
+        if (vectorInput.length > 0) {
+            vectorData = await this.getEmbeddingProvider().embed(vectorInput);
         }
 
         return vectorData
 
     }
 
-    async createNote(userId: mongoose.Types.ObjectId, data: CreateNoteRequest): Promise<Note> {
+    // Queue the vector computation of the notes' current revisions, replacing any job still waiting for an older one
+    private async queueEmbeddings(
+        notes: { _id: mongoose.Types.ObjectId; revision: number }[],
+        isNewNote: boolean
+    ): Promise<void> {
+        if (notes.length === 0) {
+            return;
+        }
+
+        await embeddingJobModel.bulkWrite(notes.map(note => ({
+            updateOne: {
+                filter: { noteId: note._id.toString() },
+                update: {
+                    $set: { revision: note.revision, status: 'queued', attempts: 0, runAt: new Date(), lockedAt: null, lastError: null },
+                    $setOnInsert: { isNewNote },
+                },
+                upsert: true,
+            },
+        })));
+        noteEvents.emit('embeddingQueued');
+    }
+
+    // Compute and store the vector of a note's current content, called by the embedding worker.
+    // Null when the note is gone. A write landing in between is embedded on the next round,
+    // which costs no provider call when it left the content alone.
+    async embedNote(noteId: string): Promise<INoteDocument | null> {
+        for (let round = 0; round < 3; round++) {
+            const note = await noteModel.findById(noteId);
+            if (!note) {
+                return null;
+            }
+
+            const vectorData = await this.createVectorization(note.fields as Field[]);
+            const embeddedNote = await noteModel.findOneAndUpdate(
+                { _id: noteId, revision: note.revision },
+                {
+                    vectorData,
+                    embedding: this.getEmbeddingInfo(vectorData),
+                    embeddingStatus: 'ready',
+                    embeddingError: null,
+                },
+                { new: true, timestamps: false }
+            );
+
+            if (embeddedNote) {
+                await vectorIndexService.upsertNote(embeddedNote);
+                return embeddedNote;
+            }
+        }
+        throw new Error('Note kept changing while it was embedded');
+    }
+
+    // Queue notes of the user's workspaces whose vector is missing, failed or from another provider or model.
+    // `force` queues every note, e.g. after changing how notes are turned into embedding input.
+    async queueReembedding(
+        userId: mongoose.Types.ObjectId,
+        workspaceId: string | undefined,
+        force: boolean
+    ): Promise<number> {
+        let workspaceIds: string[];
+        if (workspaceId) {
+            const workspace = await workspaceModel.findById(workspaceId);
+            if (!workspace || workspace.deletedAt) {
+                throw new Error('Workspace not found');
+            }
+            assertAllowed(workspace, userId, 'manage');
+            workspaceIds = [workspaceId];
+        } else {
+            const workspaces = await workspaceModel.find({ ownerId: userId, deletedAt: null }).select('_id');
+            workspaceIds = workspaces.map(workspace => workspace._id.toString());
+        }
+
+        const provider = this.getEmbeddingProvider();
+        const query: NoteQuery = { workspaceId: { $in: workspaceIds }, deletedAt: null };
+        if (!force) {
+            query.$or = [
+                { embeddingStatus: { $ne: 'ready' } },
+                { 'vectorData.0': { $exists: false } },
+                { 'embedding.provider': { $ne: provider.name } },
+                { 'embedding.model': { $ne: provider.model } },
+            ];
+        }
+
+        const notes = await noteModel.find(query).select('_id revision');
+        await noteModel.updateMany(
+            { _id: { $in: notes.map(note => note._id) } },
+            { embeddingStatus: 'pending', embeddingError: null },
+            { timestamps: false }
+        );
+        await this.queueEmbeddings(notes, false);
+
+        return notes.length;
+    }
+
+    async createNote(
+        userId: mongoose.Types.ObjectId,
+        data: CreateNoteRequest,
+        template?: { templateId: string; templateVersion: number }
+    ): Promise<Note> {
 
         console.log("Creating note");
-        
-        let vectorData = await this.createVectorization(data.fields);
 
+        this.assertMediaFields(data.fields);
+
+        // The vector is computed in the background, the note is saved right away
         const newNote = await noteModel.create({
             userId,
             workspaceId: data.workspaceId,
             fields: data.fields,
             noteType: data.noteType,
             tags: data.tags,
-            vectorData,
+            vectorData: [],
+            embeddingStatus: 'pending',
+            templateId: template?.templateId,
+            templateVersion: template?.templateVersion,
         });
 
+        await this.recordTemplateVersion(newNote);
+        await refreshTagCounts(newNote.workspaceId, newNote.tags);
+        await this.queueEmbeddings([newNote], true);
+
         // Update workspace timestamp if this is a chat message
         if (data.noteType === NoteType.CHAT) {
             await workspaceService.updateLatestChatMessageTimestamp(data.workspaceId);
@@ -67,23 +431,134 @@ export class NoteService {
         } as Note;
     }
 
-    // Update a note
-    async updateNote(noteId: string, updateData: UpdateNoteRequest): Promise<Note> {
+    // Create many notes with a single insert and one batch of embedding jobs. A note whose media fields
+    // do not reference uploaded images is left out, the result at its position says why.
+    async createNotes(userId: mongoose.Types.ObjectId, data: CreateNoteRequest[]): Promise<BatchNoteResult[]> {
+        const results: BatchNoteResult[] = data.map(() => ({}));
+        const accepted: number[] = [];
+        data.forEach((note, index) => {
+            try {
+                this.assertMediaFields(note.fields);
+                accepted.push(index);
+            } catch (error) {
+                results[index] = { error: error instanceof Error ? error.message : String(error) };
+            }
+        });
+        if (accepted.length === 0) {
+            return results;
+        }
+
+        const newNotes = await noteModel.insertMany(accepted.map(index => ({
+            userId,
+            workspaceId: data[index].workspaceId,
+            fields: data[index].fields,
+            noteType: data[index].noteType,
+            tags: data[index].tags,
+            vectorData: [],
+            embeddingStatus: 'pending',
+        })));
+
+        const tagsByWorkspace = new Map<string, string[]>();
+        for (const newNote of newNotes) {
+            await this.recordTemplateVersion(newNote);
+            tagsByWorkspace.set(newNote.workspaceId, [...(tagsByWorkspace.get(newNote.workspaceId) ?? []), ...newNote.tags]);
+        }
+        for (const [workspaceId, tags] of tagsByWorkspace) {
+            await refreshTagCounts(workspaceId, tags);
+        }
+        await this.queueEmbeddings(newNotes, true);
 
-        let updatedVectorData = await this.createVectorization(updateData.fields);
+        const chatWorkspaces = new Set(newNotes.filter(note => note.noteType === NoteType.CHAT).map(note => note.workspaceId));
+        for (const workspaceId of chatWorkspaces) {
+            await workspaceService.updateLatestChatMessageTimestamp(workspaceId);
+        }
+
+        newNotes.forEach((newNote, position) => {
+            results[accepted[position]] = {
+                note: {
+                    ...newNote.toObject(),
+                    _id: newNote._id.toString(),
+                    userId: newNote.userId.toString(),
+                } as Note,
+            };
+        });
+        return results;
+    }
 
+    // Fields of the template version a note was made from. Notes older than template versioning,
+    // or whose snapshot is gone, are held to the template as it is now.
+    private async getTemplateFields(templateId: string, version?: number): Promise<Field[] | null> {
+        if (version !== undefined) {
+            const snapshot = await templateVersionModel.findOne({ templateId, version });
+            if (snapshot) {
+                return snapshot.fields as Field[];
+            }
+        }
+        const template = await noteModel.findById(templateId);
+        return template ? template.fields as Field[] : null;
+    }
+
+    // Update a note, keeping its previous content as a revision authored by the updating user.
+    // When `baseRevision` is given the write only goes through if nobody updated the note since.
+    // Template migrations pass the `templateVersion` the new fields follow, the note moves to it.
+    async updateNote(
+        noteId: string,
+        updateData: UpdateNoteRequest,
+        userId: mongoose.Types.ObjectId,
+        baseRevision?: number,
+        templateVersion?: number
+    ): Promise<Note> {
+
+        const note = await noteModel.findById(noteId);
+        if (!note || note.deletedAt) {
+            throw new Error('Note not found');
+        }
+        if (baseRevision !== undefined && baseRevision !== note.revision) {
+            throw new Error('Note revision conflict');
+        }
+
+        this.assertMediaFields(updateData.fields);
+
+        // Notes created from a template must keep the required fields of the version they follow,
+        // fields a later version added only become required once the note is migrated
+        if (note.templateId) {
+            const templateFields = await this.getTemplateFields(note.templateId, templateVersion ?? note.templateVersion);
+            if (templateFields) {
+                const issues = getTemplateFieldIssues(templateFields, updateData.fields);
+                if (issues.length > 0) {
+                    throw new Error(`Invalid note fields: ${issues.join('; ')}`);
+                }
+            }
+        }
+
+        // Edits that leave the embedding input alone (e.g. only tags) keep the current vector
+        const needsEmbedding = note.embeddingStatus !== 'ready'
+            || this.getVectorizationInput(updateData.fields) !== this.getVectorizationInput(note.fields as Field[]);
+
+        // Compare-and-set on the revision that was read, so concurrent writers cannot interleave.
+        // The previous vector keeps serving searches until the worker replaced it.
         const updatedNote = await noteModel.findOneAndUpdate(
-            { _id: noteId },
+            { _id: noteId, revision: note.revision },
             { 
                 ...updateData,
-                vectorData: updatedVectorData,
-                updatedAt: new Date()
+                ...(needsEmbedding && { embeddingStatus: 'pending', embeddingError: null }),
+                ...(templateVersion !== undefined && { templateVersion }),
+                updatedAt: new Date(),
+                $inc: { revision: 1, ...(note.noteType === NoteType.TEMPLATE && { version: 1 }) },
             },
             { new: true }
         );
 
         if (!updatedNote) {
-            throw new Error('Note not found');
+            throw new Error('Note revision conflict');
+        }
+
+        await this.recordRevision(note, userId);
+        await this.recordTemplateVersion(updatedNote);
+        await refreshTagCounts(updatedNote.workspaceId, [...note.tags, ...updatedNote.tags]);
+        await vectorIndexService.upsertNote(updatedNote);
+        if (needsEmbedding) {
+            await this.queueEmbeddings([updatedNote], false);
         }
 
         return {
@@ -93,14 +568,72 @@ export class NoteService {
         } as Note;
     }
 
-    // Delete a note
+    // Rewrite the tags of every note of a workspace carrying one of `tags`, trashed notes included. Only the
+    // tags change, so unlike updateNote no note can be refused for its fields halfway through. Each write is
+    // guarded by the revision that was read: notes edited meanwhile are read again in the next round, those
+    // still conflicting after the last one keep their tags and are counted as conflicts.
+    async retagNotes(
+        workspaceId: string,
+        tags: string[],
+        retag: (noteTags: string[]) => string[],
+        userId: mongoose.Types.ObjectId
+    ): Promise<{ rewritten: number; conflicts: number }> {
+        let rewritten = 0;
+        let conflicts = 0;
+
+        for (let round = 0; round < 3; round++) {
+            const notes = await noteModel.find({ workspaceId, tags: { $in: tags } });
+            conflicts = 0;
+
+            for (const note of notes) {
+                const nextTags = retag(note.tags);
+                const updatedNote = await noteModel.findOneAndUpdate(
+                    { _id: note._id, revision: note.revision },
+                    note.deletedAt
+                        ? { tags: nextTags }
+                        : {
+                            tags: nextTags,
+                            updatedAt: new Date(),
+                            $inc: { revision: 1, ...(note.noteType === NoteType.TEMPLATE && { version: 1 }) },
+                        },
+                    { new: true, timestamps: false }
+                );
+                if (!updatedNote) {
+                    conflicts++;
+                    continue;
+                }
+
+                rewritten++;
+                if (!updatedNote.deletedAt) {
+                    await this.recordRevision(note, userId);
+                    await this.recordTemplateVersion(updatedNote);
+                    await vectorIndexService.upsertNote(updatedNote);
+                }
+            }
+
+            if (conflicts === 0) {
+                break;
+            }
+        }
+
+        return { rewritten, conflicts };
+    }
+
+    // Move a note to the trash, it is purged for good once the retention period is over
     async deleteNote(noteId: string, userId: mongoose.Types.ObjectId): Promise<Note> {
-        const deletedNote = await noteModel.findOneAndDelete({ _id: noteId, userId });
+        const deletedNote = await noteModel.findOneAndUpdate(
+            { _id: noteId, userId, deletedAt: null },
+            { deletedAt: new Date() },
+            { new: true }
+        );
 
         if (!deletedNote) {
             throw new Error('Note not found');
         }
 
+        await refreshTagCounts(deletedNote.workspaceId, deletedNote.tags);
+        await vectorIndexService.removeNote(deletedNote.workspaceId, noteId);
+
         return {
             ...deletedNote.toObject(),
             _id: deletedNote._id.toString(),
@@ -110,7 +643,7 @@ export class NoteService {
 
     async getNote(noteId: string): Promise<Note | null> {
         const note = await noteModel.findById(noteId);
-        return note
+        return note && !note.deletedAt
             ? {
                 ...note.toObject(),
                 _id: note._id.toString(),
@@ -120,28 +653,106 @@ export class NoteService {
     }
 
 
+    // Notes of a workspace currently in the trash, most recently deleted first
+    async getTrashedNotes(userId: mongoose.Types.ObjectId, workspaceId: string): Promise<Note[]> {
+        await this.assertWorkspaceAllowed(workspaceId, userId, 'view');
+
+        const notes = await noteModel
+            .find({ workspaceId, deletedAt: { $ne: null } })
+            .sort({ deletedAt: -1 });
+
+        return notes.map(note => ({
+            ...note.toObject(),
+            _id: note._id.toString(),
+            userId: note.userId.toString(),
+        } as Note));
+    }
+
+    // Take a note back out of the trash, whoever may edit it may restore it
+    async restoreNote(noteId: string, userId: mongoose.Types.ObjectId): Promise<Note> {
+        const note = await noteModel.findById(noteId);
+        if (!note?.deletedAt) {
+            throw new Error('Note not found');
+        }
+
+        await this.assertWorkspaceAllowed(note.workspaceId, userId, ...getNoteEditActions(note, userId));
+
+        note.deletedAt = null;
+        await note.save();
+        await refreshTagCounts(note.workspaceId, note.tags);
+        await vectorIndexService.upsertNote(note);
+
+        return {
+            ...note.toObject(),
+            _id: note._id.toString(),
+            userId: note.userId.toString(),
+        } as Note;
+    }
+
+    // Revision history of a note, newest first
+    async getRevisions(noteId: string, userId: mongoose.Types.ObjectId): Promise<NoteRevision[]> {
+        await this.getAuthorizedNote(noteId, userId);
+
+        const revisions = await noteRevisionModel.find({ noteId }).sort({ revision: -1 });
+        return revisions.map(revision => this.toNoteRevision(revision));
+    }
+
+    // Field-level diff between two revisions, `to` defaults to the note's current content
+    async diffRevisions(
+        noteId: string,
+        userId: mongoose.Types.ObjectId,
+        from: number,
+        to?: number
+    ): Promise<RevisionDiff> {
+        const note = await this.getAuthorizedNote(noteId, userId);
+
+        const loadSnapshot = async (revision: number): Promise<{ fields: Field[]; tags: string[] }> => {
+            if (revision === note.revision) {
+                return { fields: note.fields as Field[], tags: note.tags };
+            }
+            const snapshot = await noteRevisionModel.findOne({ noteId, revision });
+            if (!snapshot) {
+                throw new Error('Revision not found');
+            }
+            return { fields: snapshot.fields as Field[], tags: snapshot.tags };
+        };
+
+        const toRevision = to ?? note.revision;
+        const before = await loadSnapshot(from);
+        const after = await loadSnapshot(toRevision);
+
+        return { from, to: toRevision, ...diffSnapshots(before, after) };
+    }
+
+    // Bring back the content of an old revision, the replaced content becomes a revision itself
+    async restoreRevision(noteId: string, userId: mongoose.Types.ObjectId, revision: number): Promise<Note> {
+        await this.getAuthorizedNote(noteId, userId, true);
+
+        const snapshot = await noteRevisionModel.findOne({ noteId, revision });
+        if (!snapshot) {
+            throw new Error('Revision not found');
+        }
+
+        return this.updateNote(noteId, { fields: snapshot.fields as Field[], tags: snapshot.tags }, userId);
+    }
+
     // Share note to a different workspace
     async shareNoteToWorkspace(noteId: string, userId: mongoose.Types.ObjectId, workspaceId: string): Promise<Note> {
         // Verify note exists and the requester is the owner of the note
         const note = await noteModel.findById(noteId);
-        if (!note) {
+        if (!note || note.deletedAt) {
             throw new Error('Note not found');
         }
         if (note.userId.toString() !== userId.toString()) {
             throw new Error('Access denied: Only the note owner can share');
         }
 
-        // Verify target workspace exists and the user is allowed (owner or member and not banned)
+        // Verify target workspace exists and the user's role there lets them add the note
         const workspace = await workspaceModel.findById(workspaceId);
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
-
-        const isMember = workspace.members.some(memberId => memberId.toString() === userId.toString());
-  
-        if (!isMember) {
-            throw new Error('Access denied: You are not a member of this workspace');
-        }
+        assertAllowed(workspace, userId, 'edit', ...getNoteTypeActions(note.noteType));
         const updatedNote = await noteModel.findOneAndUpdate(
             { _id: noteId, userId },
             { workspaceId },
@@ -152,6 +763,11 @@ export class NoteService {
             throw new Error('Note not found');
         }
 
+        await refreshTagCounts(note.workspaceId, note.tags);
+        await refreshTagCounts(workspaceId, updatedNote.tags);
+        await vectorIndexService.removeNote(note.workspaceId, noteId);
+        await vectorIndexService.upsertNote(updatedNote);
+
         return {
             ...updatedNote.toObject(),
             _id: updatedNote._id.toString(),
@@ -163,20 +779,21 @@ export class NoteService {
     async copyNoteToWorkspace(noteId: string, userId: mongoose.Types.ObjectId, workspaceId: string): Promise<Note> {
         // Verify note exists
         const note = await noteModel.findById(noteId);
-        if (!note) {
+        if (!note || note.deletedAt) {
             throw new Error('Note not found');
         }
 
-        // Verify target workspace exists and the user is allowed (owner or member and not banned)
+        // Refuse to duplicate notes stored before field validation existed
+        if (!noteFieldsSchema.safeParse(note.fields).success) {
+            throw new Error('Invalid note fields: source note does not match the field schema');
+        }
+
+        // Verify target workspace exists and the user's role there lets them add the note
         const workspace = await workspaceModel.findById(workspaceId);
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
-        const isMember = workspace.members.some(memberId => memberId.toString() === userId.toString());
-        const isOwner = workspace.ownerId.toString() === userId.toString();
-        if (!isMember && !isOwner) {
-            throw new Error('Access denied: User must be a member or owner of the workspace');
-        }
+        assertAllowed(workspace, userId, 'edit', ...getNoteTypeActions(note.noteType));
 
         // Create a copy of the note
         const noteCopy = await noteModel.create({
@@ -187,10 +804,23 @@ export class NoteService {
             tags: note.tags,
             noteType: note.noteType,
             fields: note.fields,
-            vectorData: note.vectorData
+            vectorData: note.vectorData,
+            embedding: note.embedding,
+            embeddingStatus: note.embeddingStatus === 'ready' ? 'ready' : 'pending',
+            templateId: note.templateId,
+            templateVersion: note.templateVersion
         });
 
         await noteCopy.save();
+        await this.recordTemplateVersion(noteCopy);
+        await refreshTagCounts(workspaceId, noteCopy.tags);
+        await vectorIndexService.upsertNote(noteCopy);
+        // Copies of notes still waiting for their vector get their own job
+        if (noteCopy.embeddingStatus === 'ready') {
+            noteEvents.emit('created', noteCopy);
+        } else {
+            await this.queueEmbeddings([noteCopy], true);
+        }
 
         return {
             ...noteCopy.toObject(),
@@ -199,99 +829,384 @@ export class NoteService {
         } as Note;
     }
 
+    // Turn a note into another note type, only its owner may do so
+    async changeNoteType(noteId: string, userId: mongoose.Types.ObjectId, noteType: NoteType): Promise<Note> {
+        const note = await noteModel.findById(noteId);
+        if (!note || note.deletedAt) {
+            throw new Error('Note not found');
+        }
+        if (note.userId.toString() !== userId.toString()) {
+            throw new Error('Access denied: Only the note owner can change its type');
+        }
+
+        // A note that was a template before already has a snapshot of its current version,
+        // becoming a template again starts a new version instead of colliding with it
+        const hasSnapshot = noteType === NoteType.TEMPLATE
+            && (await templateVersionModel.exists({ templateId: noteId, version: note.version })) !== null;
+
+        const updatedNote = note.noteType === noteType
+            ? note
+            : await noteModel.findOneAndUpdate(
+                { _id: noteId, userId, deletedAt: null },
+                { noteType, updatedAt: new Date(), ...(hasSnapshot && { $inc: { version: 1 } }) },
+                { new: true }
+            );
+
+        if (!updatedNote) {
+            throw new Error('Note not found');
+        }
+
+        if (updatedNote !== note) {
+            await this.recordTemplateVersion(updatedNote);
+            await vectorIndexService.upsertNote(updatedNote);
+        }
+
+        return {
+            ...updatedNote.toObject(),
+            _id: updatedNote._id.toString(),
+            userId: updatedNote.userId.toString(),
+        } as Note;
+    }
+
     // Get workspace for a note
     async getWorkspacesForNote(noteId: string): Promise<string | null> {
         const note = await noteModel.findById(noteId);
         
-        if (!note) {
+        if (!note || note.deletedAt) {
             throw new Error('Note not found');
         }
 
         return note.workspaceId;
     }
 
-    // Get notes for a user with filters
+    // Get one page of notes for a user with filters. The relevance order ranks notes through the
+    // workspace's vector index (notes without a comparable vector follow, newest first) and pages by
+    // position; the other orders page by keyset, so notes written meanwhile never shift a page.
     async getNotes(
         userId: mongoose.Types.ObjectId,
         workspaceId: string,
         noteType: string,
-        tags: string[],
-        queryString: string
-    ): Promise<Note[]> {
+        filters: NoteFilters,
+        queryString: string,
+        page: NotePageOptions
+    ): Promise<NotePage> {
         // First verify user has access to this workspace
-        const workspace = await workspaceModel.findById(workspaceId);
-        if (!workspace) {
-            throw new Error('Workspace not found');
-        }
+        await this.assertWorkspaceAllowed(workspaceId, userId, 'view');
 
-        const isMember = workspace.members.some(memberId => memberId.toString() === userId.toString());
+        const query = this.buildNoteQuery(workspaceId, noteType, filters);
 
-        if (!isMember) {
-            throw new Error('Access denied: You are not a member of this workspace');
+        if (page.sort === 'relevance') {
+            return this.getNotesByRelevance(query, workspaceId, noteType, filters, queryString, page);
         }
+        return this.getNotesSorted(query, page);
+    }
 
-        const query: { workspaceId: string; noteType: string; tags?: { $in: string[] } } = { 
-            workspaceId,
-            noteType
-        };
+    private async getNotesSorted(query: NoteQuery, page: NotePageOptions): Promise<NotePage> {
+        const direction = page.order === 'asc' ? 1 : -1;
+        const sortKey = page.sort === 'title' ? 'sortTitle' : page.sort;
 
-        if (tags.length > 0) {
-            query.tags = { $in: tags };
+        const pipeline: mongoose.PipelineStage[] = [{ $match: query }];
+        if (page.sort === 'title') {
+            pipeline.push({ $addFields: { sortTitle: TITLE_SORT_KEY } });
+        }
+        if (page.cursor && 'value' in page.cursor) {
+            const value = page.sort === 'title' ? page.cursor.value : new Date(page.cursor.value);
+            const id = new mongoose.Types.ObjectId(page.cursor.id);
+            const operator = direction === 1 ? '$gt' : '$lt';
+            pipeline.push({
+                $match: { $or: [{ [sortKey]: { [operator]: value } }, { [sortKey]: value, _id: { [operator]: id } }] },
+            });
         }
+        // _id breaks ties so every note has exactly one place in the order
+        pipeline.push({ $sort: { [sortKey]: direction, _id: direction } });
+        if (page.limit !== undefined) {
+            pipeline.push({ $limit: page.limit + 1 });
+        }
+
+        const rows = await noteModel.aggregate<SortedNoteRow>(pipeline);
+        const hasMore = page.limit !== undefined && rows.length > page.limit;
+        const pageRows = hasMore ? rows.slice(0, page.limit) : rows;
 
-        const notes = await noteModel.find(query).sort({ createdAt: -1 });
+        let nextCursor: string | null = null;
+        if (hasMore && page.sort !== 'relevance') {
+            const last = pageRows[pageRows.length - 1];
+            nextCursor = encodeNoteCursor({
+                sort: page.sort,
+                order: page.order,
+                value: page.sort === 'title' ? last.sortTitle ?? '' : last[page.sort].toISOString(),
+                id: last._id.toString(),
+            });
+        }
 
-        // If query string is empty, return as-is (mapped)
-        if (queryString.trim().length === 0) {
-            return notes.map(note => ({
+        const notes = pageRows.map(({ sortTitle: _sortTitle, ...row }) => {
+            const note = noteModel.hydrate(row);
+            return {
                 ...note.toObject(),
                 _id: note._id.toString(),
                 userId: note.userId.toString(),
-            } as Note));
-        }
+            } as Note;
+        });
+        return { notes, nextCursor };
+    }
 
-        // Generate embedding for the query and rank notes by cosine similarity
-        let queryEmbedding: number[] = [];
+    private async getNotesByRelevance(
+        query: NoteQuery,
+        workspaceId: string,
+        noteType: string,
+        filters: NoteFilters,
+        queryString: string,
+        page: NotePageOptions
+    ): Promise<NotePage> {
+        const offset = page.cursor && 'offset' in page.cursor ? page.cursor.offset : 0;
+        // One note past the page tells whether another page follows
+        const limit = page.limit === undefined ? undefined : offset + page.limit + 1;
 
-        const vectorResponse = await this.getClient().embeddings.create({
-            model: "text-embedding-3-large",
-            input: queryString.trim(),
-        });
-        queryEmbedding = vectorResponse.data[0].embedding as unknown as number[];
+        // Generate embedding for the query and look up the nearest notes in the workspace index
+        const provider = this.getEmbeddingProvider();
+        const queryEmbedding = await provider.embed(queryString.trim());
+        const index = await vectorIndexService.getIndex(workspaceId, provider);
 
-        
-        const cosineSimilarity = (a: number[], b: number[]): number => {
-            const len = Math.min(a.length, b.length);
-            if (len === 0) return -1;
-            let dot = 0;
-            let normA = 0;
-            let normB = 0;
-            for (let i = 0; i < len; i++) {
-                // Using .at() method to safely access array elements
-                const va = a.at(i) ?? 0;
-                const vb = b.at(i) ?? 0;
-                dot += va * vb;
-                normA += va * va;
-                normB += vb * vb;
-            }
-            if (normA === 0 || normB === 0) return -1;
-            return dot / (Math.sqrt(normA) * Math.sqrt(normB));
-        };
+        const matchesFilters = await this.getIndexFilter(query, noteType, filters);
+        let hits = index.search(queryEmbedding, limit ?? index.size, matchesFilters);
+        // Selective filters can starve the bounded graph walk, widen it before falling back to unscored notes
+        if (limit !== undefined && hits.length < limit && index.size > limit) {
+            hits = index.search(queryEmbedding, index.size, matchesFilters).slice(0, limit);
+        }
 
-        const notesWithScores = notes.map(n => ({
-            note: n,
-            score: Array.isArray(n.vectorData) && n.vectorData.length > 0
-                ? cosineSimilarity(queryEmbedding, n.vectorData as unknown as number[])
-                : -1,
-        }));
+        // The database stays the source of truth for the filters, the index only ranks
+        const hitNotes = hits.length > 0
+            ? await noteModel.find({ ...query, _id: { $in: hits.map(hit => hit.id) } })
+            : [];
+        const hitNotesById = new Map(hitNotes.map(note => [note._id.toString(), note]));
+        const ranked = hits.flatMap(hit => {
+            const note = hitNotesById.get(hit.id);
+            return note ? [{ note, score: hit.score }] : [];
+        });
 
-        notesWithScores.sort((a, b) => b.score - a.score);
+        let unranked: INoteDocument[] = [];
+        if (limit === undefined || ranked.length < limit) {
+            unranked = await noteModel
+                .find({ ...query, _id: { $nin: ranked.map(({ note }) => note._id) } })
+                .sort({ createdAt: -1, _id: -1 })
+                .limit(limit === undefined ? 0 : limit - ranked.length);
+        }
 
-        return notesWithScores.map(({ note }) => ({
+        const all = [...ranked, ...unranked.map(note => ({ note, score: null }))];
+        const end = page.limit === undefined ? all.length : offset + page.limit;
+        const notes = all.slice(offset, end).map(({ note, score }) => ({
             ...note.toObject(),
             _id: note._id.toString(),
             userId: note.userId.toString(),
-        } as Note));
+            score,
+        } as ScoredNote));
+
+        return {
+            notes,
+            nextCursor: all.length > end ? encodeNoteCursor({ sort: 'relevance', offset: end }) : null,
+        };
+    }
+
+    // Keyword hits from the text index and semantic hits from the vector index of every given
+    // workspace, merged by reciprocal rank fusion. Notes found by neither ranking are left out.
+    private async rankHybrid(
+        workspaceIds: string[],
+        query: NoteQuery,
+        matchesFilters: IndexFilter,
+        queryString: string,
+        minScore: number
+    ): Promise<{ hits: FusedHit[]; notesById: Map<string, INoteDocument> }> {
+        const keywordNotes = await noteModel
+            .find({ ...query, $text: { $search: queryString } })
+            .sort({ textScore: { $meta: 'textScore' } })
+            .limit(HYBRID_SEARCH_CANDIDATES);
+
+        const provider = this.getEmbeddingProvider();
+        const queryEmbedding = await provider.embed(queryString.trim());
+        const semanticHits: VectorSearchHit[] = [];
+        for (const workspaceId of workspaceIds) {
+            const index = await vectorIndexService.getIndex(workspaceId, provider);
+            semanticHits.push(...index.search(queryEmbedding, HYBRID_SEARCH_CANDIDATES, matchesFilters));
+        }
+
+        // Every index holds vectors of the same provider, so similarities compare across workspaces.
+        // Unrelated or opposite vectors are not a semantic match.
+        const semanticRanking = semanticHits
+            .filter(hit => hit.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, HYBRID_SEARCH_CANDIDATES)
+            .map(hit => hit.id);
+
+        const hits = fuseRankings({
+            keyword: keywordNotes.map(note => note._id.toString()),
+            semantic: semanticRanking,
+        }).filter(hit => hit.score >= minScore);
+
+        return { hits, notesById: new Map(keywordNotes.map(note => [note._id.toString(), note])) };
+    }
+
+    // Notes of the given hits in hit order, fetching the ones only the semantic ranking found
+    private async loadHybridNotes(
+        hits: FusedHit[],
+        notesById: Map<string, INoteDocument>,
+        query: NoteQuery,
+        queryString: string
+    ): Promise<HybridSearchNote[]> {
+        const missing = hits.map(hit => hit.id).filter(id => !notesById.has(id));
+        if (missing.length > 0) {
+            const semanticNotes = await noteModel.find({ ...query, _id: { $in: missing } });
+            semanticNotes.forEach(note => notesById.set(note._id.toString(), note));
+        }
+
+        return hits.flatMap(hit => {
+            const note = notesById.get(hit.id);
+            if (!note) {
+                return [];
+            }
+            return [{
+                ...note.toObject(),
+                _id: note._id.toString(),
+                userId: note.userId.toString(),
+                score: hit.score,
+                matchedBy: hit.matchedBy,
+                highlights: highlightFields(note.fields as Field[], queryString, field => this.getFieldText(field)),
+            } as HybridSearchNote];
+        });
+    }
+
+    // Hybrid search within one workspace and note type
+    async searchNotes(
+        userId: mongoose.Types.ObjectId,
+        workspaceId: string,
+        noteType: string,
+        filters: NoteFilters,
+        queryString: string,
+        options: HybridSearchOptions
+    ): Promise<HybridSearchResult> {
+        await this.assertWorkspaceAllowed(workspaceId, userId, 'view');
+
+        const query = this.buildNoteQuery(workspaceId, noteType, filters);
+        const matchesFilters = await this.getIndexFilter(query, noteType, filters);
+        const { hits, notesById } = await this.rankHybrid([workspaceId], query, matchesFilters, queryString, options.minScore);
+        const page = hits.slice(options.offset, options.offset + options.limit);
+        const notes = await this.loadHybridNotes(page, notesById, query, queryString);
+
+        return { notes, total: hits.length, offset: options.offset, limit: options.limit };
+    }
+
+    // Hybrid search over every note type of every workspace the user is a member of
+    async searchAllNotes(
+        userId: mongoose.Types.ObjectId,
+        queryString: string,
+        options: GlobalSearchOptions
+    ): Promise<GlobalSearchResult> {
+        const workspaces = await workspaceModel.find({ members: userId, deletedAt: null });
+        const workspaceNames = new Map(workspaces.map(workspace => [workspace._id.toString(), workspace.name]));
+        const workspaceIds = Array.from(workspaceNames.keys());
+        const query: NoteQuery = { workspaceId: { $in: workspaceIds }, deletedAt: null };
+
+        const { hits, notesById } = await this.rankHybrid(workspaceIds, query, () => true, queryString, options.minScore);
+        const page = hits.slice(options.offset, options.offset + options.limit);
+        const notes = (await this.loadHybridNotes(page, notesById, query, queryString)).map(note => ({
+            ...note,
+            workspaceName: workspaceNames.get(note.workspaceId) ?? '',
+        }));
+
+        const result: GlobalSearchResult = { notes, total: hits.length, offset: options.offset, limit: options.limit };
+        if (options.facets) {
+            result.facets = await this.getSearchFacets(hits, notesById, workspaceNames);
+        }
+        return result;
+    }
+
+    // Nearest neighbours of a note by its stored vector, within its workspace or across every workspace
+    // of the user. Only notes of the same type are related, and no embedding call is made.
+    async getRelatedNotes(
+        noteId: string,
+        userId: mongoose.Types.ObjectId,
+        limit: number,
+        scope: RelatedNotesScope
+    ): Promise<RelatedNotesResult> {
+        const note = await this.getAuthorizedNote(noteId, userId);
+        const sourceId = note._id.toString();
+
+        // Notes keep their previous vector while a newer one is pending, that one still relates
+        const provider = this.getEmbeddingProvider();
+        if (!isEmbeddedBy(note, provider)) {
+            return { notes: [], embeddingStatus: note.embeddingStatus };
+        }
+
+        const workspaces = scope === 'all'
+            ? await workspaceModel.find({ members: userId, deletedAt: null })
+            : await workspaceModel.find({ _id: note.workspaceId });
+        const workspaceNames = new Map(workspaces.map(workspace => [workspace._id.toString(), workspace.name]));
+
+        const hits: VectorSearchHit[] = [];
+        for (const workspaceId of workspaceNames.keys()) {
+            const index = await vectorIndexService.getIndex(workspaceId, provider);
+            hits.push(...index.search(
+                note.vectorData,
+                limit,
+                (meta, id) => id !== sourceId && meta.noteType === note.noteType
+            ));
+        }
+        const ranked = hits
+            .filter(hit => hit.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+
+        const relatedNotes = ranked.length > 0
+            ? await noteModel.find({ _id: { $in: ranked.map(hit => hit.id) }, deletedAt: null })
+            : [];
+        const relatedById = new Map(relatedNotes.map(related => [related._id.toString(), related]));
+
+        const notes = ranked.flatMap(hit => {
+            const related = relatedById.get(hit.id);
+            return related
+                ? [{
+                    ...related.toObject(),
+                    _id: hit.id,
+                    userId: related.userId.toString(),
+                    score: hit.score,
+                    workspaceName: workspaceNames.get(related.workspaceId) ?? '',
+                } as RelatedNote]
+                : [];
+        });
+        return { notes, embeddingStatus: note.embeddingStatus };
+    }
+
+    // Counts per workspace, tag and note type over all hits, not just the returned page
+    private async getSearchFacets(
+        hits: FusedHit[],
+        notesById: Map<string, INoteDocument>,
+        workspaceNames: Map<string, string>
+    ): Promise<SearchFacets> {
+        const missing = hits.map(hit => hit.id).filter(id => !notesById.has(id));
+        const fetched = missing.length > 0
+            ? await noteModel.find({ _id: { $in: missing }, deletedAt: null }).select('workspaceId noteType tags')
+            : [];
+        const notes = [
+            ...hits.flatMap(hit => notesById.get(hit.id) ?? []),
+            ...fetched,
+        ];
+
+        const count = (values: string[]): [string, number][] => {
+            const counts = new Map<string, number>();
+            values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+            return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+        };
+
+        return {
+            workspaces: count(notes.map(note => note.workspaceId)).map(([workspaceId, total]) => ({
+                workspaceId,
+                workspaceName: workspaceNames.get(workspaceId) ?? '',
+                count: total,
+            })),
+            tags: count(notes.flatMap(note => Array.from(new Set(note.tags)))).map(([tag, total]) => ({ tag, count: total })),
+            noteTypes: count(notes.map(note => note.noteType)).map(([noteType, total]) => ({
+                noteType: noteType as NoteType,
+                count: total,
+            })),
+        };
     }
 
 }
@@ -1,26 +1,145 @@
 import { z } from 'zod';
+import { EmbeddingInfo, EmbeddingStatus } from '../embeddings/embedding.types';
+import { HYBRID_SEARCH_DEFAULT_LIMIT, MAX_BULK_NOTES, RELATED_NOTES_DEFAULT_LIMIT } from '../utils/constants';
+import { NoteCursor, decodeNoteCursor } from './notes.cursor';
 
-export interface BaseField {
-  _id: string;
-  fieldType: 'title' | 'textbox' | 'datetime'; 
-}
+// Field schemas
+// ------------------------------------------------------------
+// Accepts full ISO 8601 timestamps as well as the zone-less LocalDateTime
+// strings (e.g. 2025-02-12T18:00) sent by the Android client.
+const isoDateTimeSchema = z.iso.datetime({ local: true, offset: true });
 
-export interface TitleField extends BaseField {
-  fieldType: 'title';
-  content: string;
-}
+const baseFieldSchema = z.object({
+  _id: z.string().min(1, 'Field _id is required'),
+  label: z.string().optional(),
+  required: z.boolean().optional(),
+});
 
-export interface TextBoxField extends BaseField {
-  fieldType: 'textbox';
-  content: string;
-}
+export const titleFieldSchema = baseFieldSchema.extend({
+  fieldType: z.literal('title'),
+  content: z.string().nullish(),
+});
 
-export interface DateTimeField extends BaseField {
-  fieldType: 'datetime';
-  dateTime: Date; 
-}
+export const textBoxFieldSchema = baseFieldSchema.extend({
+  fieldType: z.literal('textbox'),
+  content: z.string().nullish(),
+});
+
+export const textFieldSchema = baseFieldSchema
+  .extend({
+    fieldType: z.literal('text'),
+    placeholder: z.string().nullish(),
+    maxLength: z.number().int().positive().nullish(),
+    content: z.string().nullish(),
+  })
+  .refine(field => field.content == null || field.maxLength == null || field.content.length <= field.maxLength, {
+    message: 'Text is longer than the maximum length',
+    path: ['content'],
+  });
+
+// Compared as instants, zone-less values are read in the server's time zone
+export const dateTimeFieldSchema = baseFieldSchema
+  .extend({
+    fieldType: z.literal('datetime'),
+    minDate: isoDateTimeSchema.nullish(),
+    maxDate: isoDateTimeSchema.nullish(),
+    content: isoDateTimeSchema.nullish(),
+  })
+  .refine(field => field.content == null || field.minDate == null || Date.parse(field.content) >= Date.parse(field.minDate), {
+    message: 'Date is before the earliest allowed date',
+    path: ['content'],
+  })
+  .refine(field => field.content == null || field.maxDate == null || Date.parse(field.content) <= Date.parse(field.maxDate), {
+    message: 'Date is after the latest allowed date',
+    path: ['content'],
+  });
+
+// imagePath is the path returned by POST /api/media/upload
+export const signatureFieldSchema = baseFieldSchema.extend({
+  fieldType: z.literal('signature'),
+  userId: z.string().nullish(),
+  userName: z.string().nullish(),
+  imagePath: z.string().min(1).nullish(),
+});
+
+export const checkboxFieldSchema = baseFieldSchema.extend({
+  fieldType: z.literal('checkbox'),
+  content: z.boolean().nullish(),
+});
+
+export const numberFieldSchema = baseFieldSchema
+  .extend({
+    fieldType: z.literal('number'),
+    unit: z.string().nullish(),
+    min: z.number().nullish(),
+    max: z.number().nullish(),
+    content: z.number().nullish(),
+  })
+  .refine(field => field.content == null || field.min == null || field.content >= field.min, {
+    message: 'Number is below the minimum',
+    path: ['content'],
+  })
+  .refine(field => field.content == null || field.max == null || field.content <= field.max, {
+    message: 'Number is above the maximum',
+    path: ['content'],
+  });
 
-export type Field = TitleField | TextBoxField | DateTimeField;
+// Options come from the template the note was created from
+export const selectFieldSchema = baseFieldSchema
+  .extend({
+    fieldType: z.literal('select'),
+    options: z.array(z.string().min(1)).min(1, 'Select field needs at least one option'),
+    multiple: z.boolean().optional(),
+    content: z.array(z.string()).nullish(),
+  })
+  .refine(field => (field.content ?? []).every(value => field.options.includes(value)), {
+    message: 'Selected value is not one of the options',
+    path: ['content'],
+  })
+  .refine(field => field.multiple === true || (field.content ?? []).length <= 1, {
+    message: 'Only one value can be selected',
+    path: ['content'],
+  });
+
+export const urlFieldSchema = baseFieldSchema.extend({
+  fieldType: z.literal('url'),
+  content: z.url({ protocol: /^https?$/ }).nullish(),
+});
+
+// imagePath is the path returned by POST /api/media/upload
+export const imageFieldSchema = baseFieldSchema.extend({
+  fieldType: z.literal('image'),
+  imagePath: z.string().min(1).nullish(),
+  caption: z.string().nullish(),
+});
+
+export const fieldSchema = z.discriminatedUnion('fieldType', [
+  titleFieldSchema,
+  textBoxFieldSchema,
+  textFieldSchema,
+  dateTimeFieldSchema,
+  signatureFieldSchema,
+  checkboxFieldSchema,
+  numberFieldSchema,
+  selectFieldSchema,
+  urlFieldSchema,
+  imageFieldSchema,
+]);
+
+export const noteFieldsSchema = z.array(fieldSchema);
+
+export type TitleField = z.infer<typeof titleFieldSchema>;
+export type TextBoxField = z.infer<typeof textBoxFieldSchema>;
+export type TextField = z.infer<typeof textFieldSchema>;
+export type DateTimeField = z.infer<typeof dateTimeFieldSchema>;
+export type SignatureField = z.infer<typeof signatureFieldSchema>;
+export type CheckboxField = z.infer<typeof checkboxFieldSchema>;
+export type NumberField = z.infer<typeof numberFieldSchema>;
+export type SelectField = z.infer<typeof selectFieldSchema>;
+export type UrlField = z.infer<typeof urlFieldSchema>;
+export type ImageField = z.infer<typeof imageFieldSchema>;
+export type Field = z.infer<typeof fieldSchema>;
+export type FieldType = Field['fieldType'];
 
 export enum NoteType {
   CONTENT = "CONTENT",
@@ -32,24 +151,284 @@ export interface Note {
   _id: string;
   userId: string;
   workspaceId: string;
-  fields: unknown[]; // Just JSON objects as requested
+  fields: Field[];
   noteType: NoteType;
   tags: string[];
   vectorData: number[];
+  embedding?: EmbeddingInfo;
+  embeddingStatus: EmbeddingStatus;
+  embeddingError?: string | null;
+  templateId?: string;
+  templateVersion?: number;
+  version: number;
+  revision: number;
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Search result; score is the cosine similarity to the query, null for notes without a comparable vector
+export type ScoredNote = Note & { score?: number | null };
+
+export type SearchMode = 'semantic' | 'hybrid';
+export type TagMode = 'any' | 'all' | 'none';
+export type NoteSort = 'createdAt' | 'updatedAt' | 'title' | 'relevance';
+export type SortOrder = 'asc' | 'desc';
+
+// Page of GET /notes; without a limit every matching note is returned
+export interface NotePageOptions {
+  sort: NoteSort;
+  order: SortOrder;
+  limit?: number;
+  cursor?: NoteCursor;
+}
+
+export interface NotePage {
+  notes: ScoredNote[];
+  nextCursor: string | null; // Null on the last page
+}
+
+// Structured filters of GET /notes, all optional except the tag list
+export interface NoteFilters {
+  tags: string[];
+  tagMode: TagMode;
+  authorId?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  datetimeField?: string; // Label or _id of the datetime field, any datetime field when omitted
+  datetimeAfter?: Date;
+  datetimeBefore?: Date;
+}
+export type SearchSource = 'keyword' | 'semantic';
+
+// Where a query term was found in a note; ranges are offsets into snippet
+export interface NoteHighlight {
+  fieldId: string;
+  fieldType: FieldType;
+  label?: string;
+  snippet: string;
+  ranges: { start: number; end: number }[];
+}
+
+// Hybrid search result; score is the normalized reciprocal rank fusion score in (0, 1]
+export type HybridSearchNote = Note & {
+  score: number;
+  matchedBy: SearchSource[];
+  highlights: NoteHighlight[];
+};
+
+export interface HybridSearchOptions {
+  limit: number;
+  offset: number;
+  minScore: number;
+}
+
+export interface HybridSearchResult {
+  notes: HybridSearchNote[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+// Result of the search across all workspaces of a user
+export type GlobalSearchNote = HybridSearchNote & { workspaceName: string };
+
+export interface GlobalSearchOptions extends HybridSearchOptions {
+  facets: boolean;
+}
+
+export interface SearchFacets {
+  workspaces: { workspaceId: string; workspaceName: string; count: number }[];
+  tags: { tag: string; count: number }[];
+  noteTypes: { noteType: NoteType; count: number }[];
+}
+
+export interface GlobalSearchResult {
+  notes: GlobalSearchNote[];
+  total: number;
+  offset: number;
+  limit: number;
+  facets?: SearchFacets;
+}
+
+export type RelatedNotesScope = 'workspace' | 'all';
+
+// Nearest neighbour of a note; score is the cosine similarity of the stored vectors
+export type RelatedNote = Note & { score: number; workspaceName: string };
+
+export interface RelatedNotesResult {
+  notes: RelatedNote[];
+  embeddingStatus: EmbeddingStatus; // Of the source note, it has no neighbours before its first vector
+}
+
+// Timestamps without an offset are read as UTC, the same way MongoDB parses stored datetime fields
+const filterDateSchema = (name: string) =>
+  z
+    .union([isoDateTimeSchema, z.iso.date()], { error: `${name} must be an ISO 8601 date or date-time` })
+    .transform(value => new Date(/T/.test(value) && !/(?:Z|[+-]\d{2}:?\d{2})$/i.test(value) ? `${value}Z` : value));
+
+const positiveIntegerSchema = (message: string) =>
+  z.coerce.number({ error: message }).int(message).min(1, message);
+
+// Opaque nextCursor of a previous page, decoded
+export const noteCursorParamSchema = z
+  .string()
+  .optional()
+  .transform((cursor, ctx): NoteCursor | undefined => {
+    if (cursor === undefined) {
+      return undefined;
+    }
+    const decoded = decodeNoteCursor(cursor);
+    if (!decoded) {
+      ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+      return z.NEVER;
+    }
+    return decoded;
+  });
+
+// Query params of GET /notes; the first issue is reported, so messages name the offending param
+export const findNotesQuerySchema = z
+  .object({
+    workspaceId: z.string({ error: 'workspaceId is required' }).min(1, 'workspaceId is required'),
+    noteType: z.string({ error: 'noteType is required' }).min(1, 'noteType is required'),
+    query: z.string({ error: 'query must be a string' }).optional().default(''),
+    tags: z
+      .union([z.string(), z.array(z.string())], { error: 'tags must be strings' })
+      .optional()
+      .transform(tags => (tags === undefined ? [] : Array.isArray(tags) ? tags : [tags])),
+    tagMode: z.enum(['any', 'all', 'none'], { error: 'tagMode must be any, all or none' }).optional().default('any'),
+    authorId: z.string().regex(/^[a-f\d]{24}$/i, 'authorId must be a user id').optional(),
+    createdAfter: filterDateSchema('createdAfter').optional(),
+    createdBefore: filterDateSchema('createdBefore').optional(),
+    updatedAfter: filterDateSchema('updatedAfter').optional(),
+    updatedBefore: filterDateSchema('updatedBefore').optional(),
+    datetimeField: z.string().min(1, 'datetimeField must not be empty').optional(),
+    datetimeAfter: filterDateSchema('datetimeAfter').optional(),
+    datetimeBefore: filterDateSchema('datetimeBefore').optional(),
+    mode: z.enum(['semantic', 'hybrid'], { error: 'mode must be semantic or hybrid' }).optional().default('semantic'),
+    limit: positiveIntegerSchema('limit must be a positive integer').optional(),
+    sort: z
+      .enum(['createdAt', 'updatedAt', 'title', 'relevance'], { error: 'sort must be createdAt, updatedAt, title or relevance' })
+      .optional(),
+    order: z.enum(['asc', 'desc'], { error: 'order must be asc or desc' }).optional(),
+    cursor: noteCursorParamSchema,
+    offset: z.coerce
+      .number({ error: 'offset must be a non-negative integer' })
+      .int('offset must be a non-negative integer')
+      .min(0, 'offset must be a non-negative integer')
+      .optional()
+      .default(0),
+    minScore: z.coerce
+      .number({ error: 'minScore must be a number between 0 and 1' })
+      .min(0, 'minScore must be a number between 0 and 1')
+      .max(1, 'minScore must be a number between 0 and 1')
+      .optional()
+      .default(0),
+  })
+  // Relevance when searching, newest first otherwise; titles read A to Z by default
+  .transform(params => {
+    const sort = params.sort ?? (params.query.trim().length > 0 ? 'relevance' : 'createdAt');
+    return { ...params, sort, order: params.order ?? (sort === 'title' ? 'asc' : 'desc') };
+  })
+  .superRefine((params, ctx) => {
+    if (params.mode === 'hybrid' && params.query.trim().length === 0) {
+      ctx.addIssue({ code: 'custom', path: ['query'], message: 'query is required for hybrid search' });
+    }
+    if (params.datetimeField !== undefined && !params.datetimeAfter && !params.datetimeBefore) {
+      ctx.addIssue({ code: 'custom', path: ['datetimeField'], message: 'datetimeField needs datetimeAfter or datetimeBefore' });
+    }
+    if (params.sort === 'relevance' && params.query.trim().length === 0) {
+      ctx.addIssue({ code: 'custom', path: ['sort'], message: 'sort=relevance needs a query' });
+    }
+    const { cursor } = params;
+    if (cursor && (cursor.sort !== params.sort || ('order' in cursor && cursor.order !== params.order))) {
+      ctx.addIssue({ code: 'custom', path: ['cursor'], message: 'cursor does not match the sort order' });
+    }
+  });
+
+export const globalSearchQuerySchema = z.object({
+  query: z.string().trim().min(1, 'query is required'),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(HYBRID_SEARCH_DEFAULT_LIMIT),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+  minScore: z.coerce.number().min(0).max(1).optional().default(0),
+  facets: z.enum(['true', 'false']).optional().transform(facets => facets === 'true'),
+});
+
+export const relatedNotesQuerySchema = z.object({
+  limit: positiveIntegerSchema('limit must be a positive integer')
+    .max(50, 'limit must be at most 50')
+    .optional()
+    .default(RELATED_NOTES_DEFAULT_LIMIT),
+  scope: z.enum(['workspace', 'all'], { error: 'scope must be workspace or all' }).optional().default('workspace'),
+});
+
+export interface NoteRevision {
+  _id: string;
+  noteId: string;
+  revision: number;
+  authorId: string;
+  fields: Field[];
+  tags: string[];
+  createdAt: Date;
+}
+
+export interface FieldDiff {
+  fieldId: string;
+  label?: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: Field;
+  after?: Field;
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  fields: FieldDiff[];
+  tagsAdded: string[];
+  tagsRemoved: string[];
+}
+
 export interface CreateNoteRequest {
   tags: string[];
-  fields: unknown[]; // Just JSON objects as requested
+  fields: Field[];
   noteType: NoteType;
   workspaceId: string;
 }
 
+// Outcome of one note of a batch write, either the note or why it was left out
+export interface BatchNoteResult {
+  note?: Note;
+  error?: string;
+}
+
 export interface UpdateNoteRequest {
   tags: string[];
-  fields: unknown[]; // Just JSON objects as requested
+  fields: Field[];
+}
+
+export type BulkNoteOperation = 'addTags' | 'removeTags' | 'move' | 'copy' | 'delete' | 'changeNoteType';
+
+// `skipped` items were fine but not applied because another item of an atomic request failed its check
+export interface BulkNoteItemResult {
+  noteId: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  note?: Note; // The note as changed, for copies the new note
+  error?: string;
+}
+
+export interface BulkNoteResult {
+  operation: BulkNoteOperation;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  results: BulkNoteItemResult[];
+}
+
+// Body of PUT /notes/:id, `baseRevision` may be sent instead of an If-Match header
+export interface UpdateNoteBody extends UpdateNoteRequest {
+  baseRevision?: number;
 }
 
 export interface GetNoteRequest {
@@ -61,7 +440,7 @@ export interface GetNoteRequest {
 }
 
 export const createNoteSchema = z.object({
-  fields: z.array(z.any()),
+  fields: noteFieldsSchema,
   workspaceId: z.string().min(1, 'workspaceId is required'),
   tags: z.array(z.string()),
   noteType: z.enum([NoteType.CONTENT, NoteType.CHAT, NoteType.TEMPLATE]),
@@ -69,5 +448,36 @@ export const createNoteSchema = z.object({
 
 export const updateNoteSchema = z.object({
   tags: z.array(z.string()),
-  fields: z.array(z.any()),
+  fields: noteFieldsSchema,
+  baseRevision: z.number().int().min(1).optional(),
 }).strict();
+
+export const revisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional(), // Defaults to the current revision
+});
+
+const bulkNoteBaseSchema = z.object({
+  noteIds: z
+    .array(z.string().regex(/^[a-f\d]{24}$/i, 'noteIds must be note ids'))
+    .min(1, 'noteIds must name at least one note')
+    .max(MAX_BULK_NOTES, `noteIds must name at most ${MAX_BULK_NOTES} notes`),
+  // Check every note first and apply nothing unless all of them pass
+  atomic: z.boolean().optional().default(false),
+});
+
+const bulkTagsSchema = z.array(z.string().trim().min(1, 'Tags must not be empty')).min(1, 'tags must name at least one tag');
+
+// Body of POST /notes/bulk
+export const bulkNoteSchema = z.discriminatedUnion('operation', [
+  bulkNoteBaseSchema.extend({ operation: z.literal('addTags'), tags: bulkTagsSchema }).strict(),
+  bulkNoteBaseSchema.extend({ operation: z.literal('removeTags'), tags: bulkTagsSchema }).strict(),
+  bulkNoteBaseSchema.extend({ operation: z.literal('move'), workspaceId: z.string().min(1, 'workspaceId is required') }).strict(),
+  bulkNoteBaseSchema.extend({ operation: z.literal('copy'), workspaceId: z.string().min(1, 'workspaceId is required') }).strict(),
+  bulkNoteBaseSchema.extend({ operation: z.literal('delete') }).strict(),
+  bulkNoteBaseSchema
+    .extend({ operation: z.literal('changeNoteType'), noteType: z.enum([NoteType.CONTENT, NoteType.CHAT, NoteType.TEMPLATE]) })
+    .strict(),
+], { error: 'operation must be addTags, removeTags, move, copy, delete or changeNoteType' });
+
+export type BulkNoteRequest = z.infer<typeof bulkNoteSchema>;
@@ -0,0 +1,56 @@
+import 'dotenv/config';
+
+import { noteModel } from './note.model';
+import { noteFieldsSchema } from './notes.types';
+import { connectDB, disconnectDB } from '../utils/database';
+import logger from '../utils/logger.util';
+
+export interface NonConformingNote {
+  noteId: string;
+  workspaceId: string;
+  issues: { field: string; message: string }[];
+}
+
+/**
+ * Scans every stored note and reports the ones whose fields do not match
+ * the note field schema (e.g. unknown fieldType values or invalid datetimes).
+ * Read-only: nothing is modified, the report is meant to drive manual fixes.
+ */
+export async function findNonConformingNotes(): Promise<NonConformingNote[]> {
+  const report: NonConformingNote[] = [];
+  const cursor = noteModel.find({}, { fields: 1, workspaceId: 1 }).lean().cursor();
+
+  for await (const note of cursor) {
+    const result = noteFieldsSchema.safeParse(note.fields);
+    if (!result.success) {
+      report.push({
+        noteId: note._id.toString(),
+        workspaceId: note.workspaceId,
+        issues: result.error.issues.map(issue => ({
+          field: ['fields', ...issue.path].join('.'),
+          message: issue.message,
+        })),
+      });
+    }
+  }
+
+  return report;
+}
+
+// Allows running the validation pass directly: `npm run validate:notes`
+if (require.main === module) {
+  connectDB()
+    .then(findNonConformingNotes)
+    .then(report => {
+      for (const entry of report) {
+        const issues = entry.issues.map(issue => `${issue.field}: ${issue.message}`).join('; ');
+        logger.info(`Note ${entry.noteId} (workspace ${entry.workspaceId}): ${issues}`);
+      }
+      logger.info(`${report.length} non-conforming note(s) found`);
+    })
+    .catch((error: unknown) => {
+      logger.error('Note validation pass failed:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => disconnectDB());
+}
@@ -7,7 +7,10 @@ import mediaRoutes from './media/media.routes';
 import usersRoutes from './users/user.routes';
 import noteRoutes from './notes/notes.routes';
 import workspaceRoutes from './workspaces/workspace.routes';
+import templateRoutes from './templates/template.routes';
 import { messageRouter } from './messages/message.routes';
+import savedSearchRoutes from './savedSearches/savedSearch.routes';
+import adminRoutes from './admin/admin.routes';
 
 const router = Router();
 
@@ -21,6 +24,12 @@ router.use('/notes', asyncHandler(authenticateToken), noteRoutes);
 
 router.use('/workspace', asyncHandler(authenticateToken), workspaceRoutes);
 
+router.use('/templates', asyncHandler(authenticateToken), templateRoutes);
+
 router.use('/messages', asyncHandler(authenticateToken), messageRouter);
 
+router.use('/saved-searches', asyncHandler(authenticateToken), savedSearchRoutes);
+
+router.use('/admin', asyncHandler(authenticateToken), adminRoutes);
+
 export default router;
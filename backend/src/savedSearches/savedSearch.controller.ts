@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+
+import { savedSearchService } from './savedSearch.service';
+import { CreateSavedSearchRequest, UpdateSavedSearchRequest, savedSearchResultsQuerySchema } from './savedSearch.types';
+
+// Shared mapping of service errors to status codes
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof Error) {
+    if (error.message === 'Saved search not found' || error.message === 'Workspace not found') {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error.message.includes('Access denied')) {
+      res.status(403).json({ error: error.message });
+      return;
+    }
+    if (error.message === 'Saved search name already in use') {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    if (error.message.startsWith('Invalid')) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+  }
+  res.status(500).json({ error: error instanceof Error ? error.message : fallback });
+};
+
+export class SavedSearchController {
+  async createSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const savedSearch = await savedSearchService.createSavedSearch(user._id, req.body as CreateSavedSearchRequest);
+
+      res.status(201).json({
+        message: 'Saved search created successfully',
+        data: { savedSearch },
+      });
+    } catch (error) {
+      console.error('Error creating saved search:', error);
+      sendError(res, error, 'Failed to create saved search');
+    }
+  }
+
+  async getSavedSearches(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const workspaceId = typeof req.query.workspaceId === 'string' ? req.query.workspaceId : undefined;
+      const savedSearches = await savedSearchService.getSavedSearches(user._id, workspaceId);
+
+      res.status(200).json({
+        message: 'Saved searches retrieved successfully',
+        data: { savedSearches },
+      });
+    } catch (error) {
+      console.error('Error retrieving saved searches:', error);
+      sendError(res, error, 'Failed to retrieve saved searches');
+    }
+  }
+
+  async getSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const savedSearch = await savedSearchService.getSavedSearch(req.params.id, user._id);
+
+      res.status(200).json({
+        message: 'Saved search retrieved successfully',
+        data: { savedSearch },
+      });
+    } catch (error) {
+      console.error('Error retrieving saved search:', error);
+      sendError(res, error, 'Failed to retrieve saved search');
+    }
+  }
+
+  async updateSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const savedSearch = await savedSearchService.updateSavedSearch(
+        req.params.id,
+        user._id,
+        req.body as UpdateSavedSearchRequest
+      );
+
+      res.status(200).json({
+        message: 'Saved search updated successfully',
+        data: { savedSearch },
+      });
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      sendError(res, error, 'Failed to update saved search');
+    }
+  }
+
+  async deleteSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const savedSearch = await savedSearchService.deleteSavedSearch(req.params.id, user._id);
+
+      res.status(200).json({
+        message: 'Saved search deleted successfully',
+        data: { savedSearch },
+      });
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      sendError(res, error, 'Failed to delete saved search');
+    }
+  }
+
+  async runSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const queryResult = savedSearchResultsQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        res.status(400).json({ error: queryResult.error.issues[0].message });
+        return;
+      }
+
+      const { limit, cursor } = queryResult.data;
+      const { notes, nextCursor } = await savedSearchService.runSavedSearch(req.params.id, user._id, limit, cursor);
+
+      // Exclude vectorData from response
+      const notesWithoutVectorData = notes.map(note => {
+        return Object.fromEntries(
+          Object.entries(note).filter(([key]) => key !== 'vectorData')
+        );
+      });
+
+      res.status(200).json({
+        message: 'Notes retrieved successfully',
+        data: { notes: notesWithoutVectorData, nextCursor },
+      });
+    } catch (error) {
+      console.error('Error running saved search:', error);
+      sendError(res, error, 'Failed to run saved search');
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+import { NoteType, TagMode } from '../notes/notes.types';
+import { EmbeddingInfo } from '../embeddings/embedding.types';
+import { DEFAULT_SAVED_SEARCH_MIN_SCORE } from '../utils/constants';
+
+// Named set of GET /notes parameters a user can run again or be notified about
+export interface ISavedSearchDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  workspaceId: string;
+  noteType: NoteType;
+  query: string;
+  tags: string[];
+  tagMode: TagMode;
+  notify: boolean;
+  minScore: number;
+  queryVector: number[];
+  embedding?: EmbeddingInfo;
+  lastNotifiedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedSearchSchema = new Schema<ISavedSearchDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    workspaceId: {
+      type: String,
+      required: true
+    },
+    noteType: {
+      type: String,
+      enum: Object.values(NoteType),
+      required: true
+    },
+    query: {
+      type: String,
+      default: ''
+    },
+    tags: [{ type: String }],
+    tagMode: {
+      type: String,
+      enum: ['any', 'all', 'none'],
+      default: 'any'
+    },
+    // Opt-in push notifications for new notes matching the query
+    notify: {
+      type: Boolean,
+      default: false
+    },
+    minScore: {
+      type: Number,
+      default: DEFAULT_SAVED_SEARCH_MIN_SCORE
+    },
+    // Embedding of the query, computed once instead of for every new note
+    queryVector: [{ type: Number }],
+    embedding: {
+      type: new Schema({
+        provider: { type: String, required: true },
+        model: { type: String, required: true },
+        dimension: { type: Number, required: true },
+      }, { _id: false }),
+      required: false
+    },
+    lastNotifiedAt: {
+      type: Date,
+      default: null
+    },
+  },
+  {
+    timestamps: true
+  }
+);
+
+savedSearchSchema.index({ userId: 1, name: 1 }, { unique: true });
+savedSearchSchema.index({ workspaceId: 1, notify: 1 });
+
+export const savedSearchModel = mongoose.model<ISavedSearchDocument>('SavedSearch', savedSearchSchema);
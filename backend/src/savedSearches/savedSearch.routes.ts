@@ -0,0 +1,57 @@
+import { Router } from 'express';
+
+import { authenticateToken } from '../authentication/auth.middleware';
+import { SavedSearchController } from './savedSearch.controller';
+import {
+  CreateSavedSearchRequest,
+  UpdateSavedSearchRequest,
+  createSavedSearchSchema,
+  updateSavedSearchSchema,
+} from './savedSearch.types';
+import { validateBody } from '../middleware/validation.middleware';
+import { asyncHandler } from '../utils/asyncHandler.util';
+
+const router = Router();
+const savedSearchController = new SavedSearchController();
+
+// Saved searches of the current user (?workspaceId= to narrow them down)
+router.get(
+  '/',
+  asyncHandler(authenticateToken),
+  asyncHandler(savedSearchController.getSavedSearches.bind(savedSearchController))
+);
+
+router.post(
+  '/',
+  asyncHandler(authenticateToken),
+  validateBody<CreateSavedSearchRequest>(createSavedSearchSchema),
+  asyncHandler(savedSearchController.createSavedSearch.bind(savedSearchController))
+);
+
+// Run a saved search (?limit=&cursor=), same response as GET /notes
+router.get(
+  '/:id/results',
+  asyncHandler(authenticateToken),
+  asyncHandler(savedSearchController.runSavedSearch.bind(savedSearchController))
+);
+
+router.get(
+  '/:id',
+  asyncHandler(authenticateToken),
+  asyncHandler(savedSearchController.getSavedSearch.bind(savedSearchController))
+);
+
+router.put(
+  '/:id',
+  asyncHandler(authenticateToken),
+  validateBody<UpdateSavedSearchRequest>(updateSavedSearchSchema),
+  asyncHandler(savedSearchController.updateSavedSearch.bind(savedSearchController))
+);
+
+router.delete(
+  '/:id',
+  asyncHandler(authenticateToken),
+  asyncHandler(savedSearchController.deleteSavedSearch.bind(savedSearchController))
+);
+
+export default router;
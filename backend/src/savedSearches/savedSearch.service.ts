@@ -0,0 +1,144 @@
+import mongoose from 'mongoose';
+
+import { noteService } from '../notes/notes.service';
+import { NotePage } from '../notes/notes.types';
+import { NoteCursor } from '../notes/notes.cursor';
+import { workspaceModel } from '../workspaces/workspace.model';
+import { assertAllowed } from '../authorization/authorization.policy';
+import { ISavedSearchDocument, savedSearchModel } from './savedSearch.model';
+import { CreateSavedSearchRequest, SavedSearch, UpdateSavedSearchRequest } from './savedSearch.types';
+
+export class SavedSearchService {
+    private async assertWorkspaceMember(workspaceId: string, userId: mongoose.Types.ObjectId): Promise<void> {
+        const workspace = await workspaceModel.findById(workspaceId);
+        if (!workspace || workspace.deletedAt) {
+            throw new Error('Workspace not found');
+        }
+
+        assertAllowed(workspace, userId, 'view');
+    }
+
+    // Saved searches are private, other users' searches look the same as missing ones
+    private async getOwnSavedSearch(savedSearchId: string, userId: mongoose.Types.ObjectId): Promise<ISavedSearchDocument> {
+        if (!mongoose.isValidObjectId(savedSearchId)) {
+            throw new Error('Saved search not found');
+        }
+
+        const savedSearch = await savedSearchModel.findOne({ _id: savedSearchId, userId });
+        if (!savedSearch) {
+            throw new Error('Saved search not found');
+        }
+        return savedSearch;
+    }
+
+    private async assertNameAvailable(userId: mongoose.Types.ObjectId, name: string, exceptId?: string): Promise<void> {
+        const existing = await savedSearchModel.findOne({ userId, name });
+        if (existing && existing._id.toString() !== exceptId) {
+            throw new Error('Saved search name already in use');
+        }
+    }
+
+    // Embed the query up front so the watcher can score new notes without another provider call
+    async refreshQueryVector(savedSearch: ISavedSearchDocument): Promise<void> {
+        const provider = noteService.getEmbeddingProvider();
+        const queryVector = savedSearch.query.trim().length > 0 ? await provider.embed(savedSearch.query) : [];
+        savedSearch.queryVector = queryVector;
+        savedSearch.embedding = { provider: provider.name, model: provider.model, dimension: queryVector.length };
+    }
+
+    toSavedSearch(savedSearch: ISavedSearchDocument): SavedSearch {
+        return {
+            _id: savedSearch._id.toString(),
+            userId: savedSearch.userId.toString(),
+            name: savedSearch.name,
+            workspaceId: savedSearch.workspaceId,
+            noteType: savedSearch.noteType,
+            query: savedSearch.query,
+            tags: savedSearch.tags,
+            tagMode: savedSearch.tagMode,
+            notify: savedSearch.notify,
+            minScore: savedSearch.minScore,
+            lastNotifiedAt: savedSearch.lastNotifiedAt,
+            createdAt: savedSearch.createdAt,
+            updatedAt: savedSearch.updatedAt,
+        };
+    }
+
+    async createSavedSearch(userId: mongoose.Types.ObjectId, data: CreateSavedSearchRequest): Promise<SavedSearch> {
+        await this.assertWorkspaceMember(data.workspaceId, userId);
+        await this.assertNameAvailable(userId, data.name);
+
+        const savedSearch = new savedSearchModel({ ...data, userId });
+        await this.refreshQueryVector(savedSearch);
+        await savedSearch.save();
+
+        return this.toSavedSearch(savedSearch);
+    }
+
+    // The user's saved searches, optionally only those of one workspace, by name
+    async getSavedSearches(userId: mongoose.Types.ObjectId, workspaceId?: string): Promise<SavedSearch[]> {
+        const savedSearches = await savedSearchModel
+            .find({ userId, ...(workspaceId && { workspaceId }) })
+            .sort({ name: 1 });
+
+        return savedSearches.map(savedSearch => this.toSavedSearch(savedSearch));
+    }
+
+    async getSavedSearch(savedSearchId: string, userId: mongoose.Types.ObjectId): Promise<SavedSearch> {
+        return this.toSavedSearch(await this.getOwnSavedSearch(savedSearchId, userId));
+    }
+
+    async updateSavedSearch(
+        savedSearchId: string,
+        userId: mongoose.Types.ObjectId,
+        data: UpdateSavedSearchRequest
+    ): Promise<SavedSearch> {
+        const savedSearch = await this.getOwnSavedSearch(savedSearchId, userId);
+        if (data.name !== undefined && data.name !== savedSearch.name) {
+            await this.assertNameAvailable(userId, data.name, savedSearchId);
+        }
+
+        const queryChanged = data.query !== undefined && data.query !== savedSearch.query;
+        savedSearch.set(data);
+        if (savedSearch.notify && savedSearch.query.trim().length === 0) {
+            throw new Error('Invalid saved search: notifications need a query');
+        }
+        if (queryChanged) {
+            await this.refreshQueryVector(savedSearch);
+        }
+        await savedSearch.save();
+
+        return this.toSavedSearch(savedSearch);
+    }
+
+    async deleteSavedSearch(savedSearchId: string, userId: mongoose.Types.ObjectId): Promise<SavedSearch> {
+        const savedSearch = await this.getOwnSavedSearch(savedSearchId, userId);
+        await savedSearch.deleteOne();
+        return this.toSavedSearch(savedSearch);
+    }
+
+    // Run the saved parameters through GET /notes, ranked by relevance when there is a query
+    async runSavedSearch(
+        savedSearchId: string,
+        userId: mongoose.Types.ObjectId,
+        limit?: number,
+        cursor?: NoteCursor
+    ): Promise<NotePage> {
+        const savedSearch = await this.getOwnSavedSearch(savedSearchId, userId);
+        const sort = savedSearch.query.trim().length > 0 ? 'relevance' : 'createdAt';
+        if (cursor && cursor.sort !== sort) {
+            throw new Error('Invalid cursor');
+        }
+
+        return noteService.getNotes(
+            userId,
+            savedSearch.workspaceId,
+            savedSearch.noteType,
+            { tags: savedSearch.tags, tagMode: savedSearch.tagMode },
+            savedSearch.query,
+            { sort, order: 'desc', limit, cursor }
+        );
+    }
+}
+
+export const savedSearchService = new SavedSearchService();
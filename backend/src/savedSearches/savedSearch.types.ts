@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+import { NoteType, TagMode, noteCursorParamSchema } from '../notes/notes.types';
+import { DEFAULT_SAVED_SEARCH_MIN_SCORE } from '../utils/constants';
+
+// Saved search
+// ------------------------------------------------------------
+export interface SavedSearch {
+  _id: string;
+  userId: string;
+  name: string;
+  workspaceId: string;
+  noteType: NoteType;
+  query: string;
+  tags: string[];
+  tagMode: TagMode;
+  notify: boolean;
+  minScore: number; // Similarity a new note needs to trigger a notification
+  lastNotifiedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Zod Schemas
+// ------------------------------------------------------------
+export const createSavedSearchSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    workspaceId: z.string().min(1, 'workspaceId is required'),
+    noteType: z.enum(NoteType),
+    query: z.string().trim().max(500).default(''),
+    tags: z.array(z.string()).default([]),
+    tagMode: z.enum(['any', 'all', 'none']).default('any'),
+    notify: z.boolean().default(false),
+    minScore: z.number().min(0).max(1).default(DEFAULT_SAVED_SEARCH_MIN_SCORE),
+  })
+  .strict()
+  .refine(search => !search.notify || search.query.length > 0, {
+    message: 'Notifications need a query',
+    path: ['notify'],
+  });
+
+export const updateSavedSearchSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+    query: z.string().trim().max(500).optional(),
+    tags: z.array(z.string()).optional(),
+    tagMode: z.enum(['any', 'all', 'none']).optional(),
+    notify: z.boolean().optional(),
+    minScore: z.number().min(0).max(1).optional(),
+  })
+  .strict();
+
+export const savedSearchResultsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: noteCursorParamSchema,
+});
+
+// Request types
+// ------------------------------------------------------------
+export type CreateSavedSearchRequest = z.infer<typeof createSavedSearchSchema>;
+export type UpdateSavedSearchRequest = z.infer<typeof updateSavedSearchSchema>;
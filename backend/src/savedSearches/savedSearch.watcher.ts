@@ -0,0 +1,112 @@
+import { INoteDocument } from '../notes/note.model';
+import { noteEvents } from '../notes/note.events';
+import { noteService } from '../notes/notes.service';
+import { matchesTags } from '../notes/notes.search';
+import { LEGACY_EMBEDDING } from '../embeddings/embedding.types';
+import { notificationService } from '../notifications/notification.service';
+import { userModel } from '../users/user.model';
+import { workspaceModel } from '../workspaces/workspace.model';
+import { getMembership, isAllowed } from '../authorization/authorization.policy';
+import { cosineSimilarity } from '../search/vectorIndex.service';
+import logger from '../utils/logger.util';
+import { ISavedSearchDocument, savedSearchModel } from './savedSearch.model';
+import { savedSearchService } from './savedSearch.service';
+
+const getNoteTitle = (note: INoteDocument): string | null => {
+  const title = (note.fields as { fieldType?: string; content?: unknown }[])
+    .find(field => field.fieldType === 'title');
+  return typeof title?.content === 'string' && title.content.trim().length > 0 ? title.content : null;
+};
+
+// Similarity of the note to the saved query, null when their vectors were not produced the same way
+async function scoreNote(savedSearch: ISavedSearchDocument, note: INoteDocument): Promise<number | null> {
+  const provider = noteService.getEmbeddingProvider();
+  if (savedSearch.embedding?.provider !== provider.name || savedSearch.embedding.model !== provider.model) {
+    await savedSearchService.refreshQueryVector(savedSearch);
+    await savedSearch.save();
+  }
+
+  const noteProvider = note.embedding?.provider ?? LEGACY_EMBEDDING.provider;
+  const noteEmbeddingModel = note.embedding?.model ?? LEGACY_EMBEDDING.model;
+  if (noteProvider !== provider.name
+    || noteEmbeddingModel !== provider.model
+    || note.vectorData.length === 0
+    || note.vectorData.length !== savedSearch.queryVector.length) {
+    return null;
+  }
+  return cosineSimilarity(savedSearch.queryVector, note.vectorData);
+}
+
+/**
+ * Sends a push notification for every saved search with notifications turned
+ * on that the new note matches: same workspace, note type and tags, and a
+ * similarity to the saved query of at least its minScore. Authors are not
+ * notified about their own notes. Returns how many notifications were sent.
+ */
+export async function notifySavedSearchMatches(note: INoteDocument): Promise<number> {
+  const savedSearches = await savedSearchModel.find({
+    workspaceId: note.workspaceId,
+    noteType: note.noteType,
+    notify: true,
+    userId: { $ne: note.userId },
+  });
+  if (savedSearches.length === 0) {
+    return 0;
+  }
+
+  const workspace = await workspaceModel.findById(note.workspaceId);
+  if (!workspace || workspace.deletedAt) {
+    return 0;
+  }
+
+  let sent = 0;
+  for (const savedSearch of savedSearches) {
+    // Members who left or were banned keep their saved searches but stop hearing about the workspace
+    const canView = isAllowed(getMembership(workspace, savedSearch.userId).role, 'view');
+    if (!canView || !matchesTags(note.tags, savedSearch.tags, savedSearch.tagMode)) {
+      continue;
+    }
+
+    const score = await scoreNote(savedSearch, note);
+    if (score === null || score < savedSearch.minScore) {
+      continue;
+    }
+
+    const user = await userModel.findById(savedSearch.userId);
+    if (!user?.fcmToken) {
+      continue;
+    }
+
+    const delivered = await notificationService.sendNotification(
+      user.fcmToken,
+      `New match for "${savedSearch.name}"`,
+      getNoteTitle(note) ?? `A new note in "${workspace.name}" matches your saved search`,
+      {
+        type: 'saved_search_match',
+        savedSearchId: savedSearch._id.toString(),
+        workspaceId: note.workspaceId,
+        noteId: note._id.toString(),
+      }
+    );
+    if (delivered) {
+      savedSearch.lastNotifiedAt = new Date();
+      await savedSearch.save();
+      sent++;
+    }
+  }
+  return sent;
+}
+
+// Checks every newly created note against the saved searches for the lifetime of the server process
+export function startSavedSearchWatcher(): () => void {
+  const listener = (note: INoteDocument) => {
+    notifySavedSearchMatches(note).catch((error: unknown) => {
+      logger.error('Saved search notification failed:', error);
+    });
+  };
+
+  noteEvents.on('created', listener);
+  return () => {
+    noteEvents.off('created', listener);
+  };
+}
@@ -0,0 +1,276 @@
+export interface VectorSearchHit {
+  id: string;
+  score: number; // Cosine similarity to the query
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array; // Unit length, so the dot product is the cosine similarity
+  neighbors: number[][]; // Per layer, from 0 up to the node's level
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+// Keeps `list` ordered by ascending distance
+const insertSorted = (list: Candidate[], candidate: Candidate): void => {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid].distance < candidate.distance) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  list.splice(low, 0, candidate);
+};
+
+// Small seeded PRNG (mulberry32) so graphs are reproducible between runs
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest neighbour
+ * search by cosine similarity. Removals only mark nodes as deleted, they keep
+ * routing searches until enough of them pile up to warrant a rebuild.
+ */
+export class HnswIndex {
+  private nodes: HnswNode[] = [];
+  private ids = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private readonly levelMultiplier: number;
+  private readonly random = createRandom(42);
+
+  constructor(
+    readonly dimension: number,
+    private readonly m: number = 16,
+    private readonly efConstruction: number = 200,
+    private readonly efSearch: number = 64
+  ) {
+    this.levelMultiplier = 1 / Math.log(m);
+  }
+
+  get size(): number {
+    return this.ids.size;
+  }
+
+  has(id: string): boolean {
+    return this.ids.has(id);
+  }
+
+  // Null for vectors of the wrong dimension or without direction, they cannot be ranked
+  private normalize(vector: ArrayLike<number>): Float32Array | null {
+    if (vector.length !== this.dimension) {
+      return null;
+    }
+
+    const normalized = new Float32Array(this.dimension);
+    let norm = 0;
+    for (let i = 0; i < this.dimension; i++) {
+      const value = Number(vector[i]) || 0;
+      normalized[i] = value;
+      norm += value * value;
+    }
+    if (norm === 0) {
+      return null;
+    }
+
+    const scale = 1 / Math.sqrt(norm);
+    for (let i = 0; i < this.dimension; i++) {
+      normalized[i] *= scale;
+    }
+    return normalized;
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+    return 1 - dot;
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+  }
+
+  // Best-first search of one layer; only nodes passing `accept` make it into the results
+  private searchLayer(
+    query: Float32Array,
+    entries: number[],
+    ef: number,
+    level: number,
+    accept: (node: HnswNode) => boolean = () => true
+  ): Candidate[] {
+    const visited = new Set<number>(entries);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const entry of entries) {
+      const candidate = { node: entry, distance: this.distance(query, this.nodes[entry].vector) };
+      insertSorted(candidates, candidate);
+      if (accept(this.nodes[entry])) {
+        insertSorted(results, candidate);
+      }
+    }
+
+    while (candidates.length > 0) {
+      const current = candidates.shift() as Candidate;
+      if (results.length >= ef && current.distance > results[results.length - 1].distance) {
+        break;
+      }
+
+      for (const neighbor of this.nodes[current.node].neighbors[level] ?? []) {
+        if (visited.has(neighbor)) {
+          continue;
+        }
+        visited.add(neighbor);
+
+        const candidate = { node: neighbor, distance: this.distance(query, this.nodes[neighbor].vector) };
+        if (results.length < ef || candidate.distance < results[results.length - 1].distance) {
+          insertSorted(candidates, candidate);
+          if (accept(this.nodes[neighbor])) {
+            insertSorted(results, candidate);
+            if (results.length > ef) {
+              results.pop();
+            }
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // Add a vector, replacing any previous vector stored under the same id
+  add(id: string, vector: ArrayLike<number>): boolean {
+    this.remove(id);
+
+    const normalized = this.normalize(vector);
+    if (!normalized) {
+      return false;
+    }
+
+    const level = this.randomLevel();
+    const index = this.nodes.length;
+    const node: HnswNode = {
+      id,
+      vector: normalized,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    this.nodes.push(node);
+    this.ids.set(id, index);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return true;
+    }
+
+    let entries = [this.entryPoint];
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entries = [this.searchLayer(normalized, entries, 1, layer)[0].node];
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(normalized, entries, this.efConstruction, layer);
+      const maxConnections = layer === 0 ? this.m * 2 : this.m;
+
+      node.neighbors[layer] = found.slice(0, this.m).map(candidate => candidate.node);
+      for (const neighborIndex of node.neighbors[layer]) {
+        const neighbor = this.nodes[neighborIndex];
+        neighbor.neighbors[layer].push(index);
+        if (neighbor.neighbors[layer].length > maxConnections) {
+          neighbor.neighbors[layer] = neighbor.neighbors[layer]
+            .map(other => ({ node: other, distance: this.distance(neighbor.vector, this.nodes[other].vector) }))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, maxConnections)
+            .map(candidate => candidate.node);
+        }
+      }
+
+      entries = found.map(candidate => candidate.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = index;
+    }
+    return true;
+  }
+
+  remove(id: string): boolean {
+    const index = this.ids.get(id);
+    if (index === undefined) {
+      return false;
+    }
+
+    this.nodes[index].deleted = true;
+    this.ids.delete(id);
+    this.deletedCount++;
+
+    // Rebuild once deleted nodes outnumber the live ones
+    if (this.deletedCount > 64 && this.deletedCount > this.ids.size) {
+      this.compact();
+    }
+    return true;
+  }
+
+  private compact(): void {
+    const live = this.nodes.filter(node => !node.deleted);
+    this.nodes = [];
+    this.ids.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+    for (const node of live) {
+      this.add(node.id, node.vector);
+    }
+  }
+
+  // Up to `k` nearest live vectors, most similar first
+  search(query: ArrayLike<number>, k: number, filter?: (id: string) => boolean): VectorSearchHit[] {
+    if (this.entryPoint === -1 || k <= 0) {
+      return [];
+    }
+
+    const normalized = this.normalize(query);
+    if (!normalized) {
+      return [];
+    }
+
+    let entries = [this.entryPoint];
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entries = [this.searchLayer(normalized, entries, 1, layer)[0].node];
+    }
+
+    const found = this.searchLayer(
+      normalized,
+      entries,
+      Math.max(this.efSearch, k),
+      0,
+      node => !node.deleted && (!filter || filter(node.id))
+    );
+
+    return found.slice(0, k).map(candidate => ({
+      id: this.nodes[candidate.node].id,
+      score: 1 - candidate.distance,
+    }));
+  }
+}
@@ -0,0 +1,149 @@
+import { noteModel } from '../notes/note.model';
+import { EmbeddingInfo, EmbeddingProvider, LEGACY_EMBEDDING } from '../embeddings/embedding.types';
+import { HnswIndex, VectorSearchHit } from './hnsw.index';
+
+export interface IndexedNote {
+  _id: { toString(): string };
+  workspaceId: string;
+  noteType: string;
+  tags: string[];
+  vectorData: number[];
+  embedding?: EmbeddingInfo;
+  deletedAt?: Date | null;
+}
+
+// Whether the note's vector was produced by the given provider and model, only then it compares
+export function isEmbeddedBy(
+  note: Pick<IndexedNote, 'vectorData' | 'embedding'>,
+  provider: Pick<EmbeddingProvider, 'name' | 'model'>
+): boolean {
+  return Array.isArray(note.vectorData)
+    && note.vectorData.length > 0
+    && (note.embedding?.provider ?? LEGACY_EMBEDDING.provider) === provider.name
+    && (note.embedding?.model ?? LEGACY_EMBEDDING.model) === provider.model;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// What a search filter can look at without going back to the database
+export interface IndexedNoteMeta {
+  noteType: string;
+  tags: string[];
+}
+
+// Vectors of one workspace produced by one provider and model
+export class WorkspaceVectorIndex {
+  private hnsw?: HnswIndex;
+  private meta = new Map<string, IndexedNoteMeta>();
+
+  constructor(readonly provider: EmbeddingProvider) {}
+
+  get size(): number {
+    return this.hnsw?.size ?? 0;
+  }
+
+  // Notes embedded by another provider or model are never indexed next to ours
+  private accepts(note: IndexedNote): boolean {
+    return isEmbeddedBy(note, this.provider) && !note.deletedAt;
+  }
+
+  upsert(note: IndexedNote): void {
+    const noteId = note._id.toString();
+    if (!this.accepts(note)) {
+      this.remove(noteId);
+      return;
+    }
+
+    // The first vector fixes the dimension, later ones of another length are left out
+    this.hnsw = this.hnsw ?? new HnswIndex(note.vectorData.length);
+    if (this.hnsw.add(noteId, note.vectorData)) {
+      this.meta.set(noteId, { noteType: note.noteType, tags: note.tags });
+    } else {
+      this.meta.delete(noteId);
+    }
+  }
+
+  remove(noteId: string): void {
+    this.hnsw?.remove(noteId);
+    this.meta.delete(noteId);
+  }
+
+  search(query: number[], k: number, filter?: (meta: IndexedNoteMeta, noteId: string) => boolean): VectorSearchHit[] {
+    if (!this.hnsw) {
+      return [];
+    }
+    return this.hnsw.search(query, k, filter && (id => {
+      const meta = this.meta.get(id);
+      return meta !== undefined && filter(meta, id);
+    }));
+  }
+}
+
+/**
+ * Keeps one ANN index per workspace in memory. Indexes are built lazily from
+ * the stored vectors the first time a workspace is searched (so also after a
+ * restart), then kept up to date by NoteService on every write.
+ */
+export class VectorIndexService {
+  private indexes = new Map<string, Promise<WorkspaceVectorIndex>>();
+
+  private async build(workspaceId: string, provider: EmbeddingProvider): Promise<WorkspaceVectorIndex> {
+    const index = new WorkspaceVectorIndex(provider);
+    const cursor = noteModel
+      .find({ workspaceId, deletedAt: null }, { noteType: 1, tags: 1, vectorData: 1, embedding: 1, workspaceId: 1 })
+      .lean()
+      .cursor();
+
+    for await (const note of cursor) {
+      index.upsert(note as IndexedNote);
+    }
+    return index;
+  }
+
+  // The index of a workspace for the given provider, rebuilt if the provider changed
+  async getIndex(workspaceId: string, provider: EmbeddingProvider): Promise<WorkspaceVectorIndex> {
+    const existing = this.indexes.get(workspaceId);
+    if (existing) {
+      const index = await existing;
+      if (index.provider.name === provider.name && index.provider.model === provider.model) {
+        return index;
+      }
+    }
+
+    const building = this.build(workspaceId, provider);
+    this.indexes.set(workspaceId, building);
+    building.catch(() => this.indexes.delete(workspaceId));
+    return building;
+  }
+
+  // Workspaces that were never searched have no index yet, they pick the note up when built
+  async upsertNote(note: IndexedNote): Promise<void> {
+    const existing = this.indexes.get(note.workspaceId);
+    if (existing) {
+      (await existing).upsert(note);
+    }
+  }
+
+  async removeNote(workspaceId: string, noteId: string): Promise<void> {
+    const existing = this.indexes.get(workspaceId);
+    if (existing) {
+      (await existing).remove(noteId);
+    }
+  }
+
+  dropWorkspace(workspaceId: string): void {
+    this.indexes.delete(workspaceId);
+  }
+}
+
+export const vectorIndexService = new VectorIndexService();
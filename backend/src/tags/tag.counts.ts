@@ -0,0 +1,63 @@
+import { noteModel } from '../notes/note.model';
+import { tagModel } from './tag.model';
+
+type UsageRow = { _id: { workspaceId: string; tag: string }; count: number };
+
+// Live notes per workspace and tag, a tag listed twice on one note counts once
+const countUsage = (match: Record<string, unknown>, tags?: string[]) => noteModel.aggregate<UsageRow>([
+  { $match: { ...match, deletedAt: null } },
+  { $project: { workspaceId: 1, tags: { $setUnion: ['$tags', []] } } },
+  { $unwind: '$tags' },
+  ...(tags ? [{ $match: { tags: { $in: tags } } }] : []),
+  { $group: { _id: { workspaceId: '$workspaceId', tag: '$tags' }, count: { $sum: 1 } } },
+]);
+
+/**
+ * Brings the note counts of the given tags of a workspace up to date, creating
+ * the tags that notes started to use. Counted from the notes rather than
+ * incremented, so a missed or repeated call never leaves a count off for good.
+ */
+export async function refreshTagCounts(workspaceId: string, tags: string[]): Promise<void> {
+  const names = [...new Set(tags)];
+  if (names.length === 0) {
+    return;
+  }
+
+  const usage = await countUsage({ workspaceId, tags: { $in: names } }, names);
+  const counts = new Map(usage.map(row => [row._id.tag, row.count]));
+  await tagModel.bulkWrite(names.map(name => ({
+    updateOne: {
+      filter: { workspaceId, name },
+      update: { $set: { noteCount: counts.get(name) ?? 0 } },
+      upsert: true,
+    },
+  })));
+}
+
+// Recount every tag of every workspace, run at startup to fill in tags of notes written before the collection existed
+export async function rebuildTagCounts(): Promise<number> {
+  const usage = await countUsage({});
+  if (usage.length > 0) {
+    await tagModel.bulkWrite(usage.map(row => ({
+      updateOne: {
+        filter: { workspaceId: row._id.workspaceId, name: row._id.tag },
+        update: { $set: { noteCount: row.count } },
+        upsert: true,
+      },
+    })));
+  }
+
+  // Tags no live note uses anymore
+  const usedByWorkspace = new Map<string, string[]>();
+  usage.forEach(row => {
+    usedByWorkspace.set(row._id.workspaceId, [...(usedByWorkspace.get(row._id.workspaceId) ?? []), row._id.tag]);
+  });
+  for (const [workspaceId, names] of usedByWorkspace) {
+    await tagModel.updateMany({ workspaceId, name: { $nin: names }, noteCount: { $ne: 0 } }, { noteCount: 0 });
+  }
+  await tagModel.updateMany(
+    { workspaceId: { $nin: [...usedByWorkspace.keys()] }, noteCount: { $ne: 0 } },
+    { noteCount: 0 }
+  );
+  return usage.length;
+}
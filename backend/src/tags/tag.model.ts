@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A tag of a workspace, created the first time a note uses it and kept (with its color) when unused
+export interface ITagDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  workspaceId: string;
+  name: string;
+  color: string | null; // Hex color like #1a2b3c
+  description: string;
+  noteCount: number; // Live notes of the workspace carrying the tag
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const tagSchema = new Schema<ITagDocument>(
+  {
+    workspaceId: {
+      type: String,
+      required: true
+    },
+    name: {
+      type: String,
+      required: true
+    },
+    color: {
+      type: String,
+      default: null
+    },
+    description: {
+      type: String,
+      default: ''
+    },
+    // Recomputed from the notes whenever a write touches the tag
+    noteCount: {
+      type: Number,
+      default: 0
+    },
+  },
+  {
+    timestamps: true
+  }
+);
+
+tagSchema.index({ workspaceId: 1, name: 1 }, { unique: true });
+
+export const tagModel = mongoose.model<ITagDocument>('Tag', tagSchema);
@@ -0,0 +1,274 @@
+import mongoose from 'mongoose';
+import {
+    TagDuplicatesReport,
+    TagRewriteResult,
+    TagSuggestion,
+    TagSuggestionsResult,
+    TagUpdateResult,
+    TagUsage,
+    UpdateTagRequest,
+    WorkspaceTag,
+} from './tag.types';
+import { ITagDocument, tagModel } from './tag.model';
+import { refreshTagCounts } from './tag.counts';
+import { groupDuplicateTags } from './tag.similarity';
+import { noteModel } from '../notes/note.model';
+import { noteService } from '../notes/notes.service';
+import { isEmbeddedBy, vectorIndexService } from '../search/vectorIndex.service';
+import { savedSearchModel } from '../savedSearches/savedSearch.model';
+import { IWorkspaceDocument, workspaceModel } from '../workspaces/workspace.model';
+import { WorkspaceAction, assertAllowed } from '../authorization/authorization.policy';
+import logger from '../utils/logger.util';
+import {
+    TAG_DUPLICATE_SEMANTIC_SIMILARITY,
+    TAG_DUPLICATE_STRING_SIMILARITY,
+    TAG_DUPLICATES_MAX_TAGS,
+    TAG_SUGGESTION_NEIGHBOURS,
+} from '../utils/constants';
+
+// Tags of a note with `sources` replaced by `into` (or removed), keeping the order and dropping repeats
+const replaceTags = (tags: string[], sources: string[], into: string | null): string[] =>
+    [...new Set(tags.flatMap(tag => (!sources.includes(tag) ? [tag] : into === null ? [] : [into])))];
+
+export class TagService {
+    private async getWorkspaceForMember(
+        workspaceId: string,
+        userId: mongoose.Types.ObjectId,
+        action: WorkspaceAction = 'view'
+    ): Promise<IWorkspaceDocument> {
+        const workspace = await workspaceModel.findById(workspaceId);
+        if (!workspace || workspace.deletedAt) {
+            throw new Error('Workspace not found');
+        }
+
+        assertAllowed(workspace, userId, action);
+
+        return workspace;
+    }
+
+    // Tags of the nearest neighbours of a note by its stored vector, weighted by how similar
+    // the neighbours carrying them are. Tags the note already has are never suggested.
+    async getSuggestedTags(noteId: string, userId: mongoose.Types.ObjectId, limit: number): Promise<TagSuggestionsResult> {
+        const note = await noteModel.findById(noteId);
+        if (!note || note.deletedAt) {
+            throw new Error('Note not found');
+        }
+        await this.getWorkspaceForMember(note.workspaceId, userId);
+
+        const provider = noteService.getEmbeddingProvider();
+        if (!isEmbeddedBy(note, provider)) {
+            return { suggestions: [], embeddingStatus: note.embeddingStatus };
+        }
+
+        const sourceId = note._id.toString();
+        const index = await vectorIndexService.getIndex(note.workspaceId, provider);
+        const hits = index
+            .search(note.vectorData, TAG_SUGGESTION_NEIGHBOURS, (meta, id) => id !== sourceId && meta.tags.length > 0)
+            .filter(hit => hit.score > 0);
+        if (hits.length === 0) {
+            return { suggestions: [], embeddingStatus: note.embeddingStatus };
+        }
+
+        // The index metadata may lag behind a tag edit, the stored tags are authoritative
+        const neighbours = await noteModel
+            .find({ _id: { $in: hits.map(hit => hit.id) }, deletedAt: null })
+            .select('tags');
+        const tagsById = new Map(neighbours.map(neighbour => [neighbour._id.toString(), neighbour.tags]));
+
+        const totalScore = hits.reduce((sum, hit) => sum + hit.score, 0);
+        const byTag = new Map<string, TagSuggestion>();
+        for (const hit of hits) {
+            for (const tag of new Set(tagsById.get(hit.id) ?? [])) {
+                if (note.tags.includes(tag)) {
+                    continue;
+                }
+                const suggestion = byTag.get(tag) ?? { tag, score: 0, noteCount: 0 };
+                suggestion.score += hit.score / totalScore;
+                suggestion.noteCount++;
+                byTag.set(tag, suggestion);
+            }
+        }
+
+        const suggestions = Array.from(byTag.values())
+            .sort((a, b) => b.score - a.score || b.noteCount - a.noteCount || a.tag.localeCompare(b.tag))
+            .slice(0, limit);
+        return { suggestions, embeddingStatus: note.embeddingStatus };
+    }
+
+    // Groups of tags in a workspace that look like spellings of the same tag, compared by spelling
+    // and, as far as the embedding provider is reachable, by meaning
+    async findDuplicateTags(workspaceId: string, userId: mongoose.Types.ObjectId): Promise<TagDuplicatesReport> {
+        await this.getWorkspaceForMember(workspaceId, userId);
+
+        const usage = await tagModel
+            .find({ workspaceId, noteCount: { $gt: 0 } })
+            .sort({ noteCount: -1, name: 1 })
+            .limit(TAG_DUPLICATES_MAX_TAGS);
+        const tags: TagUsage[] = usage.map(tag => ({ tag: tag.name, count: tag.noteCount }));
+
+        const vectors = new Map<string, number[]>();
+        let semantic = true;
+        try {
+            // One batch for every tag, those embedded before come from the cache
+            const embedded = await noteService.getEmbeddingProvider().embedMany(tags.map(({ tag }) => tag));
+            tags.forEach(({ tag }, i) => {
+                if (embedded[i].length > 0) {
+                    vectors.set(tag, embedded[i]);
+                }
+            });
+        } catch (error) {
+            logger.error('Tag embedding failed, comparing tags by spelling only:', error);
+            vectors.clear();
+            semantic = false;
+        }
+
+        const groups = groupDuplicateTags(tags, vectors, {
+            string: TAG_DUPLICATE_STRING_SIMILARITY,
+            semantic: TAG_DUPLICATE_SEMANTIC_SIMILARITY,
+        });
+        return { groups, semantic };
+    }
+
+    private toWorkspaceTag(tag: ITagDocument): WorkspaceTag {
+        return {
+            _id: tag._id.toString(),
+            workspaceId: tag.workspaceId,
+            name: tag.name,
+            color: tag.color,
+            description: tag.description,
+            noteCount: tag.noteCount,
+            createdAt: tag.createdAt,
+            updatedAt: tag.updatedAt,
+        };
+    }
+
+    private async getTag(workspaceId: string, name: string): Promise<ITagDocument> {
+        const tag = await tagModel.findOne({ workspaceId, name });
+        if (!tag) {
+            throw new Error('Tag not found');
+        }
+        return tag;
+    }
+
+    // Replace `sources` by `into` (or drop them when `into` is null) on every note of the workspace, trashed
+    // ones included, and in the tag filters of its saved searches. Notes that a concurrent edit kept from being
+    // rewritten are reported as conflicts rather than overwritten.
+    private async rewriteTags(
+        workspaceId: string,
+        userId: mongoose.Types.ObjectId,
+        sources: string[],
+        into: string | null
+    ): Promise<Omit<TagRewriteResult, 'tag'>> {
+        const { rewritten, conflicts } = await noteService.retagNotes(
+            workspaceId,
+            sources,
+            tags => replaceTags(tags, sources, into),
+            userId
+        );
+        await refreshTagCounts(workspaceId, into === null ? sources : [...sources, into]);
+
+        const savedSearches = await savedSearchModel.find({ workspaceId, tags: { $in: sources } });
+        for (const savedSearch of savedSearches) {
+            savedSearch.tags = replaceTags(savedSearch.tags, sources, into);
+            await savedSearch.save();
+        }
+
+        return { notes: rewritten, savedSearches: savedSearches.length, conflicts };
+    }
+
+    // Drop the documents of replaced tags once no note, trashed or not, carries them anymore
+    private async deleteUnusedTags(workspaceId: string, names: string[]): Promise<void> {
+        const inUse: string[] = await noteModel.distinct('tags', { workspaceId, tags: { $in: names } });
+        await tagModel.deleteMany({ workspaceId, name: { $in: names.filter(name => !inUse.includes(name)) } });
+    }
+
+    // Every tag of the workspace with its color, description and usage, most used first
+    async getTags(workspaceId: string, userId: mongoose.Types.ObjectId): Promise<WorkspaceTag[]> {
+        await this.getWorkspaceForMember(workspaceId, userId);
+
+        const tags = await tagModel.find({ workspaceId }).sort({ noteCount: -1, name: 1 });
+        return tags.map(tag => this.toWorkspaceTag(tag));
+    }
+
+    // Change the color or description of a tag, or rename it on every note. Renaming onto a
+    // tag that already exists is refused, merging is the way to combine two tags.
+    async updateTag(
+        workspaceId: string,
+        userId: mongoose.Types.ObjectId,
+        name: string,
+        update: UpdateTagRequest
+    ): Promise<TagUpdateResult> {
+        await this.getWorkspaceForMember(workspaceId, userId, 'manage');
+        const tag = await this.getTag(workspaceId, name);
+
+        let target = tag;
+        let conflicts = 0;
+        if (update.name !== undefined && update.name !== name) {
+            if (await tagModel.exists({ workspaceId, name: update.name })) {
+                throw new Error('Tag name already in use');
+            }
+            // Notes first, the tag documents only change once every note that could be was rewritten
+            ({ conflicts } = await this.rewriteTags(workspaceId, userId, [name], update.name));
+            target = await this.getTag(workspaceId, update.name);
+            target.color = tag.color;
+            target.description = tag.description;
+            await this.deleteUnusedTags(workspaceId, [name]);
+        }
+
+        if (update.color !== undefined) {
+            target.color = update.color;
+        }
+        if (update.description !== undefined) {
+            target.description = update.description;
+        }
+        await target.save();
+
+        return { tag: this.toWorkspaceTag(target), conflicts };
+    }
+
+    // Replace tags across the workspace by a single one. The target keeps its own color and
+    // description, or takes those of the most used source when it did not exist yet.
+    async mergeTags(
+        workspaceId: string,
+        userId: mongoose.Types.ObjectId,
+        tags: string[],
+        into: string
+    ): Promise<TagRewriteResult> {
+        await this.getWorkspaceForMember(workspaceId, userId, 'manage');
+
+        const sources = [...new Set(tags)].filter(tag => tag !== into);
+        if (sources.length === 0) {
+            return { tag: into, notes: 0, savedSearches: 0, conflicts: 0 };
+        }
+
+        // Settled before the rewrite, which creates the target tag along with its first notes
+        const [template] = await tagModel.exists({ workspaceId, name: into })
+            ? []
+            : await tagModel.find({ workspaceId, name: { $in: sources } }).sort({ noteCount: -1 }).limit(1);
+
+        const result = await this.rewriteTags(workspaceId, userId, sources, into);
+        if (template) {
+            await tagModel.updateOne(
+                { workspaceId, name: into },
+                { color: template.color, description: template.description },
+                { upsert: true }
+            );
+        }
+        await this.deleteUnusedTags(workspaceId, sources);
+
+        return { tag: into, ...result };
+    }
+
+    // Remove a tag from every note and saved search of the workspace
+    async deleteTag(workspaceId: string, userId: mongoose.Types.ObjectId, name: string): Promise<TagRewriteResult> {
+        await this.getWorkspaceForMember(workspaceId, userId, 'manage');
+        await this.getTag(workspaceId, name);
+
+        const result = await this.rewriteTags(workspaceId, userId, [name], null);
+        await this.deleteUnusedTags(workspaceId, [name]);
+
+        return { tag: name, ...result };
+    }
+}
+
+export const tagService = new TagService();
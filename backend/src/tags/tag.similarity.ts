@@ -0,0 +1,106 @@
+import { cosineSimilarity } from '../search/vectorIndex.service';
+import { TagDuplicateGroup, TagMatch, TagUsage } from './tag.types';
+
+export interface TagSimilarityThresholds {
+  string: number;
+  semantic: number;
+}
+
+// "TODO", "to-do" and "To Do" all share the key "todo"
+export const getTagKey = (tag: string): string =>
+  tag.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for tags with the same key, otherwise 1 minus the edit distance of the keys relative to the longer one
+export function getTagStringSimilarity(a: string, b: string): number {
+  const keyA = getTagKey(a);
+  const keyB = getTagKey(b);
+  const length = Math.max(keyA.length, keyB.length);
+  if (length === 0) {
+    return keyA === keyB ? 1 : 0;
+  }
+  return 1 - editDistance(keyA, keyB) / length;
+}
+
+// The spelling most notes use, ties go to the alphabetically first one
+const bySuggestion = (a: TagUsage, b: TagUsage): number => b.count - a.count || a.tag.localeCompare(b.tag);
+
+/**
+ * Groups near-duplicate tags. Two tags match when their spelling is at least
+ * `thresholds.string` similar, or their vectors (when both have one) at least
+ * `thresholds.semantic`. Matches chain, so "todo", "to-do" and "todos" end up
+ * in one group even if the ends of the chain do not match each other.
+ */
+export function groupDuplicateTags(
+  tags: TagUsage[],
+  vectors: Map<string, number[]>,
+  thresholds: TagSimilarityThresholds
+): TagDuplicateGroup[] {
+  const parent = tags.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const matches: { left: number; match: TagMatch }[] = [];
+  for (let i = 0; i < tags.length; i++) {
+    for (let j = i + 1; j < tags.length; j++) {
+      const pair: [string, string] = [tags[i].tag, tags[j].tag];
+      let match: TagMatch | null = null;
+
+      const stringSimilarity = getTagStringSimilarity(pair[0], pair[1]);
+      if (stringSimilarity >= thresholds.string) {
+        match = { tags: pair, similarity: stringSimilarity, matchedBy: 'string' };
+      } else {
+        const vectorA = vectors.get(pair[0]);
+        const vectorB = vectors.get(pair[1]);
+        if (vectorA?.length && vectorA.length === vectorB?.length) {
+          const semanticSimilarity = cosineSimilarity(vectorA, vectorB);
+          if (semanticSimilarity >= thresholds.semantic) {
+            match = { tags: pair, similarity: semanticSimilarity, matchedBy: 'semantic' };
+          }
+        }
+      }
+
+      if (match) {
+        matches.push({ left: i, match });
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, TagDuplicateGroup>();
+  tags.forEach((usage, i) => {
+    const root = find(i);
+    const group = groups.get(root) ?? { tags: [], suggestedTag: '', matches: [] };
+    group.tags.push(usage);
+    groups.set(root, group);
+  });
+  matches.forEach(({ left, match }) => groups.get(find(left))?.matches.push(match));
+
+  return Array.from(groups.values())
+    .filter(group => group.tags.length > 1)
+    .map(group => {
+      const sorted = [...group.tags].sort(bySuggestion);
+      return { ...group, tags: sorted, suggestedTag: sorted[0].tag };
+    })
+    .sort((a, b) => bySuggestion(a.tags[0], b.tags[0]));
+}
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+
+import { EmbeddingStatus } from '../embeddings/embedding.types';
+import { TAG_SUGGESTION_DEFAULT_LIMIT } from '../utils/constants';
+
+// Workspace tags
+// ------------------------------------------------------------
+export interface WorkspaceTag {
+  _id: string;
+  workspaceId: string;
+  name: string;
+  color: string | null;
+  description: string;
+  noteCount: number; // Live notes carrying the tag
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Outcome of renaming, merging or deleting tags
+export interface TagRewriteResult {
+  tag: string; // The tag notes carry now, or the deleted one
+  notes: number; // Notes whose tags changed
+  savedSearches: number; // Saved searches whose tag filter changed
+  conflicts: number; // Notes edited while the rewrite ran that keep their tags, retrying picks them up
+}
+
+export interface TagUpdateResult {
+  tag: WorkspaceTag;
+  conflicts: number; // Notes a rename could not rewrite, the old tag stays for them
+}
+
+// Tag suggestions
+// ------------------------------------------------------------
+export interface TagSuggestion {
+  tag: string;
+  score: number; // Share of the neighbours' similarity carried by notes with this tag, 0 to 1
+  noteCount: number; // Neighbours with this tag
+}
+
+export interface TagSuggestionsResult {
+  suggestions: TagSuggestion[];
+  embeddingStatus: EmbeddingStatus; // Of the note, nothing is suggested before its first vector
+}
+
+// Near-duplicate tags
+// ------------------------------------------------------------
+export interface TagUsage {
+  tag: string;
+  count: number; // Live notes carrying the tag
+}
+
+export type TagMatchType = 'string' | 'semantic';
+
+export interface TagMatch {
+  tags: [string, string];
+  similarity: number;
+  matchedBy: TagMatchType;
+}
+
+// Tags linked by matches, directly or through each other
+export interface TagDuplicateGroup {
+  tags: TagUsage[]; // Most used first
+  suggestedTag: string; // Merge target, the most used spelling
+  matches: TagMatch[];
+}
+
+export interface TagDuplicatesReport {
+  groups: TagDuplicateGroup[];
+  semantic: boolean; // False when tags could not be embedded and only spelling was compared
+}
+
+// Zod Schemas
+// ------------------------------------------------------------
+export const suggestedTagsQuerySchema = z.object({
+  limit: z.coerce
+    .number({ error: 'limit must be a positive integer' })
+    .int('limit must be a positive integer')
+    .min(1, 'limit must be a positive integer')
+    .max(50, 'limit must be at most 50')
+    .optional()
+    .default(TAG_SUGGESTION_DEFAULT_LIMIT),
+});
+
+export const mergeTagsSchema = z
+  .object({
+    tags: z.array(z.string().trim().min(1, 'Tags must not be empty')).min(1, 'tags must name at least one tag'),
+    into: z.string().trim().min(1, 'into is required'),
+  })
+  .strict();
+
+export const updateTagSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name must not be empty').optional(),
+    color: z
+      .string()
+      .regex(/^#[0-9a-fA-F]{6}$/, 'color must be a hex color like #1a2b3c')
+      .nullable()
+      .optional(),
+    description: z.string().max(500, 'description must be at most 500 characters').optional(),
+  })
+  .strict()
+  .refine(update => Object.keys(update).length > 0, { error: 'Nothing to update' });
+
+// Request types
+// ------------------------------------------------------------
+export type MergeTagsRequest = z.infer<typeof mergeTagsSchema>;
+export type UpdateTagRequest = z.infer<typeof updateTagSchema>;
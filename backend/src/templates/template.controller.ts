@@ -0,0 +1,198 @@
+import { Request, Response } from 'express';
+
+import { templateService } from './template.service';
+import { CreateNoteFromTemplateRequest, TemplateMigrationRequest, getTemplatesQuerySchema } from './template.types';
+
+export class TemplateController {
+  async getTemplates(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const queryResult = getTemplatesQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        res.status(400).json({ error: 'workspaceId is required' });
+        return;
+      }
+
+      const templates = await templateService.getTemplates(user._id, queryResult.data.workspaceId);
+
+      // Exclude vectorData from response
+      const templatesWithoutVectorData = templates.map(template => {
+        return Object.fromEntries(
+          Object.entries(template).filter(([key]) => key !== 'vectorData')
+        );
+      });
+
+      res.status(200).json({
+        message: 'Templates retrieved successfully',
+        data: { templates: templatesWithoutVectorData },
+      });
+    } catch (error) {
+      console.error('Error retrieving templates:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Workspace not found') {
+          res.status(404).json({ error: 'Workspace not found' });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retrieve templates' });
+    }
+  }
+
+  async createNoteFromTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const templateId = req.params.id;
+      const note = await templateService.createNoteFromTemplate(
+        user._id,
+        templateId,
+        req.body as CreateNoteFromTemplateRequest
+      );
+
+      res.status(201).json({
+        message: 'Note created from template successfully',
+        data: { note },
+      });
+    } catch (error) {
+      console.error('Error creating note from template:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Template not found') {
+          res.status(404).json({ error: 'Template not found' });
+          return;
+        }
+        if (error.message === 'Workspace not found') {
+          res.status(404).json({ error: 'Workspace not found' });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+        if (error.message.startsWith('Invalid note fields')) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to create note from template' });
+    }
+  }
+
+  async getTemplateVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const versions = await templateService.getTemplateVersions(user._id, req.params.id);
+
+      res.status(200).json({
+        message: 'Template versions retrieved successfully',
+        data: { versions },
+      });
+    } catch (error) {
+      console.error('Error retrieving template versions:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Template not found') {
+          res.status(404).json({ error: 'Template not found' });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retrieve template versions' });
+    }
+  }
+
+  async previewMigration(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const migrations = await templateService.previewMigration(
+        user._id,
+        req.params.id,
+        req.body as TemplateMigrationRequest
+      );
+
+      res.status(200).json({
+        message: 'Template migration previewed successfully',
+        data: { migrations },
+      });
+    } catch (error) {
+      console.error('Error previewing template migration:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Template not found') {
+          res.status(404).json({ error: 'Template not found' });
+          return;
+        }
+        if (error.message === 'Workspace not found') {
+          res.status(404).json({ error: 'Workspace not found' });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to preview template migration' });
+    }
+  }
+
+  async applyMigration(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const migrations = await templateService.applyMigration(
+        user._id,
+        req.params.id,
+        req.body as TemplateMigrationRequest
+      );
+
+      res.status(200).json({
+        message: 'Template migration applied successfully',
+        data: { migrations },
+      });
+    } catch (error) {
+      console.error('Error applying template migration:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Template not found') {
+          res.status(404).json({ error: 'Template not found' });
+          return;
+        }
+        if (error.message === 'Workspace not found') {
+          res.status(404).json({ error: 'Workspace not found' });
+          return;
+        }
+        if (error.message.includes('Access denied')) {
+          res.status(403).json({ error: error.message });
+          return;
+        }
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to apply template migration' });
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { Field, fieldSchema } from '../notes/notes.types';
+import { FieldMigrationChanges } from './template.types';
+
+// Keys holding the value a user entered, as opposed to the field's definition
+const VALUE_KEYS = ['content', 'userId', 'userName', 'imagePath', 'caption'] as const;
+
+function fieldName(field: Field): string {
+  return field.label ?? field._id;
+}
+
+function withNoteValues(templateField: Field, noteField: Field): Field | null {
+  const merged: Record<string, unknown> = { ...templateField };
+  const noteValues = noteField as Record<string, unknown>;
+  for (const key of VALUE_KEYS) {
+    if (key in noteValues) {
+      merged[key] = noteValues[key];
+    }
+  }
+  merged._id = templateField._id;
+
+  const result = fieldSchema.safeParse(merged);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Rebuilds a derived note's fields against the newest template fields.
+ * - Template fields keep the note's values when the type is unchanged, while
+ *   label, options and other definition keys are taken from the template.
+ * - Template fields the note does not have yet are added with the template defaults.
+ * - Fields that belonged to the note's template version but were dropped from the
+ *   template are removed; fields the user added on their own are kept.
+ * `previousTemplateFields` is null when no snapshot of the note's version exists,
+ * in which case nothing is removed.
+ */
+export function migrateNoteFields(
+  previousTemplateFields: Field[] | null,
+  templateFields: Field[],
+  noteFields: Field[],
+  renamed: Record<string, string> = {}
+): { fields: Field[]; changes: FieldMigrationChanges } {
+  const changes: FieldMigrationChanges = { added: [], removed: [], renamed: [], relabeled: [], reset: [] };
+  const previousIds = new Set((previousTemplateFields ?? []).map(field => field._id));
+  const noteFieldsByTemplateId = new Map<string, Field>();
+  const ownFields: Field[] = [];
+
+  for (const noteField of noteFields) {
+    const targetId = renamed[noteField._id] ?? noteField._id;
+    if (templateFields.some(field => field._id === targetId) && !noteFieldsByTemplateId.has(targetId)) {
+      noteFieldsByTemplateId.set(targetId, noteField);
+    } else if (previousIds.has(noteField._id) || noteField._id in renamed) {
+      changes.removed.push(fieldName(noteField));
+    } else {
+      ownFields.push(noteField);
+    }
+  }
+
+  const fields: Field[] = templateFields.map(templateField => {
+    const noteField = noteFieldsByTemplateId.get(templateField._id);
+    if (!noteField) {
+      changes.added.push(fieldName(templateField));
+      return templateField;
+    }
+
+    if (noteField._id !== templateField._id) {
+      changes.renamed.push(`${fieldName(noteField)} -> ${fieldName(templateField)}`);
+    } else if (noteField.label !== templateField.label) {
+      changes.relabeled.push(`${fieldName(noteField)} -> ${fieldName(templateField)}`);
+    }
+
+    const merged = noteField.fieldType === templateField.fieldType ? withNoteValues(templateField, noteField) : null;
+    if (!merged) {
+      changes.reset.push(fieldName(templateField));
+      return templateField;
+    }
+    return merged;
+  });
+
+  return { fields: [...fields, ...ownFields], changes };
+}
+
+export function hasMigrationChanges(changes: FieldMigrationChanges): boolean {
+  return Object.values(changes).some(list => list.length > 0);
+}
@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Snapshot of a TEMPLATE note's fields and tags at a given version
+export interface ITemplateVersionDocument extends Document {
+  _id: mongoose.Types.ObjectId;
+  templateId: string;
+  version: number;
+  fields: unknown[];
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const templateVersionSchema = new Schema<ITemplateVersionDocument>(
+  {
+    templateId: {
+      type: String,
+      required: true,
+      index: true
+    },
+    version: {
+      type: Number,
+      required: true
+    },
+    fields: [{ type: Schema.Types.Mixed }],
+    tags: [{ type: String }],
+  },
+  {
+    timestamps: true
+  }
+);
+
+templateVersionSchema.index({ templateId: 1, version: -1 }, { unique: true });
+
+export const templateVersionModel = mongoose.model<ITemplateVersionDocument>('TemplateVersion', templateVersionSchema);
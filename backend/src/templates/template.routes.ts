@@ -0,0 +1,55 @@
+import { Router } from 'express';
+
+import { authenticateToken } from '../authentication/auth.middleware';
+import { TemplateController } from './template.controller';
+import {
+  CreateNoteFromTemplateRequest,
+  TemplateMigrationRequest,
+  createNoteFromTemplateSchema,
+  templateMigrationSchema,
+} from './template.types';
+import { validateBody } from '../middleware/validation.middleware';
+import { asyncHandler } from '../utils/asyncHandler.util';
+
+const router = Router();
+const templateController = new TemplateController();
+
+// List the templates of a workspace
+router.get(
+  '/',
+  asyncHandler(authenticateToken),
+  asyncHandler(templateController.getTemplates.bind(templateController))
+);
+
+// Create a note from a template
+router.post(
+  '/:id/notes',
+  asyncHandler(authenticateToken),
+  validateBody<CreateNoteFromTemplateRequest>(createNoteFromTemplateSchema),
+  asyncHandler(templateController.createNoteFromTemplate.bind(templateController))
+);
+
+// Version history of a template
+router.get(
+  '/:id/versions',
+  asyncHandler(authenticateToken),
+  asyncHandler(templateController.getTemplateVersions.bind(templateController))
+);
+
+// Preview migrating derived notes to the newest template version
+router.post(
+  '/:id/migration/preview',
+  asyncHandler(authenticateToken),
+  validateBody<TemplateMigrationRequest>(templateMigrationSchema),
+  asyncHandler(templateController.previewMigration.bind(templateController))
+);
+
+// Migrate derived notes to the newest template version
+router.post(
+  '/:id/migration',
+  asyncHandler(authenticateToken),
+  validateBody<TemplateMigrationRequest>(templateMigrationSchema),
+  asyncHandler(templateController.applyMigration.bind(templateController))
+);
+
+export default router;
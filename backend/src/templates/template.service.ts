@@ -0,0 +1,184 @@
+import mongoose from 'mongoose';
+
+import { Field, Note, NoteType } from '../notes/notes.types';
+import { INoteDocument, noteModel } from '../notes/note.model';
+import { noteService } from '../notes/notes.service';
+import { workspaceModel } from '../workspaces/workspace.model';
+import { WorkspaceAction, assertAllowed } from '../authorization/authorization.policy';
+import { templateVersionModel } from './template.model';
+import { CreateNoteFromTemplateRequest, NoteMigration, TemplateMigrationRequest, TemplateVersion } from './template.types';
+import { getTemplateFieldIssues } from './template.validation';
+import { hasMigrationChanges, migrateNoteFields } from './template.migration';
+
+export class TemplateService {
+    private async assertWorkspaceAccess(
+        workspaceId: string,
+        userId: mongoose.Types.ObjectId,
+        ...actions: WorkspaceAction[]
+    ): Promise<void> {
+        const workspace = await workspaceModel.findById(workspaceId);
+        if (!workspace || workspace.deletedAt) {
+            throw new Error('Workspace not found');
+        }
+        assertAllowed(workspace, userId, ...actions);
+    }
+
+    private async getTemplateForMember(
+        templateId: string,
+        userId: mongoose.Types.ObjectId,
+        ...actions: WorkspaceAction[]
+    ): Promise<INoteDocument> {
+        const template = await noteModel.findById(templateId);
+        if (!template || template.deletedAt || template.noteType !== NoteType.TEMPLATE) {
+            throw new Error('Template not found');
+        }
+
+        await this.assertWorkspaceAccess(template.workspaceId, userId, ...actions);
+        return template;
+    }
+
+    // List the templates stored in a workspace, most recently edited first
+    async getTemplates(userId: mongoose.Types.ObjectId, workspaceId: string): Promise<Note[]> {
+        await this.assertWorkspaceAccess(workspaceId, userId, 'view');
+
+        const templates = await noteModel
+            .find({ workspaceId, noteType: NoteType.TEMPLATE, deletedAt: null })
+            .sort({ updatedAt: -1 });
+
+        return templates.map(template => ({
+            ...template.toObject(),
+            _id: template._id.toString(),
+            userId: template.userId.toString(),
+        } as Note));
+    }
+
+    // Create a CONTENT note from a template, linking it back to the template version it was made from
+    async createNoteFromTemplate(
+        userId: mongoose.Types.ObjectId,
+        templateId: string,
+        data: CreateNoteFromTemplateRequest
+    ): Promise<Note> {
+        // The user must be able to see the template and write to the target workspace
+        const template = await this.getTemplateForMember(templateId, userId, 'view');
+        const workspaceId = data.workspaceId ?? template.workspaceId;
+        await this.assertWorkspaceAccess(workspaceId, userId, 'edit');
+
+        const templateFields = template.fields as Field[];
+        const fields = data.fields ?? templateFields;
+
+        const issues = getTemplateFieldIssues(templateFields, fields);
+        if (issues.length > 0) {
+            throw new Error(`Invalid note fields: ${issues.join('; ')}`);
+        }
+
+        return noteService.createNote(
+            userId,
+            {
+                workspaceId,
+                noteType: NoteType.CONTENT,
+                tags: data.tags ?? template.tags,
+                fields,
+            },
+            { templateId: template._id.toString(), templateVersion: template.version }
+        );
+    }
+
+    // Version history of a template, newest first
+    async getTemplateVersions(userId: mongoose.Types.ObjectId, templateId: string): Promise<TemplateVersion[]> {
+        await this.getTemplateForMember(templateId, userId, 'view');
+
+        const versions = await templateVersionModel.find({ templateId }).sort({ version: -1 });
+
+        return versions.map(version => ({
+            _id: version._id.toString(),
+            templateId: version.templateId,
+            version: version.version,
+            fields: version.fields as Field[],
+            tags: version.tags,
+            createdAt: version.createdAt,
+        }));
+    }
+
+    // Compute, without saving, how each outdated derived note would change. `actions` are what the
+    // user's role must allow in the template's workspace and in the one holding the derived notes.
+    private async planMigration(
+        userId: mongoose.Types.ObjectId,
+        templateId: string,
+        data: TemplateMigrationRequest,
+        actions: WorkspaceAction[]
+    ): Promise<{ template: INoteDocument; plans: (NoteMigration & { note: INoteDocument; fields: Field[] })[] }> {
+        const template = await this.getTemplateForMember(templateId, userId, ...actions);
+        const workspaceId = data.workspaceId ?? template.workspaceId;
+        if (workspaceId !== template.workspaceId) {
+            await this.assertWorkspaceAccess(workspaceId, userId, ...actions);
+        }
+
+        const notes = await noteModel.find({
+            templateId,
+            workspaceId,
+            deletedAt: null,
+            $or: [{ templateVersion: { $lt: template.version } }, { templateVersion: { $exists: false } }],
+        });
+
+        const snapshots = await templateVersionModel.find({ templateId });
+        const snapshotFields = new Map(snapshots.map(snapshot => [snapshot.version, snapshot.fields as Field[]]));
+
+        const plans = notes.map(note => {
+            const fromVersion = note.templateVersion ?? null;
+            const previousFields = fromVersion === null ? null : snapshotFields.get(fromVersion) ?? null;
+            const { fields, changes } = migrateNoteFields(
+                previousFields,
+                template.fields as Field[],
+                note.fields as Field[],
+                data.renamed
+            );
+            return { note, fields, noteId: note._id.toString(), fromVersion, toVersion: template.version, changes };
+        });
+
+        return { template, plans };
+    }
+
+    async previewMigration(
+        userId: mongoose.Types.ObjectId,
+        templateId: string,
+        data: TemplateMigrationRequest
+    ): Promise<NoteMigration[]> {
+        const { plans } = await this.planMigration(userId, templateId, data, ['view']);
+        return plans.map(({ noteId, fromVersion, toVersion, changes }) => ({ noteId, fromVersion, toVersion, changes }));
+    }
+
+    // Move every outdated derived note to the newest template version, regenerating vectors
+    async applyMigration(
+        userId: mongoose.Types.ObjectId,
+        templateId: string,
+        data: TemplateMigrationRequest
+    ): Promise<NoteMigration[]> {
+        // Derived notes usually have other authors
+        const { template, plans } = await this.planMigration(userId, templateId, data, ['manageTemplates', 'editOthers']);
+        const results: NoteMigration[] = [];
+
+        for (const { note, fields, noteId, fromVersion, toVersion, changes } of plans) {
+            try {
+                if (hasMigrationChanges(changes)) {
+                    // Checked against the newest version and moved to it in the same write
+                    await noteService.updateNote(noteId, { tags: note.tags, fields }, userId, undefined, template.version);
+                } else {
+                    await noteModel.updateOne({ _id: note._id }, { templateVersion: template.version });
+                }
+                results.push({ noteId, fromVersion, toVersion, changes });
+            } catch (error) {
+                results.push({
+                    noteId,
+                    fromVersion,
+                    toVersion,
+                    changes,
+                    error: error instanceof Error ? error.message : 'Failed to migrate note',
+                });
+            }
+        }
+
+        return results;
+    }
+}
+
+export const templateService = new TemplateService();
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+import { Field, noteFieldsSchema } from '../notes/notes.types';
+
+// Template version history
+// ------------------------------------------------------------
+export interface TemplateVersion {
+  _id: string;
+  templateId: string;
+  version: number;
+  fields: Field[];
+  tags: string[];
+  createdAt: Date;
+}
+
+// Request types
+// ------------------------------------------------------------
+export interface CreateNoteFromTemplateRequest {
+  workspaceId?: string; // Defaults to the template's workspace
+  tags?: string[]; // Defaults to the template's tags
+  fields?: Field[]; // Defaults to the template's fields
+}
+
+// Field mapping rules for migrating derived notes to the newest template version.
+// Fields are matched by _id; `renamed` maps an old template field _id to the
+// _id of the field that replaces it, so the note's value is carried over.
+export interface TemplateMigrationRequest {
+  workspaceId?: string; // Defaults to the template's workspace
+  renamed?: Record<string, string>;
+}
+
+// Migration results
+// ------------------------------------------------------------
+export interface FieldMigrationChanges {
+  added: string[];
+  removed: string[];
+  renamed: string[];
+  relabeled: string[];
+  reset: string[]; // Value could not be kept (type changed or no longer valid)
+}
+
+export interface NoteMigration {
+  noteId: string;
+  fromVersion: number | null;
+  toVersion: number;
+  changes: FieldMigrationChanges;
+  error?: string;
+}
+
+// Zod Schemas
+// ------------------------------------------------------------
+export const getTemplatesQuerySchema = z.object({
+  workspaceId: z.string().min(1, 'workspaceId is required'),
+});
+
+export const createNoteFromTemplateSchema = z.object({
+  workspaceId: z.string().min(1).optional(),
+  tags: z.array(z.string()).optional(),
+  fields: noteFieldsSchema.optional(),
+}).strict();
+
+export const templateMigrationSchema = z.object({
+  workspaceId: z.string().min(1).optional(),
+  renamed: z.record(z.string(), z.string().min(1)).optional(),
+}).strict();
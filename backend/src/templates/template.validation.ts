@@ -0,0 +1,40 @@
+import { Field } from '../notes/notes.types';
+
+/**
+ * Compares a note's fields against the fields of the template it was created from.
+ * Fields are matched by _id. Returns a human readable issue per violation:
+ * a required template field that is missing or has changed type, or a select
+ * value that is not one of the template's options.
+ */
+export function getTemplateFieldIssues(templateFields: Field[], noteFields: Field[]): string[] {
+  const issues: string[] = [];
+  const noteFieldsById = new Map(noteFields.map(field => [field._id, field]));
+
+  for (const templateField of templateFields) {
+    const name = templateField.label ?? templateField._id;
+    const noteField = noteFieldsById.get(templateField._id);
+
+    if (!noteField) {
+      if (templateField.required === true) {
+        issues.push(`required template field "${name}" is missing`);
+      }
+      continue;
+    }
+
+    if (noteField.fieldType !== templateField.fieldType) {
+      if (templateField.required === true) {
+        issues.push(`required template field "${name}" must be a ${templateField.fieldType} field`);
+      }
+      continue;
+    }
+
+    if (noteField.fieldType === 'select' && templateField.fieldType === 'select') {
+      const outsideTemplate = (noteField.content ?? []).filter(value => !templateField.options.includes(value));
+      if (outsideTemplate.length > 0) {
+        issues.push(`field "${name}" has values that are not template options: ${outsideTemplate.join(', ')}`);
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+
+import { noteModel } from '../notes/note.model';
+import { noteRevisionModel } from '../notes/noteRevision.model';
+import { messageModel } from '../messages/message.model';
+import { templateVersionModel } from '../templates/template.model';
+import { workspaceModel } from '../workspaces/workspace.model';
+import { vectorIndexService } from '../search/vectorIndex.service';
+import { savedSearchModel } from '../savedSearches/savedSearch.model';
+import { tagModel } from '../tags/tag.model';
+import { embeddingJobModel } from '../embeddings/embeddingJob.model';
+import { DEFAULT_TRASH_RETENTION_DAYS, TRASH_PURGE_INTERVAL_MS } from '../utils/constants';
+import logger from '../utils/logger.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashPurgeResult {
+  notes: number;
+  workspaces: number;
+}
+
+export function getTrashRetentionDays(): number {
+  const configured = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Deletes workspaces for good with everything hanging off them: their notes with the
+ * notes' revisions, template versions and queued embedding jobs, messages, saved
+ * searches, tags and vector indexes. Whether they were in the trash does not matter.
+ */
+export async function purgeWorkspaces(workspaceIds: string[]): Promise<void> {
+  if (workspaceIds.length === 0) {
+    return;
+  }
+
+  const objectIds = workspaceIds.map(workspaceId => new mongoose.Types.ObjectId(workspaceId));
+  const noteIds = (await noteModel.find({ workspaceId: { $in: workspaceIds } }).select('_id')).map(note => note._id.toString());
+  await templateVersionModel.deleteMany({ templateId: { $in: noteIds } });
+  await embeddingJobModel.deleteMany({ noteId: { $in: noteIds } });
+  await noteRevisionModel.deleteMany({ workspaceId: { $in: workspaceIds } });
+  await noteModel.deleteMany({ workspaceId: { $in: workspaceIds } });
+  await messageModel.deleteMany({ workspaceId: { $in: objectIds } });
+  await savedSearchModel.deleteMany({ workspaceId: { $in: workspaceIds } });
+  await tagModel.deleteMany({ workspaceId: { $in: workspaceIds } });
+  await workspaceModel.deleteMany({ _id: { $in: objectIds } });
+  workspaceIds.forEach(workspaceId => vectorIndexService.dropWorkspace(workspaceId));
+}
+
+/**
+ * Permanently removes notes and workspaces that have been in the trash for
+ * longer than the retention period, together with everything hanging off them
+ * (revisions, template versions, and for workspaces their notes and messages).
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<TrashPurgeResult> {
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+
+  const workspaces = await workspaceModel.find({ deletedAt: { $ne: null, $lte: cutoff } }).select('_id');
+  const workspaceIds = workspaces.map(workspace => workspace._id.toString());
+  await purgeWorkspaces(workspaceIds);
+
+  const notes = await noteModel.find({ deletedAt: { $ne: null, $lte: cutoff } }).select('_id');
+  const noteIds = notes.map(note => note._id.toString());
+  if (noteIds.length > 0) {
+    await templateVersionModel.deleteMany({ templateId: { $in: noteIds } });
+    await embeddingJobModel.deleteMany({ noteId: { $in: noteIds } });
+    await noteRevisionModel.deleteMany({ noteId: { $in: noteIds } });
+    await noteModel.deleteMany({ _id: { $in: notes.map(note => note._id) } });
+  }
+
+  return { notes: noteIds.length, workspaces: workspaceIds.length };
+}
+
+// Runs the purge periodically for the lifetime of the server process
+export function startTrashPurge(): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    purgeExpiredTrash()
+      .then(result => {
+        if (result.notes > 0 || result.workspaces > 0) {
+          logger.info(`Purged ${result.notes} note(s) and ${result.workspaces} workspace(s) from the trash`);
+        }
+      })
+      .catch((error: unknown) => {
+        logger.error('Trash purge failed:', error);
+      });
+  }, TRASH_PURGE_INTERVAL_MS);
+
+  // Never keep the process alive just for the purge
+  timer.unref();
+  return timer;
+}
@@ -1,12 +1,15 @@
 import { NextFunction, Request, Response } from 'express';
 import mongoose from 'mongoose';
 
-import { GetProfileResponse, UpdateProfileRequest, updateFcmTokenSchema } from './user.types';
+import { GetProfileResponse, UpdateProfileRequest, deleteProfileQuerySchema, updateFcmTokenSchema } from './user.types';
 import logger from '../utils/logger.util';
 import { mediaService } from '../media/media.service';
 import { userModel } from './user.model';
 import { workspaceModel } from '../workspaces/workspace.model';
+import { workspaceService } from '../workspaces/workspace.service';
 import { noteModel } from '../notes/note.model';
+import { savedSearchModel } from '../savedSearches/savedSearch.model';
+import { purgeWorkspaces } from '../trash/trash.purge';
 
 export class UserController {
   getProfile(req: Request, res: Response<GetProfileResponse>) {
@@ -65,27 +68,51 @@ export class UserController {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
+      const query = deleteProfileQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.issues[0].message });
+      }
+
       const ownedWorkspaces = await workspaceModel.find({ ownerId: user._id });
+      const transferredWorkspaces: { workspaceId: string; ownerId: string }[] = [];
 
       for (const workspace of ownedWorkspaces) {
-        await noteModel.deleteMany({ workspaceId: workspace._id.toString() });
-        await workspaceModel.findByIdAndDelete(workspace._id);
+        // Live shared workspaces outlive their owner, the personal one and those in the trash do not
+        const canTransfer = query.data.transferWorkspaces
+          && !workspace.deletedAt
+          && workspace._id.toString() !== user.personalWorkspaceId?.toString();
+        const newOwnerId = canTransfer ? await workspaceService.transferToLongestStandingMember(workspace) : null;
+        if (newOwnerId) {
+          transferredWorkspaces.push({ workspaceId: workspace._id.toString(), ownerId: newOwnerId });
+          logger.info(`Transferred workspace ${workspace._id.toString()} to user: ${newOwnerId}`);
+          continue;
+        }
+
+        await purgeWorkspaces([workspace._id.toString()]);
         logger.info(`Deleted workspace ${workspace._id.toString()} for user: ${user._id.toString()}`);
       }
 
       await workspaceModel.updateMany(
         { members: user._id },
-        { $pull: { members: user._id } }
+        { $pull: { members: user._id }, $unset: { [`roles.${user._id.toString()}`]: '' } }
       );
       logger.info(`Removed user ${user._id.toString()} from all member workspaces`);
 
-      await mediaService.deleteAllUserImages(user._id.toString());
+      await savedSearchModel.deleteMany({ userId: user._id });
+
+      // Notes and workspaces that outlive the account, handed over or written as a member, keep their images
+      const ownImages = { $regex: `(^|/)${user._id.toString()}-` };
+      const referencedImages = [
+        ...(await noteModel.distinct('fields.imagePath', { 'fields.imagePath': ownImages })),
+        ...(await workspaceModel.distinct('profile.imagePath', { 'profile.imagePath': ownImages })),
+      ] as string[];
+      await mediaService.deleteAllUserImages(user._id.toString(), referencedImages);
 
       await userModel.delete(user._id);
 
       res.status(200).json({
         message: 'User deleted successfully',
-        data: {},
+        data: { transferredWorkspaces },
       });
     } catch (error) {
       logger.error('Failed to delete user:', error);
@@ -42,6 +42,14 @@ export const updateFcmTokenSchema = z.object({
   fcmToken: z.string().min(1),
 });
 
+// Shared workspaces go to their longest-standing member unless the user asks for them to be deleted
+export const deleteProfileQuerySchema = z.object({
+  transferWorkspaces: z
+    .enum(['true', 'false'], { error: 'transferWorkspaces must be true or false' })
+    .optional()
+    .transform(transfer => transfer !== 'false'),
+});
+
 // Request types
 // ------------------------------------------------------------
 export interface GetProfileResponse {
@@ -7,5 +7,52 @@ export const UPLOADS_DIR = path.resolve(process.cwd(), 'uploads');
 // File size limits
 export const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 
+// Note revisions kept per workspace unless the owner sets another limit
+export const DEFAULT_WORKSPACE_REVISION_LIMIT = 500;
+
+// Trashed notes and workspaces are purged after this many days (TRASH_RETENTION_DAYS overrides)
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+// Hybrid search: page size when no limit is given, and how many hits each ranking contributes to the fusion
+export const HYBRID_SEARCH_DEFAULT_LIMIT = 20;
+export const HYBRID_SEARCH_CANDIDATES = 200;
+
+// Related notes returned when no limit is given
+export const RELATED_NOTES_DEFAULT_LIMIT = 10;
+
+// Tag suggestions: how many suggestions by default, out of the tags of how many nearest tagged notes
+export const TAG_SUGGESTION_DEFAULT_LIMIT = 5;
+export const TAG_SUGGESTION_NEIGHBOURS = 20;
+
+// Near-duplicate tags: similarity of spelling and of meaning (embeddings) that links two tags,
+// and how many of the most used tags are compared
+export const TAG_DUPLICATE_STRING_SIMILARITY = 0.8;
+export const TAG_DUPLICATE_SEMANTIC_SIMILARITY = 0.85;
+export const TAG_DUPLICATES_MAX_TAGS = 500;
+
+// Similarity a new note needs before a saved search notifies its owner
+export const DEFAULT_SAVED_SEARCH_MIN_SCORE = 0.5;
+
+// Embedding jobs: polling interval, retries with exponential backoff, and when a claimed job counts as abandoned
+export const EMBEDDING_WORKER_INTERVAL_MS = 5 * 1000; // 5 seconds
+export const EMBEDDING_JOB_MAX_ATTEMPTS = 5;
+export const EMBEDDING_JOB_BACKOFF_MS = 10 * 1000; // doubled after every failed attempt
+export const EMBEDDING_JOB_MAX_BACKOFF_MS = 60 * 60 * 1000; // 1 hour
+export const EMBEDDING_JOB_LOCK_MS = 5 * 60 * 1000; // 5 minutes
+
+// Embedding cache: vectors kept in memory per normalized input and model, least recently used go first
+export const EMBEDDING_CACHE_MAX_ENTRIES = 1000;
+export const EMBEDDING_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+// Note imports: size of each uploaded file, of the whole upload, files per upload and notes per upload
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_IMPORT_UPLOAD_SIZE = 20 * 1024 * 1024; // 20MB
+export const MAX_IMPORT_FILES = 20;
+export const MAX_IMPORT_NOTES = 5000;
+
+// Notes one POST /notes/bulk request may name
+export const MAX_BULK_NOTES = 100;
+
 // Other constants can be added here as needed
 
@@ -1,10 +1,10 @@
-import { Express, Request } from 'express';
+import { Express, Request, RequestHandler } from 'express';
 import crypto from 'crypto';
 import fs from 'fs';
 import multer from 'multer';
 import path from 'path';
 
-import { IMAGES_DIR, MAX_FILE_SIZE } from './constants';
+import { IMAGES_DIR, MAX_FILE_SIZE, MAX_IMPORT_FILE_SIZE, MAX_IMPORT_FILES } from './constants';
 
 // Initialize images directory with safe fs operations
 function initializeImagesDir(dirPath: string): void {
@@ -48,3 +48,26 @@ export const upload = multer({
   },
 });
 
+// Note imports are parsed straight from memory, nothing is written to disk
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_FILE_SIZE,
+    files: MAX_IMPORT_FILES,
+  },
+});
+
+// Refuses an upload whose declared size is over `maxBytes` before any of it is read. The declared
+// length is required, Node never hands a request handler more body than it announced.
+export const limitUploadSize = (maxBytes: number): RequestHandler => (req, res, next) => {
+  const declared = req.headers['content-length'];
+  if (declared === undefined) {
+    res.status(411).json({ error: 'Content-Length is required' });
+    return;
+  }
+  if (Number(declared) > maxBytes) {
+    res.status(413).json({ error: `Uploads are limited to ${maxBytes / (1024 * 1024)}MB` });
+    return;
+  }
+  next();
+};
@@ -1,6 +1,17 @@
 import { Request, Response } from 'express';
 import { workspaceService } from './workspace.service';
-import { CreateWorkspaceRequest, UpdateWorkspaceProfileRequest, UpdateWorkspacePictureRequest } from './workspace.types';
+import { tagService } from '../tags/tag.service';
+import { MergeTagsRequest, UpdateTagRequest } from '../tags/tag.types';
+import { exportFormatQuerySchema } from '../export/export.types';
+import { exportService } from '../export/export.service';
+import {
+    CreateWorkspaceRequest,
+    TransferOwnershipRequest,
+    UpdateMemberRoleRequest,
+    UpdateWorkspaceProfileRequest,
+    UpdateWorkspacePictureRequest,
+    memberRoleSchema,
+} from './workspace.types';
 
 export class WorkspaceController {
     async createWorkspace(req: Request, res: Response): Promise<void> {
@@ -193,16 +204,216 @@ export class WorkspaceController {
         }
     }
 
+    async getDuplicateTags(req: Request, res: Response): Promise<void> {
+        try {
+            const user = req.user;
+            if (!user) {
+                res.status(401).json({ error: 'User not authenticated' });
+                return;
+            }
+
+            const report = await tagService.findDuplicateTags(req.params.id, user._id);
+
+            res.status(200).json({
+                message: 'Duplicate tags retrieved successfully',
+                data: report,
+            });
+        } catch (error) {
+            console.error('Error retrieving duplicate tags:', error);
+
+            if (error instanceof Error) {
+                if (error.message.includes('Access denied')) {
+                    res.status(403).json({ error: error.message });
+                    return;
+                }
+                if (error.message === 'Workspace not found') {
+                    res.status(404).json({ error: 'Workspace not found' });
+                    return;
+                }
+            }
+
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retrieve duplicate tags' });
+        }
+    }
+
+    async mergeTags(req: Request, res: Response): Promise<void> {
+        try {
+            const user = req.user;
+            if (!user) {
+                res.status(401).json({ error: 'User not authenticated' });
+                return;
+            }
+
+            const { tags, into } = req.body as MergeTagsRequest;
+            const result = await tagService.mergeTags(req.params.id, user._id, tags, into);
+
+            res.status(200).json({
+                message: 'Tags merged successfully',
+                data: result,
+            });
+        } catch (error) {
+            console.error('Error merging tags:', error);
+
+            if (error instanceof Error) {
+                if (error.message.includes('Access denied')) {
+                    res.status(403).json({ error: error.message });
+                    return;
+                }
+                if (error.message === 'Workspace not found') {
+                    res.status(404).json({ error: 'Workspace not found' });
+                    return;
+                }
+            }
+
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to merge tags' });
+        }
+    }
+
+    async getTagDetails(req: Request, res: Response): Promise<void> {
+        try {
+            const user = req.user;
+            if (!user) {
+                res.status(401).json({ error: 'User not authenticated' });
+                return;
+            }
+
+            const tags = await tagService.getTags(req.params.id, user._id);
+
+            res.status(200).json({
+                message: 'Tags retrieved successfully',
+                data: { tags },
+            });
+        } catch (error) {
+            console.error('Error retrieving tags:', error);
+
+            if (error instanceof Error) {
+                if (error.message.includes('Access denied')) {
+                    res.status(403).json({ error: error.message });
+                    return;
+                }
+                if (error.message === 'Workspace not found') {
+                    res.status(404).json({ error: 'Workspace not found' });
+                    return;
+                }
+            }
+
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retrieve tags' });
+        }
+    }
+
+    async updateTag(req: Request, res: Response): Promise<void> {
+        try {
+            const user = req.user;
+            if (!user) {
+                res.status(401).json({ error: 'User not authenticated' });
+                return;
+            }
+
+            const result = await tagService.updateTag(req.params.id, user._id, req.params.tag, req.body as UpdateTagRequest);
+
+            res.status(200).json({
+                message: 'Tag updated successfully',
+                data: result,
+            });
+        } catch (error) {
+            console.error('Error updating tag:', error);
+
+            if (error instanceof Error) {
+                if (error.message.includes('Access denied')) {
+                    res.status(403).json({ error: error.message });
+                    return;
+                }
+                if (error.message === 'Workspace not found' || error.message === 'Tag not found') {
+                    res.status(404).json({ error: error.message });
+                    return;
+                }
+                if (error.message.includes('already in use')) {
+                    res.status(409).json({ error: error.message });
+                    return;
+                }
+            }
+
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update tag' });
+        }
+    }
+
+    async deleteTag(req: Request, res: Response): Promise<void> {
+        try {
+            const user = req.user;
+            if (!user) {
+                res.status(401).json({ error: 'User not authenticated' });
+                return;
+            }
+
+            const result = await tagService.deleteTag(req.params.id, user._id, req.params.tag);
+
+            res.status(200).json({
+                message: 'Tag deleted successfully',
+                data: result,
+            });
+        } catch (error) {
+            console.error('Error deleting tag:', error);
+
+            if (error instanceof Error) {
+                if (error.message.includes('Access denied')) {
+                    res.status(403).json({ error: error.message });
+                    return;
+                }
+                if (error.message === 'Workspace not found' || error.message === 'Tag not found') {
+                    res.status(404).json({ error: error.message });
+                    return;
+                }
+            }
+
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to delete tag' });
+        }
+    }
+
+    async exportWorkspace(req: Request, res: Response): Promise<void> {
+        try {
+            const user = req.user;
+            if (!user) {
+                res.status(401).json({ error: 'User not authenticated' });
+                return;
+            }
+
+            const formatResult = exportFormatQuerySchema.safeParse(req.query);
+            if (!formatResult.success) {
+                res.status(400).json({ error: formatResult.error.issues[0].message });
+                return;
+            }
+
+            const file = await exportService.exportWorkspace(req.params.id, user._id, formatResult.data.format);
+
+            res.status(200).attachment(file.filename).type(file.contentType).send(file.body);
+        } catch (error) {
+            console.error('Error exporting workspace:', error);
+
+            if (error instanceof Error) {
+                if (error.message.includes('Access denied')) {
+                    res.status(403).json({ error: error.message });
+                    return;
+                }
+                if (error.message === 'Workspace not found') {
+                    res.status(404).json({ error: 'Workspace not found' });
+                    return;
+                }
+            }
+
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to export workspace' });
+        }
+    }
+
     async getMembershipStatus(req: Request, res: Response): Promise<void> {
         try {
             const workspaceId = req.params.id;
             const checkUserId = req.params.userId;
 
-            const status = await workspaceService.getMembershipStatus(workspaceId, checkUserId);
+            const { status, role } = await workspaceService.getMembershipStatus(workspaceId, checkUserId);
 
             res.status(200).json({
                 message: 'Membership status retrieved successfully',
-                data: { status },
+                data: { status, role },
             });
         } catch (error) {
             console.error('Error retrieving membership status:', error);
@@ -227,14 +438,20 @@ export class WorkspaceController {
             const requestingUserId = user._id;
 
             const workspaceId = req.params.id;
-            const { userId } = req.body as { userId?: string };
+            const { userId, role } = req.body as { userId?: string; role?: unknown };
 
             if (!userId) {
                 res.status(400).json({ error: 'userId is required' });
                 return;
             }
 
-            const workspace = await workspaceService.inviteMember(workspaceId, requestingUserId, userId);
+            const parsedRole = memberRoleSchema.optional().safeParse(role);
+            if (!parsedRole.success) {
+                res.status(400).json({ error: parsedRole.error.issues[0].message });
+                return;
+            }
+
+            const workspace = await workspaceService.inviteMember(workspaceId, requestingUserId, userId, parsedRole.data);
 
             res.status(200).json({
                 message: 'Member added successfully',
@@ -371,6 +588,89 @@ export class WorkspaceController {
         }
     }
 
+    async updateMemberRole(req: Request, res: Response): Promise<void> {
+        try {
+            const user = req.user;
+            if (!user) {
+                res.status(401).json({ error: 'User not authenticated' });
+                return;
+            }
+
+            const workspaceId = req.params.id;
+            const memberId = req.params.userId;
+            const { role } = req.body as UpdateMemberRoleRequest;
+
+            const membership = await workspaceService.updateMemberRole(workspaceId, user._id, memberId, role);
+
+            res.status(200).json({
+                message: 'Member role updated successfully',
+                data: { membership },
+            });
+        } catch (error) {
+            console.error('Error updating member role:', error);
+
+            if (error instanceof Error) {
+                if (error.message.includes('Only workspace owner')) {
+                    res.status(403).json({ error: error.message });
+                    return;
+                }
+                if (error.message.includes('Cannot change the role of the workspace owner')) {
+                    res.status(400).json({ error: error.message });
+                    return;
+                }
+                if (error.message === 'Member not found' || error.message === 'Workspace not found') {
+                    res.status(404).json({ error: error.message });
+                    return;
+                }
+            }
+
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update member role' });
+        }
+    }
+
+    async transferOwnership(req: Request, res: Response): Promise<void> {
+        try {
+            const user = req.user;
+            if (!user) {
+                res.status(401).json({ error: 'User not authenticated' });
+                return;
+            }
+
+            const workspaceId = req.params.id;
+            const { userId } = req.body as TransferOwnershipRequest;
+
+            const workspace = await workspaceService.transferOwnership(workspaceId, user._id, userId);
+
+            res.status(200).json({
+                message: 'Ownership transferred successfully',
+                data: { workspace },
+            });
+        } catch (error) {
+            console.error('Error transferring ownership:', error);
+
+            if (error instanceof Error) {
+                if (error.message.includes('Only workspace owner')) {
+                    res.status(403).json({ error: error.message });
+                    return;
+                }
+                if (error.message.includes('Cannot transfer your personal workspace')) {
+                    res.status(403).json({ error: error.message });
+                    return;
+                }
+                if (error.message.includes('already own this workspace')) {
+                    res.status(400).json({ error: error.message });
+                    return;
+                }
+                if (error.message === 'Member not found' || error.message === 'Workspace not found') {
+                    res.status(404).json({ error: error.message });
+                    return;
+                }
+            }
+
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to transfer ownership' });
+        }
+    }
+
     async updateWorkspaceProfile(req: Request, res: Response): Promise<void> {
         try {
             const user = req.user;
@@ -465,7 +765,7 @@ export class WorkspaceController {
             const workspace = await workspaceService.deleteWorkspace(workspaceId, requestingUserId);
 
             res.status(200).json({
-                message: 'Workspace and all its notes deleted successfully',
+                message: 'Workspace moved to trash successfully',
                 data: { workspace },
             });
         } catch (error) {
@@ -490,6 +790,58 @@ export class WorkspaceController {
         }
     }
 
+    async getTrashedWorkspaces(req: Request, res: Response): Promise<void> {
+        try {
+            const user = req.user;
+            if (!user) {
+                res.status(401).json({ error: 'User not authenticated' });
+                return;
+            }
+
+            const workspaces = await workspaceService.getTrashedWorkspaces(user._id);
+
+            res.status(200).json({
+                message: 'Trashed workspaces retrieved successfully',
+                data: { workspaces },
+            });
+        } catch (error) {
+            console.error('Error retrieving trashed workspaces:', error);
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retrieve trashed workspaces' });
+        }
+    }
+
+    async restoreWorkspace(req: Request, res: Response): Promise<void> {
+        try {
+            const user = req.user;
+            if (!user) {
+                res.status(401).json({ error: 'User not authenticated' });
+                return;
+            }
+
+            const workspace = await workspaceService.restoreWorkspace(req.params.id, user._id);
+
+            res.status(200).json({
+                message: 'Workspace restored successfully',
+                data: { workspace },
+            });
+        } catch (error) {
+            console.error('Error restoring workspace:', error);
+
+            if (error instanceof Error) {
+                if (error.message.includes('Only workspace owner')) {
+                    res.status(403).json({ error: error.message });
+                    return;
+                }
+                if (error.message === 'Workspace not found') {
+                    res.status(404).json({ error: 'Workspace not found' });
+                    return;
+                }
+            }
+
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to restore workspace' });
+        }
+    }
+
     async pollForNewMessages(req: Request, res: Response): Promise<void> {
         try {
             if (!req.user) {
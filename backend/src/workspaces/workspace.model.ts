@@ -1,5 +1,8 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+import { DEFAULT_WORKSPACE_REVISION_LIMIT } from '../utils/constants';
+import { WorkspaceRole } from './workspace.types';
+
 export interface IWorkspaceDocument extends Document {
   _id: mongoose.Types.ObjectId;
   name: string;
@@ -11,7 +14,10 @@ export interface IWorkspaceDocument extends Document {
   ownerId: mongoose.Types.ObjectId;
   members: mongoose.Types.ObjectId[];
   bannedMembers: mongoose.Types.ObjectId[];
+  roles: Map<string, WorkspaceRole>;
   latestChatMessageTimestamp: Date;
+  revisionLimit: number;
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -47,11 +53,31 @@ const workspaceSchema = new Schema<IWorkspaceDocument>(
       ref: 'User',
       default: []
     }],
+    // Role of each member by user id, members missing here are editors
+    roles: {
+      type: Map,
+      of: {
+        type: String,
+        enum: [WorkspaceRole.ADMIN, WorkspaceRole.EDITOR, WorkspaceRole.COMMENTER, WorkspaceRole.VIEWER]
+      },
+      default: {}
+    },
     latestChatMessageTimestamp: { 
       type: Date, 
       default: Date.now 
     },
-    
+    // Oldest note revisions beyond this count are pruned
+    revisionLimit: {
+      type: Number,
+      default: DEFAULT_WORKSPACE_REVISION_LIMIT
+    },
+    // Set while the workspace sits in the trash, its notes stay untouched until the purge
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true
+    },
+
   },
   { 
     timestamps: true
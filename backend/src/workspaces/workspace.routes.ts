@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { authenticateToken } from '../authentication/auth.middleware';
+import { authorizeWorkspace, workspaceFromParam } from '../authorization/authorization.middleware';
 import { WorkspaceController } from './workspace.controller';
 import { validateBody } from '../middleware/validation.middleware';
-import { CreateWorkspaceRequest, UpdateWorkspaceProfileRequest, UpdateWorkspacePictureRequest, createWorkspaceSchema, updateWorkspaceProfileSchema, updateWorkspacePictureSchema } from './workspace.types';
+import { CreateWorkspaceRequest, TransferOwnershipRequest, UpdateMemberRoleRequest, UpdateWorkspaceProfileRequest, UpdateWorkspacePictureRequest, createWorkspaceSchema, transferOwnershipSchema, updateMemberRoleSchema, updateWorkspaceProfileSchema, updateWorkspacePictureSchema } from './workspace.types';
+import { MergeTagsRequest, UpdateTagRequest, mergeTagsSchema, updateTagSchema } from '../tags/tag.types';
 import { asyncHandler } from '../utils/asyncHandler.util';
 
 const router = Router();
@@ -22,24 +24,84 @@ router.get(
   asyncHandler(workspaceController.getPersonalWorkspace.bind(workspaceController))
 );
 
+// Get the user's workspaces that are in the trash
+router.get(
+  '/trash',
+  asyncHandler(authenticateToken),
+  asyncHandler(workspaceController.getTrashedWorkspaces.bind(workspaceController))
+);
+
 // Get members of a workspace
 router.get(
   '/:id/members',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam()),
   asyncHandler(workspaceController.getWorkspaceMembers.bind(workspaceController))
 );
 
-// Get all tags in a workspace, NOTE: Lowkey idk wut this one rly means, right now it jsut checks all teh tagged notes
+// Names of the tags in use in a workspace
 router.get(
   '/:id/tags',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam()),
   asyncHandler(workspaceController.getAllTags.bind(workspaceController))
 );
 
+// Groups of tags that look like spellings of the same tag
+router.get(
+  '/:id/tags/duplicates',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam()),
+  asyncHandler(workspaceController.getDuplicateTags.bind(workspaceController))
+);
+
+// Every tag of a workspace with its color, description and note count
+router.get(
+  '/:id/tags/details',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam()),
+  asyncHandler(workspaceController.getTagDetails.bind(workspaceController))
+);
+
+// Replace tags by a single one across notes and saved searches
+router.post(
+  '/:id/tags/merge',
+  asyncHandler(authenticateToken),
+  validateBody<MergeTagsRequest>(mergeTagsSchema),
+  authorizeWorkspace('manage', workspaceFromParam()),
+  asyncHandler(workspaceController.mergeTags.bind(workspaceController))
+);
+
+// Rename a tag or change its color or description
+router.put(
+  '/:id/tags/:tag',
+  asyncHandler(authenticateToken),
+  validateBody<UpdateTagRequest>(updateTagSchema),
+  authorizeWorkspace('manage', workspaceFromParam()),
+  asyncHandler(workspaceController.updateTag.bind(workspaceController))
+);
+
+// Remove a tag from every note of the workspace
+router.delete(
+  '/:id/tags/:tag',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('manage', workspaceFromParam()),
+  asyncHandler(workspaceController.deleteTag.bind(workspaceController))
+);
+
+// Download every note of a workspace (?format=markdown|json|csv)
+router.get(
+  '/:id/export',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam()),
+  asyncHandler(workspaceController.exportWorkspace.bind(workspaceController))
+);
+
 // Get membership status for a user
 router.get(
   '/:id/membership/:userId',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam()),
   asyncHandler(workspaceController.getMembershipStatus.bind(workspaceController))
 );
 
@@ -47,6 +109,7 @@ router.get(
 router.get(
   '/:id/poll',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam()),
   asyncHandler(workspaceController.pollForNewMessages.bind(workspaceController))
 );
 
@@ -54,6 +117,7 @@ router.get(
 router.get(
   '/:id',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam()),
   asyncHandler(workspaceController.getWorkspace.bind(workspaceController))
 );
 
@@ -69,6 +133,7 @@ router.post(
 router.post(
   '/:id/members',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('invite', workspaceFromParam()),
   asyncHandler(workspaceController.inviteMember.bind(workspaceController))
 );
 
@@ -77,6 +142,7 @@ router.put(
   '/:id',
   asyncHandler(authenticateToken),
   validateBody<UpdateWorkspaceProfileRequest>(updateWorkspaceProfileSchema),
+  authorizeWorkspace('manage', workspaceFromParam()),
   asyncHandler(workspaceController.updateWorkspaceProfile.bind(workspaceController))
 );
 
@@ -85,27 +151,57 @@ router.put(
   '/:id/picture',
   asyncHandler(authenticateToken),
   validateBody<UpdateWorkspacePictureRequest>(updateWorkspacePictureSchema),
+  authorizeWorkspace('manage', workspaceFromParam()),
   asyncHandler(workspaceController.updateWorkspacePicture.bind(workspaceController))
 );
 
+// Change the role of a member
+router.put(
+  '/:id/members/:userId/role',
+  asyncHandler(authenticateToken),
+  validateBody<UpdateMemberRoleRequest>(updateMemberRoleSchema),
+  authorizeWorkspace('manage', workspaceFromParam()),
+  asyncHandler(workspaceController.updateMemberRole.bind(workspaceController))
+);
+
 // Ban member from workspace
 router.delete(
   '/:id/members/:userId',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('manage', workspaceFromParam()),
   asyncHandler(workspaceController.banMember.bind(workspaceController))
 );
 
+// Hand the workspace over to one of its members
+router.post(
+  '/:id/transfer',
+  asyncHandler(authenticateToken),
+  validateBody<TransferOwnershipRequest>(transferOwnershipSchema),
+  authorizeWorkspace('manage', workspaceFromParam()),
+  asyncHandler(workspaceController.transferOwnership.bind(workspaceController))
+);
+
 // Leave workspace (user removes themselves)
 router.post(
   '/:id/leave',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam()),
   asyncHandler(workspaceController.leaveWorkspace.bind(workspaceController))
 );
 
-// Delete workspace
+// Take a workspace back out of the trash
+router.post(
+  '/:id/restore',
+  asyncHandler(authenticateToken),
+  authorizeWorkspace('manage', workspaceFromParam(), { includeTrashed: true }),
+  asyncHandler(workspaceController.restoreWorkspace.bind(workspaceController))
+);
+
+// Move workspace to the trash
 router.delete(
   '/:id',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('manage', workspaceFromParam()),
   asyncHandler(workspaceController.deleteWorkspace.bind(workspaceController))
 );
 
@@ -113,6 +209,7 @@ router.delete(
 router.get(
   '/:id',
   asyncHandler(authenticateToken),
+  authorizeWorkspace('view', workspaceFromParam()),
   asyncHandler(workspaceController.getWorkspace.bind(workspaceController))
 );
 
@@ -1,7 +1,15 @@
 import mongoose from 'mongoose';
-import { Workspace, WsMembershipStatus, CreateWorkspaceRequest } from './workspace.types';
-import { workspaceModel } from './workspace.model';
-import { noteModel } from '../notes/note.model';
+import {
+    Workspace,
+    WsMembership,
+    WorkspaceRole,
+    DEFAULT_MEMBER_ROLE,
+    CreateWorkspaceRequest,
+    UpdateWorkspaceProfileRequest,
+} from './workspace.types';
+import { IWorkspaceDocument, workspaceModel } from './workspace.model';
+import { tagModel } from '../tags/tag.model';
+import { assertAllowed, getMembership } from '../authorization/authorization.policy';
 import { userModel } from '../users/user.model';
 import { notificationService } from '../notifications/notification.service';
 import logger from '../utils/logger.util';
@@ -37,6 +45,7 @@ export class WorkspaceService {
             ownerId: newWorkspace.ownerId.toString(),
             members: newWorkspace.members.map(id => id.toString()),
             latestChatMessageTimestamp: newWorkspace.latestChatMessageTimestamp,
+            revisionLimit: newWorkspace.revisionLimit,
             createdAt: newWorkspace.createdAt,
             updatedAt: newWorkspace.updatedAt,
         };
@@ -57,7 +66,7 @@ export class WorkspaceService {
         // Get the workspace
         const workspace = await workspaceModel.findById(user.personalWorkspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Personal workspace not found');
         }
 
@@ -68,14 +77,16 @@ export class WorkspaceService {
             ownerId: workspace.ownerId.toString(),
             members: workspace.members.map(id => id.toString()),
             latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
             createdAt: workspace.createdAt,
             updatedAt: workspace.updatedAt,
         };
     }
 
     async getWorkspacesForUser(userId: mongoose.Types.ObjectId, personalWorkspaceId?: mongoose.Types.ObjectId): Promise<Workspace[]> {
-        const query: { members: mongoose.Types.ObjectId; _id?: { $ne: mongoose.Types.ObjectId } } = {
-            members: userId
+        const query: { members: mongoose.Types.ObjectId; deletedAt: null; _id?: { $ne: mongoose.Types.ObjectId } } = {
+            members: userId,
+            deletedAt: null
         };
         
         // Exclude personal workspace if provided
@@ -92,6 +103,7 @@ export class WorkspaceService {
             ownerId: workspace.ownerId.toString(),
             members: workspace.members.map(id => id.toString()),
             latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
             createdAt: workspace.createdAt,
             updatedAt: workspace.updatedAt,
         }));
@@ -100,15 +112,11 @@ export class WorkspaceService {
     async getWorkspace(workspaceId: string, userId: mongoose.Types.ObjectId): Promise<Workspace> {
         const workspace = await workspaceModel.findById(workspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
 
-        const isMember = workspace.members.some(memberId => memberId.toString() === userId.toString());
-
-        if (!isMember) {
-            throw new Error('Access denied: You are not a member of this workspace');
-        }
+        assertAllowed(workspace, userId, 'view');
 
         return {
             _id: workspace._id.toString(),
@@ -117,6 +125,7 @@ export class WorkspaceService {
             ownerId: workspace.ownerId.toString(),
             members: workspace.members.map(id => id.toString()),
             latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
             createdAt: workspace.createdAt,
             updatedAt: workspace.updatedAt,
         };
@@ -126,7 +135,7 @@ export class WorkspaceService {
         // 1. Fetch workspace
         const workspace = await workspaceModel.findById(workspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
         // 3. Get list of user IDs from members array
@@ -141,58 +150,37 @@ export class WorkspaceService {
     async getAllTags(workspaceId: string, userId: mongoose.Types.ObjectId): Promise<string[]> {
         const workspace = await workspaceModel.findById(workspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
 
-        // Check if user is a member
-        const isMember = workspace.members.some(memberId => memberId.toString() === userId.toString());
+        assertAllowed(workspace, userId, 'view');
 
-        if (!isMember) {
-            throw new Error('Access denied: You are not a member of this workspace');
-        }
+        // Tags some live note of the workspace carries
+        const tags = await tagModel.find({ workspaceId, noteCount: { $gt: 0 } }).sort({ name: 1 }).select('name');
 
-        // Get all notes in this workspace
-        const notes = await noteModel.find({ workspaceId });
-
-        // Extract all tags and get unique ones
-        const allTags = notes.flatMap(note => note.tags);
-        const uniqueTags = [...new Set(allTags)];
-
-        return uniqueTags;
+        return tags.map(tag => tag.name);
     }
 
-    async getMembershipStatus(workspaceId: string, checkUserId: string): Promise<WsMembershipStatus> {
+    async getMembershipStatus(workspaceId: string, checkUserId: string): Promise<WsMembership> {
         const workspace = await workspaceModel.findById(workspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
 
-        // Check if user is owner
-        if (workspace.ownerId.toString() === checkUserId) {
-            return WsMembershipStatus.OWNER;
-        }
-
-        // Check if user is banned
-        const isBanned = workspace.bannedMembers.some(id => id.toString() === checkUserId);
-        if (isBanned) {
-            return WsMembershipStatus.BANNED;
-        }
-
-        // Check if user is member
-        const isMember = workspace.members.some(id => id.toString() === checkUserId);
-        if (isMember) {
-            return WsMembershipStatus.MEMBER;
-        }
-
-        return WsMembershipStatus.NOT_MEMBER;
+        return getMembership(workspace, checkUserId);
     }
 
-    async inviteMember(workspaceId: string, requestingUserId: mongoose.Types.ObjectId, userIdToAdd: string): Promise<Workspace> {
+    async inviteMember(
+        workspaceId: string,
+        requestingUserId: mongoose.Types.ObjectId,
+        userIdToAdd: string,
+        role: WorkspaceRole = DEFAULT_MEMBER_ROLE
+    ): Promise<Workspace> {
         const workspace = await workspaceModel.findById(workspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
 
@@ -202,10 +190,10 @@ export class WorkspaceService {
             throw new Error('Cannot invite members to personal workspace');
         }
 
-        // Check if requesting user is a member
-        const isMember = workspace.members.some(memberId => memberId.toString() === requestingUserId.toString());
-        if (!isMember) {
-            throw new Error('Access denied: You are not a member of this workspace');
+        // Check if the requesting user's role lets them invite, admins are appointed by the owner alone
+        const requester = assertAllowed(workspace, requestingUserId, 'invite');
+        if (role === WorkspaceRole.ADMIN && requester.role !== WorkspaceRole.OWNER) {
+            throw new Error('Access denied: Only workspace owner can appoint admins');
         }
 
         // Check if user to add exists
@@ -228,6 +216,7 @@ export class WorkspaceService {
 
         // Add member
         workspace.members.push(new mongoose.Types.ObjectId(userIdToAdd));
+        workspace.roles.set(userIdToAdd, role);
         await workspace.save();
 
         // Send notification to the invited user
@@ -262,6 +251,7 @@ export class WorkspaceService {
             ownerId: workspace.ownerId.toString(),
             members: workspace.members.map(id => id.toString()),
             latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
             createdAt: workspace.createdAt,
             updatedAt: workspace.updatedAt,
         };
@@ -270,7 +260,7 @@ export class WorkspaceService {
     async leaveWorkspace(workspaceId: string, userId: mongoose.Types.ObjectId): Promise<Workspace> {
         const workspace = await workspaceModel.findById(workspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
 
@@ -293,6 +283,7 @@ export class WorkspaceService {
 
         // Remove user from members
         workspace.members = workspace.members.filter(id => id.toString() !== userId.toString());
+        workspace.roles.delete(userId.toString());
         await workspace.save();
 
         return {
@@ -302,6 +293,7 @@ export class WorkspaceService {
             ownerId: workspace.ownerId.toString(),
             members: workspace.members.map(id => id.toString()),
             latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
             createdAt: workspace.createdAt,
             updatedAt: workspace.updatedAt,
         };
@@ -310,7 +302,7 @@ export class WorkspaceService {
     async banMember(workspaceId: string, requestingUserId: mongoose.Types.ObjectId, userIdToBan: string): Promise<Workspace> {
         const workspace = await workspaceModel.findById(workspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
 
@@ -320,10 +312,7 @@ export class WorkspaceService {
             throw new Error('Cannot ban members from personal workspace');
         }
 
-        // Only owner can ban members
-        if (workspace.ownerId.toString() !== requestingUserId.toString()) {
-            throw new Error('Access denied: Only workspace owner can ban members');
-        }
+        assertAllowed(workspace, requestingUserId, 'manage');
 
         // Can't ban the owner
         if (workspace.ownerId.toString() === userIdToBan) {
@@ -338,6 +327,7 @@ export class WorkspaceService {
 
         // Remove from members if present
         workspace.members = workspace.members.filter(id => id.toString() !== userIdToBan);
+        workspace.roles.delete(userIdToBan);
 
         // Add to banned list if not already banned
         const alreadyBanned = workspace.bannedMembers.some(id => id.toString() === userIdToBan);
@@ -354,23 +344,147 @@ export class WorkspaceService {
             ownerId: workspace.ownerId.toString(),
             members: workspace.members.map(id => id.toString()),
             latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
             createdAt: workspace.createdAt,
             updatedAt: workspace.updatedAt,
         };
     }
 
-    async updateWorkspaceProfile(workspaceId: string, requestingUserId: mongoose.Types.ObjectId, updateData: { name?: string; description?: string }): Promise<Workspace> {
+    // Make a member the owner, the previous owner stays on as an admin and the new one is notified
+    private async handOverWorkspace(
+        workspace: IWorkspaceDocument,
+        newOwnerId: string,
+        previousOwnerId: mongoose.Types.ObjectId
+    ): Promise<void> {
+        workspace.ownerId = new mongoose.Types.ObjectId(newOwnerId);
+        workspace.roles.delete(newOwnerId);
+        workspace.roles.set(previousOwnerId.toString(), WorkspaceRole.ADMIN);
+        await workspace.save();
+
+        try {
+            const newOwner = await userModel.findById(new mongoose.Types.ObjectId(newOwnerId));
+            const previousOwner = await userModel.findById(previousOwnerId);
+
+            if (newOwner?.fcmToken && previousOwner) {
+                await notificationService.sendNotification(
+                    newOwner.fcmToken,
+                    'Workspace Ownership',
+                    `${previousOwner.profile.name} made you the owner of "${workspace.name}"`,
+                    {
+                        type: 'workspace_transfer',
+                        workspaceId: workspace._id.toString(),
+                        workspaceName: workspace.name,
+                        previousOwnerId: previousOwnerId.toString()
+                    }
+                );
+                logger.info(`Notification sent to user ${newOwnerId} for workspace ${workspace._id.toString()}`);
+            } else {
+                logger.info(`No FCM token available for user ${newOwnerId}, skipping notification`);
+            }
+        } catch (notificationError) {
+            // Log but don't fail the whole operation if notification fails
+            logger.error('Failed to send notification:', notificationError);
+        }
+    }
+
+    async transferOwnership(workspaceId: string, requestingUserId: mongoose.Types.ObjectId, newOwnerId: string): Promise<Workspace> {
         const workspace = await workspaceModel.findById(workspaceId);
-        
-        if (!workspace) {
+
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
 
-        // Only owner can update workspace profile
-        if (workspace.ownerId.toString() !== requestingUserId.toString()) {
-            throw new Error('Only workspace owner can update workspace profile');
+        // Check if this is a personal workspace
+        const user = await userModel.findById(requestingUserId);
+        if (user?.personalWorkspaceId?.toString() === workspaceId) {
+            throw new Error('Cannot transfer your personal workspace');
+        }
+
+        assertAllowed(workspace, requestingUserId, 'manage');
+
+        if (newOwnerId === requestingUserId.toString()) {
+            throw new Error('You already own this workspace');
+        }
+
+        // The new owner must be a member in good standing
+        const isMember = workspace.members.some(id => id.toString() === newOwnerId);
+        const isBanned = workspace.bannedMembers.some(id => id.toString() === newOwnerId);
+        if (!isMember || isBanned) {
+            throw new Error('Member not found');
         }
 
+        await this.handOverWorkspace(workspace, newOwnerId, requestingUserId);
+
+        return {
+            _id: workspace._id.toString(),
+            name: workspace.name,
+            profile: workspace.profile,
+            ownerId: workspace.ownerId.toString(),
+            members: workspace.members.map(id => id.toString()),
+            latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
+            createdAt: workspace.createdAt,
+            updatedAt: workspace.updatedAt,
+        };
+    }
+
+    // Hand a workspace whose owner is leaving for good to its longest-standing member. Members are
+    // kept in the order they joined, so that is the first one who is not the owner and not banned.
+    // Resolves to the new owner's id, or null when nobody is left to take over.
+    async transferToLongestStandingMember(workspace: IWorkspaceDocument): Promise<string | null> {
+        const ownerId = workspace.ownerId;
+        const successor = workspace.members.find(id =>
+            id.toString() !== ownerId.toString()
+            && !workspace.bannedMembers.some(bannedId => bannedId.toString() === id.toString())
+        );
+        if (!successor) {
+            return null;
+        }
+
+        await this.handOverWorkspace(workspace, successor.toString(), ownerId);
+        return successor.toString();
+    }
+
+    async updateMemberRole(
+        workspaceId: string,
+        requestingUserId: mongoose.Types.ObjectId,
+        memberId: string,
+        role: WorkspaceRole
+    ): Promise<WsMembership> {
+        const workspace = await workspaceModel.findById(workspaceId);
+
+        if (!workspace || workspace.deletedAt) {
+            throw new Error('Workspace not found');
+        }
+
+        assertAllowed(workspace, requestingUserId, 'manage');
+
+        // The owner's role comes with the workspace
+        if (workspace.ownerId.toString() === memberId) {
+            throw new Error('Cannot change the role of the workspace owner');
+        }
+
+        const isMember = workspace.members.some(id => id.toString() === memberId);
+        const isBanned = workspace.bannedMembers.some(id => id.toString() === memberId);
+        if (!isMember || isBanned) {
+            throw new Error('Member not found');
+        }
+
+        workspace.roles.set(memberId, role);
+        await workspace.save();
+
+        return getMembership(workspace, memberId);
+    }
+
+    async updateWorkspaceProfile(workspaceId: string, requestingUserId: mongoose.Types.ObjectId, updateData: UpdateWorkspaceProfileRequest): Promise<Workspace> {
+        const workspace = await workspaceModel.findById(workspaceId);
+        
+        if (!workspace || workspace.deletedAt) {
+            throw new Error('Workspace not found');
+        }
+
+        assertAllowed(workspace, requestingUserId, 'manage');
+
         // Update profile fields
         if (updateData.name !== undefined) {
             workspace.profile.name = updateData.name;
@@ -379,6 +493,9 @@ export class WorkspaceService {
         if (updateData.description !== undefined) {
             workspace.profile.description = updateData.description;
         }
+        if (updateData.revisionLimit !== undefined) {
+            workspace.revisionLimit = updateData.revisionLimit;
+        }
 
         await workspace.save();
 
@@ -389,6 +506,7 @@ export class WorkspaceService {
             ownerId: workspace.ownerId.toString(),
             members: workspace.members.map(id => id.toString()),
             latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
             createdAt: workspace.createdAt,
             updatedAt: workspace.updatedAt,
         };
@@ -397,14 +515,11 @@ export class WorkspaceService {
     async updateWorkspacePicture(workspaceId: string, requestingUserId: mongoose.Types.ObjectId, profilePicture: string): Promise<Workspace> {
         const workspace = await workspaceModel.findById(workspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
 
-        // Only owner can update workspace picture
-        if (workspace.ownerId.toString() !== requestingUserId.toString()) {
-            throw new Error('Only workspace owner can update workspace picture');
-        }
+        assertAllowed(workspace, requestingUserId, 'manage');
 
         // Update profile picture
         workspace.profile.imagePath = profilePicture;
@@ -417,6 +532,7 @@ export class WorkspaceService {
             ownerId: workspace.ownerId.toString(),
             members: workspace.members.map(id => id.toString()),
             latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
             createdAt: workspace.createdAt,
             updatedAt: workspace.updatedAt,
         };
@@ -425,7 +541,7 @@ export class WorkspaceService {
     async deleteWorkspace(workspaceId: string, requestingUserId: mongoose.Types.ObjectId): Promise<Workspace> {
         const workspace = await workspaceModel.findById(workspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
 
@@ -435,16 +551,56 @@ export class WorkspaceService {
             throw new Error('Cannot delete your personal workspace');
         }
 
-        // Only owner can delete workspace
-        if (workspace.ownerId.toString() !== requestingUserId.toString()) {
-            throw new Error('Only workspace owner can delete the workspace');
+        assertAllowed(workspace, requestingUserId, 'manage');
+
+        // Move the workspace to the trash, its notes are only removed by the purge
+        workspace.deletedAt = new Date();
+        await workspace.save();
+
+        return {
+            _id: workspace._id.toString(),
+            name: workspace.name,
+            profile: workspace.profile,
+            ownerId: workspace.ownerId.toString(),
+            members: workspace.members.map(id => id.toString()),
+            latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
+            createdAt: workspace.createdAt,
+            updatedAt: workspace.updatedAt,
+        };
+    }
+
+    // Workspaces the user owns that are currently in the trash
+    async getTrashedWorkspaces(userId: mongoose.Types.ObjectId): Promise<Workspace[]> {
+        const workspaces = await workspaceModel
+            .find({ ownerId: userId, deletedAt: { $ne: null } })
+            .sort({ deletedAt: -1 });
+
+        return workspaces.map(workspace => ({
+            _id: workspace._id.toString(),
+            name: workspace.name,
+            profile: workspace.profile,
+            ownerId: workspace.ownerId.toString(),
+            members: workspace.members.map(id => id.toString()),
+            latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
+            deletedAt: workspace.deletedAt,
+            createdAt: workspace.createdAt,
+            updatedAt: workspace.updatedAt,
+        }));
+    }
+
+    async restoreWorkspace(workspaceId: string, requestingUserId: mongoose.Types.ObjectId): Promise<Workspace> {
+        const workspace = await workspaceModel.findById(workspaceId);
+
+        if (!workspace?.deletedAt) {
+            throw new Error('Workspace not found');
         }
 
-        // Delete all notes in the workspace
-        await noteModel.deleteMany({ workspaceId });
+        assertAllowed(workspace, requestingUserId, 'manage');
 
-        // Delete the workspace
-        await workspaceModel.findByIdAndDelete(workspaceId);
+        workspace.deletedAt = null;
+        await workspace.save();
 
         return {
             _id: workspace._id.toString(),
@@ -453,6 +609,7 @@ export class WorkspaceService {
             ownerId: workspace.ownerId.toString(),
             members: workspace.members.map(id => id.toString()),
             latestChatMessageTimestamp: workspace.latestChatMessageTimestamp,
+            revisionLimit: workspace.revisionLimit,
             createdAt: workspace.createdAt,
             updatedAt: workspace.updatedAt,
         };
@@ -461,7 +618,7 @@ export class WorkspaceService {
     async checkForNewChatMessages(workspaceId: string): Promise<boolean> {
         const workspace = await workspaceModel.findById(workspaceId);
         
-        if (!workspace) {
+        if (!workspace || workspace.deletedAt) {
             throw new Error('Workspace not found');
         }
         
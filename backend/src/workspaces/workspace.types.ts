@@ -15,10 +15,23 @@ export interface Workspace {
   ownerId: string;
   members: string[];
   latestChatMessageTimestamp: Date;
+  revisionLimit: number; // Note revisions kept for the whole workspace
+  deletedAt?: Date | null; // Only reported by the trash listing
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Role of a user in a workspace, members without a stored role are editors
+export enum WorkspaceRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  EDITOR = 'editor',
+  COMMENTER = 'commenter',
+  VIEWER = 'viewer'
+}
+
+export const DEFAULT_MEMBER_ROLE = WorkspaceRole.EDITOR;
+
 // Request types
 export interface CreateWorkspaceRequest {
   name: string;
@@ -29,6 +42,7 @@ export interface CreateWorkspaceRequest {
 export interface UpdateWorkspaceProfileRequest {
   name?: string;
   description?: string;
+  revisionLimit?: number;
 }
 
 export interface UpdateWorkspacePictureRequest {
@@ -37,6 +51,15 @@ export interface UpdateWorkspacePictureRequest {
 
 export interface AddMemberRequest {
   userId: string;
+  role?: WorkspaceRole;
+}
+
+export interface UpdateMemberRoleRequest {
+  role: WorkspaceRole;
+}
+
+export interface TransferOwnershipRequest {
+  userId: string;
 }
 
 // Zod Schemas
@@ -49,14 +72,30 @@ export const createWorkspaceSchema = z.object({
 export const updateWorkspaceProfileSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
+  revisionLimit: z.number().int().min(1).optional(),
 });
 
 export const updateWorkspacePictureSchema = z.object({
   profilePicture: z.string().min(1, 'Profile picture URL is required'),
 });
 
+// Roles that can be given to a member, the owner role comes with owning the workspace only
+export const memberRoleSchema = z.enum(
+  [WorkspaceRole.ADMIN, WorkspaceRole.EDITOR, WorkspaceRole.COMMENTER, WorkspaceRole.VIEWER],
+  { error: 'role must be admin, editor, commenter or viewer' }
+);
+
 export const addMemberSchema = z.object({
   userId: z.string().min(1, 'User ID is required'),
+  role: memberRoleSchema.optional(),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: memberRoleSchema,
+});
+
+export const transferOwnershipSchema = z.object({
+  userId: z.string().min(1, 'User ID is required'),
 });
 
 // Membership status enum
@@ -67,3 +106,8 @@ export enum WsMembershipStatus {
   BANNED = 'BANNED'
 }
 
+// Membership status of a user together with their role, null unless they are the owner or a member
+export interface WsMembership {
+  status: WsMembershipStatus;
+  role: WorkspaceRole | null;
+}